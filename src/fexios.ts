@@ -12,16 +12,34 @@ import type {
   FexiosRequestShortcut,
   FexiosLifecycleEventMap,
   FexiosPlugin,
+  FexiosRequestPromise,
+  FexiosTimeoutPhase,
+  FexiosRequestOptionsWithSchema,
+  FexiosJsonOptions,
+  FexiosBodyType,
 } from './types.js'
 import {
   createFexiosResponse,
+  FexiosCodecRegistry,
   FexiosError,
   FexiosErrorCodes,
   FexiosHeaderBuilder,
+  FexiosJson,
+  FexiosPathBuilder,
   FexiosQueryBuilder,
   FexiosResponse,
+  FexiosTimeoutError,
+  FexiosValidationError,
+  validateStandardSchema,
+  type StandardSchemaV1,
 } from './models/index.js'
-import { deepMerge, isPlainObject, CallableInstance } from './utils/index.js'
+import {
+  deepMerge,
+  isPlainObject,
+  CallableInstance,
+  fetchWithUploadProgress,
+  resolveTimeoutOptions,
+} from './utils/index.js'
 
 /**
  * Fexios
@@ -32,7 +50,7 @@ export class Fexios extends CallableInstance<
     string | URL | (Partial<FexiosRequestOptions> & { url: string | URL }),
     Partial<FexiosRequestOptions>?,
   ],
-  Promise<FexiosFinalContext<any>>
+  FexiosRequestPromise<any>
 > {
   static readonly version = import.meta.env.__VERSION__
   private static readonly FINAL_SYMBOL = Symbol('FEXIOS_FINAL_CONTEXT')
@@ -57,6 +75,10 @@ export class Fexios extends CallableInstance<
     fetch: globalThis.fetch,
   }
   protected hooks: FexiosHookStore[] = []
+  /**
+   * Request body serializers and response parsers of this instance, by content type
+   */
+  codecs = new FexiosCodecRegistry()
   static readonly ALL_METHODS: FexiosMethods[] = [
     'get',
     'post',
@@ -73,6 +95,13 @@ export class Fexios extends CallableInstance<
     'options',
     'trace',
   ]
+  /** Content type to serialize a plain object body for each `bodyType` */
+  static readonly BODY_CONTENT_TYPES: Record<FexiosBodyType, string> = {
+    json: 'application/json',
+    urlencoded: 'application/x-www-form-urlencoded',
+    multipart: 'multipart/form-data',
+    text: 'text/plain',
+  }
 
   constructor(baseConfigs: Partial<FexiosConfigs> = {}) {
     super('request')
@@ -175,21 +204,30 @@ export class Fexios extends CallableInstance<
     })
   }
 
-  async request<T = any>(
+  /** Cancel controllers of in-flight requests, with their tags */
+  private inflightRequests = new Map<AbortController, string[]>()
+
+  request<S extends StandardSchemaV1>(
+    url: string | URL,
+    options: FexiosRequestOptionsWithSchema<S>
+  ): FexiosRequestPromise<StandardSchemaV1.InferOutput<S>>
+  request<S extends StandardSchemaV1>(
+    options: FexiosRequestOptionsWithSchema<S> & { url: string | URL }
+  ): FexiosRequestPromise<StandardSchemaV1.InferOutput<S>>
+  request<T = any>(
     url: string | URL,
     options?: Partial<FexiosRequestOptions>
-  ): Promise<FexiosFinalContext<T>>
-  async request<T = any>(
+  ): FexiosRequestPromise<T>
+  request<T = any>(
     options: Partial<FexiosRequestOptions> & { url: string | URL }
-  ): Promise<FexiosFinalContext<T>>
-  async request<T = any>(
+  ): FexiosRequestPromise<T>
+  request<T = any>(
     urlOrOptions:
       | string
       | URL
       | (Partial<FexiosRequestOptions> & { url: string | URL }),
     options?: Partial<FexiosRequestOptions>
-  ): Promise<FexiosFinalContext<T>> {
-    const thisApp = this
+  ): FexiosRequestPromise<T> {
     let reqInit: Partial<FexiosRequestOptions> = options || {}
 
     if (typeof urlOrOptions === 'string' || urlOrOptions instanceof URL) {
@@ -198,9 +236,102 @@ export class Fexios extends CallableInstance<
       reqInit = urlOrOptions as any
     }
 
+    // aborted by `.abort()`, `cancelAll()`, `signal`, `abortController` or timeouts.
+    // Signals given by the user are only listened to, they may be shared by requests.
+    const controller = new AbortController()
+    const cleanups: (() => void)[] = []
+    const signal = reqInit.signal
+    const onSignalAbort = () => controller.abort(signal!.reason)
+    if (signal?.aborted) {
+      onSignalAbort()
+    } else {
+      signal?.addEventListener('abort', onSignalAbort, { once: true })
+    }
+    this.inflightRequests.set(controller, reqInit.tags || [])
+
+    // counts from here, so hooks waiting before the fetch (e.g. rate limits) are bounded
+    const { total } = resolveTimeoutOptions(
+      this.baseConfigs.timeout,
+      reqInit.timeout
+    )
+    const totalTimer =
+      total > 0
+        ? setTimeout(
+            () => controller.abort(new FexiosTimeoutError('total', total)),
+            total
+          )
+        : undefined
+
+    let released = false
+    let bodyPending = false
+    const release = () => {
+      if (released) return
+      released = true
+      signal?.removeEventListener('abort', onSignalAbort)
+      cleanups.forEach((cleanup) => cleanup())
+      this.inflightRequests.delete(controller)
+    }
+    // stream bodies are read after the request resolves,
+    // keep listening to signals and stay in flight until the body settles
+    const keepUntilBodySettled = () => {
+      bodyPending = true
+      return release
+    }
+
+    const promise = this.performRequest<T>(
+      reqInit,
+      controller,
+      cleanups,
+      keepUntilBodySettled
+    )
+      .catch((err) => {
+        release()
+        // e.g. plugins rejecting with `signal.reason` while waiting
+        if (
+          !(err instanceof FexiosError) &&
+          (controller.signal.aborted || err?.name === 'AbortError')
+        ) {
+          throw createAbortError(
+            controller.signal.aborted ? controller.signal.reason : err
+          )
+        }
+        throw err
+      })
+      .finally(() => {
+        clearTimeout(totalTimer)
+        if (!bodyPending) release()
+      }) as FexiosRequestPromise<T>
+    promise.abort = (reason?: unknown) => controller.abort(reason)
+    return promise
+  }
+
+  /**
+   * Abort all in-flight requests, or only those tagged with `tag`
+   * @returns count of aborted requests
+   */
+  cancelAll(options: { tag?: string; reason?: unknown } = {}) {
+    let count = 0
+    for (const [controller, tags] of this.inflightRequests) {
+      if (options.tag !== undefined && !tags.includes(options.tag)) continue
+      controller.abort(options.reason)
+      count++
+    }
+    return count
+  }
+
+  private async performRequest<T = any>(
+    reqInit: Partial<FexiosRequestOptions>,
+    controller: AbortController,
+    cleanups: (() => void)[],
+    keepUntilBodySettled: () => () => void
+  ): Promise<FexiosFinalContext<T>> {
+    const thisApp = this
     const {
       abortController: inputAbortController,
+      signal: _signal,
       customEnv,
+      onDownloadProgress,
+      onUploadProgress,
       ...requestOnly
     } = reqInit as any
 
@@ -215,6 +346,8 @@ export class Fexios extends CallableInstance<
       runtime: {
         abortController: inputAbortController,
         customEnv,
+        onDownloadProgress,
+        onUploadProgress,
       },
       response: undefined,
       rawResponse: undefined,
@@ -259,8 +392,25 @@ export class Fexios extends CallableInstance<
     ctx = await this.emit('beforeRequest', ctx)
     if ((ctx as any)[Fexios.FINAL_SYMBOL]) return ctx as any
 
+    // validate body before transforming, send the validated output
+    if (ctx.request.bodySchema) {
+      const result = await validateStandardSchema(
+        ctx.request.bodySchema,
+        ctx.request.body
+      )
+      if (result.issues) {
+        throw new FexiosValidationError(
+          FexiosErrorCodes.REQUEST_VALIDATION_ERROR,
+          result.issues,
+          undefined,
+          ctx
+        )
+      }
+      ctx.request.body = result.value as any
+    }
+
     // resolve body & auto Content-Type
-    let body: string | FormData | URLSearchParams | Blob | undefined
+    let body: BodyInit | undefined
     const headerAutoPatch: Record<string, unknown> = {}
     const req = ctx.request as any
     if (typeof req.body !== 'undefined' && req.body !== null) {
@@ -271,10 +421,41 @@ export class Fexios extends CallableInstance<
       ) {
         body = req.body
       } else if (typeof req.body === 'object' && req.body !== null) {
-        body = JSON.stringify(req.body)
-        req.headers = this.mergeHeaders(req.headers, {
-          'Content-Type': 'application/json',
-        })
+        // serialize by `bodyType` or the user Content-Type, fallback to JSON
+        const userContentType = FexiosHeaderBuilder.makeHeaders(
+          req.headers || {}
+        ).get('content-type')
+        const contentType = req.bodyType
+          ? Fexios.BODY_CONTENT_TYPES[req.bodyType as FexiosBodyType]
+          : userContentType
+        const serializer = contentType
+          ? this.codecs.findSerializer(contentType)
+          : undefined
+        if (serializer) {
+          body = await serializer(req.body, ctx)
+          if (body instanceof FormData) {
+            // let fetch set the multipart boundary
+            headerAutoPatch['content-type'] = null
+          } else if (
+            !userContentType ||
+            (req.bodyType &&
+              !isSameBodyType(req.bodyType as FexiosBodyType, userContentType))
+          ) {
+            // `bodyType` replaces a Content-Type of another type given by user
+            req.headers = this.mergeHeaders(req.headers, {
+              'Content-Type': contentType,
+            })
+          }
+        } else {
+          const json =
+            this.codecs.findSerializer('application/json') ??
+            ((body) =>
+              FexiosJson.stringify(body, this.resolveJsonOptions(ctx)))
+          body = await json(req.body, ctx)
+          req.headers = this.mergeHeaders(req.headers, {
+            'Content-Type': 'application/json',
+          })
+        }
       } else {
         body = req.body
       }
@@ -300,9 +481,23 @@ export class Fexios extends CallableInstance<
     if ((ctx as any)[Fexios.FINAL_SYMBOL]) return ctx as any
 
     // build Request
-    const abortController =
-      (ctx.runtime.abortController as AbortController | undefined) ??
-      (globalThis.AbortController ? new AbortController() : undefined)
+    // the user's AbortController aborts the request, but not the other way around
+    const userController = ctx.runtime.abortController as
+      | AbortController
+      | undefined
+    if (userController && userController !== controller) {
+      const userSignal = userController.signal
+      const onUserAbort = () => controller.abort(userSignal.reason)
+      if (userSignal.aborted) {
+        onUserAbort()
+      } else {
+        userSignal.addEventListener('abort', onUserAbort, { once: true })
+        cleanups.push(() =>
+          userSignal.removeEventListener('abort', onUserAbort)
+        )
+      }
+    }
+    ctx.runtime.abortController = userController ?? controller
 
     // 此时 ctx.url 应该已经是完整 URL (由 applyDefaults 保证)
     // 但如果在 hooks 中被修改为相对路径，我们需要再次尝试 resolve
@@ -332,7 +527,7 @@ export class Fexios extends CallableInstance<
         headerAutoPatch
       ),
       body: (ctx.request as any).body as any,
-      signal: abortController?.signal,
+      signal: controller.signal,
     })
     ctx.request.rawRequest = rawRequest
 
@@ -340,12 +535,14 @@ export class Fexios extends CallableInstance<
     ctx = await this.emit('beforeActualFetch', ctx)
     if ((ctx as any)[Fexios.FINAL_SYMBOL]) return ctx as any
 
-    const timeout =
-      (ctx.request as any).timeout ?? this.baseConfigs.timeout ?? 60 * 1000
+    const timeout = resolveTimeoutOptions(
+      this.baseConfigs.timeout,
+      (ctx.request as any).timeout
+    )
     const shouldThrow =
       (ctx.request as any).shouldThrow ?? this.baseConfigs.shouldThrow
 
-    // WebSocket / SSE are moved to plugins in the next major version.
+    // WebSocket is moved to plugins in the next major version.
     // Keep a helpful runtime error for legacy usage.
     if (
       (ctx.request as any).url.startsWith('ws') ||
@@ -357,67 +554,70 @@ export class Fexios extends CallableInstance<
         ctx
       )
     }
-    if (((ctx.request as any).responseType as any) === 'stream') {
-      throw new FexiosError(
-        FexiosErrorCodes.FEATURE_MOVED_TO_PLUGIN,
-        `SSE support has been moved to plugins. Use "fexios/plugins" and call fx.sse() instead.`,
-        ctx
-      )
-    }
 
     // —— fetch + 超时控制 —— //
-    let timer: ReturnType<typeof setTimeout> | undefined
+    const abortOnTimeout = (phase: FexiosTimeoutPhase) => () =>
+      controller.abort(new FexiosTimeoutError(phase, timeout[phase], ctx))
+    let responseTimer: ReturnType<typeof setTimeout> | undefined
     try {
-      if (abortController) {
-        timer =
-          timeout > 0
-            ? setTimeout(() => {
-                abortController.abort()
-              }, timeout)
-            : undefined
+      if (timeout.response > 0) {
+        responseTimer = setTimeout(abortOnTimeout('response'), timeout.response)
+      }
+      if (controller.signal.aborted) {
+        throw createAbortError(controller.signal.reason, ctx)
       }
 
       const fetch =
         (ctx.request as any).fetch || this.baseConfigs.fetch || globalThis.fetch
-      const rawResponse = await fetch(ctx.request.rawRequest!).catch(
-        (err: any) => {
-          if (timer) clearTimeout(timer)
-          if (abortController?.signal.aborted) {
-            throw new FexiosError(
-              FexiosErrorCodes.TIMEOUT,
-              `Request timed out after ${timeout}ms`,
-              ctx
-            )
-          }
-          throw new FexiosError(
-            FexiosErrorCodes.NETWORK_ERROR,
-            err.message,
-            ctx
+      // keep ctx.request.rawRequest unread, send a progress-tracked copy instead
+      const sending = ctx.runtime.onUploadProgress
+        ? fetchWithUploadProgress(
+            fetch,
+            ctx.request.rawRequest!,
+            (ctx.request as any).body,
+            ctx.runtime.onUploadProgress
           )
+        : fetch(ctx.request.rawRequest!)
+      const rawResponse = await sending.catch((err: any) => {
+        // custom fetch (e.g. from plugins) may already throw a well-formed error
+        if (err instanceof FexiosError) throw err
+        if (controller.signal.aborted) {
+          throw createAbortError(controller.signal.reason, ctx)
         }
-      )
+        throw new FexiosError(FexiosErrorCodes.NETWORK_ERROR, err.message, ctx)
+      })
 
-      if (timer) clearTimeout(timer)
+      clearTimeout(responseTimer)
 
       ctx.rawResponse = rawResponse
       await this.emit('afterRawResponse', ctx)
       if ((ctx as any)[Fexios.FINAL_SYMBOL]) return ctx as any
 
-      ctx.response = await createFexiosResponse(
+      const response = await createFexiosResponse(
         rawResponse,
         (ctx.request as any).responseType,
         shouldThrow,
-        timeout
+        timeout.body,
+        {
+          onProgress: ctx.runtime.onDownloadProgress,
+          signal: controller.signal,
+          onBodySettled:
+            (ctx.request as any).responseType === 'stream'
+              ? keepUntilBodySettled()
+              : undefined,
+          codecs: this.codecs,
+          json: this.resolveJsonOptions(ctx),
+        }
       )
+      ctx.response = await this.validateResponse(ctx, response)
       // Ensure ctx.rawResponse always points to ctx.response.rawResponse (the unread original Response).
       ctx.rawResponse = ctx.response.rawResponse
 
       this.finalizeContext(ctx, finalURLForRequest)
 
       return this.emit('afterResponse', ctx) as any
-    } catch (error) {
-      if (timer) clearTimeout(timer)
-      throw error
+    } finally {
+      clearTimeout(responseTimer)
     }
   }
 
@@ -429,6 +629,10 @@ export class Fexios extends CallableInstance<
 
     const fallback = globalThis.location?.href || 'http://localhost'
 
+    // 0. Fill path parameters, before placeholders are encoded by URL
+    c.urlTemplate = c.url.toString()
+    c.url = FexiosPathBuilder.makePath(c.urlTemplate, c.params)
+
     // 1. Resolve Base URL
     // Priority: ctx.baseURL > defaults.baseURL > fallback
     const effectiveBase = c.baseURL || this.baseConfigs.baseURL || fallback
@@ -507,6 +711,36 @@ export class Fexios extends CallableInstance<
     )
   }
 
+  /**
+   * Validate response data with `schema`, the validated output becomes `data`
+   */
+  private async validateResponse(
+    ctx: FexiosContext,
+    response: FexiosResponse<any>
+  ): Promise<FexiosResponse<any>> {
+    const schema = ctx.request?.schema
+    if (!schema) return response
+    const result = await validateStandardSchema(schema, response.data)
+    if (result.issues) {
+      throw new FexiosValidationError(
+        FexiosErrorCodes.RESPONSE_VALIDATION_ERROR,
+        result.issues,
+        response,
+        ctx
+      )
+    }
+    return new FexiosResponse(
+      response.rawResponse,
+      result.value,
+      response.responseType
+    )
+  }
+
+  /** JSON options of the request, merged into the ones of the instance */
+  private resolveJsonOptions(ctx: FexiosContext): FexiosJsonOptions {
+    return { ...this.baseConfigs.json, ...ctx.request?.json }
+  }
+
   private async resolveShortCircuit(
     ctx: any,
     responseOrRaw: FexiosResponse<any> | Response,
@@ -525,10 +759,19 @@ export class Fexios extends CallableInstance<
         responseOrRaw,
         (ctx as any).request?.responseType,
         (ctx as any).request?.shouldThrow ?? this.baseConfigs.shouldThrow,
-        (ctx as any).request?.timeout ?? this.baseConfigs.timeout ?? 60 * 1000
+        resolveTimeoutOptions(
+          this.baseConfigs.timeout,
+          (ctx as any).request?.timeout
+        ).body,
+        {
+          onProgress: (ctx as any).runtime?.onDownloadProgress,
+          codecs: this.codecs,
+          json: this.resolveJsonOptions(ctx),
+        }
       )
     }
 
+    response = await this.validateResponse(ctx, response)
     finalCtx.response = response
     // Keep the same invariant: rawResponse === response.rawResponse
     finalCtx.rawResponse = response.rawResponse
@@ -719,6 +962,8 @@ export class Fexios extends CallableInstance<
     const fexios = new Fexios(deepMerge(this.baseConfigs, configs))
     // clone hooks
     fexios.hooks = [...this.hooks]
+    // clone codecs
+    fexios.codecs = new FexiosCodecRegistry(this.codecs)
     // clone and reinstall plugins
     fexios._plugins = new Map(this._plugins)
     fexios._plugins.forEach(async (plugin) => {
@@ -766,15 +1011,44 @@ export class Fexios extends CallableInstance<
   readonly mergeQuery = this.mergeQueries
 }
 
+/**
+ * Abort reason to error, timeouts are aborted with a `TIMEOUT` error as reason
+ */
+function createAbortError(reason: unknown, ctx?: FexiosContext) {
+  if (reason instanceof FexiosError) return reason
+  return new FexiosError(FexiosErrorCodes.ABORTED, 'Request aborted', ctx, {
+    cause: reason,
+  })
+}
+
+/**
+ * Whether the Content-Type given by user matches `bodyType`,
+ * e.g. `application/vnd.api+json` for `json`
+ */
+function isSameBodyType(bodyType: FexiosBodyType, contentType: string) {
+  const mediaType = contentType.split(';')[0].trim().toLowerCase()
+  if (bodyType === 'json') {
+    return mediaType === 'application/json' || mediaType.endsWith('+json')
+  }
+  return mediaType === Fexios.BODY_CONTENT_TYPES[bodyType]
+}
+
 // 魔术技巧
 export interface Fexios {
+  <S extends StandardSchemaV1>(
+    url: string | URL,
+    options: FexiosRequestOptionsWithSchema<S>
+  ): FexiosRequestPromise<StandardSchemaV1.InferOutput<S>>
+  <S extends StandardSchemaV1>(
+    options: FexiosRequestOptionsWithSchema<S> & { url: string | URL }
+  ): FexiosRequestPromise<StandardSchemaV1.InferOutput<S>>
   <T = any>(
     url: string | URL,
     options?: Partial<FexiosRequestOptions>
-  ): Promise<FexiosFinalContext<T>>
+  ): FexiosRequestPromise<T>
   <T = any>(
     options: Partial<FexiosRequestOptions> & { url: string | URL }
-  ): Promise<FexiosFinalContext<T>>
+  ): FexiosRequestPromise<T>
 }
 
 // declare method shortcuts
@@ -18,6 +18,9 @@ export * from './utils/index.js'
 // Export main Fexios class
 export * from './fexios.js'
 
+// Export OpenAPI typed client
+export * from './openapi.js'
+
 // Support for direct import
 import { Fexios } from './fexios.js'
 export const createFexios = Fexios.create
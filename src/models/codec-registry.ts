@@ -0,0 +1,159 @@
+import type { AwaitAble, FexiosConfigs, FexiosContext } from '../types.js'
+import { FexiosError, FexiosErrorCodes } from './errors.js'
+import { FexiosJson } from './json.js'
+import { FexiosQueryBuilder } from './query-builder.js'
+
+/**
+ * Serialize a plain object / array request body
+ * @returns anything `fetch` accepts as body
+ */
+export type FexiosBodySerializer = (
+  body: any,
+  ctx: FexiosContext
+) => AwaitAble<BodyInit>
+
+export interface FexiosResponseParser<T = any> {
+  /** `responseType` of the decoded data */
+  responseType: Exclude<NonNullable<FexiosConfigs['responseType']>, 'stream'>
+  parse: (response: Response) => AwaitAble<T>
+}
+
+/**
+ * Registry of request body serializers and response parsers, keyed by content type.
+ *
+ * Content type patterns:
+ * - `application/msgpack` - exact match, parameters like `charset` are ignored
+ * - `text/*` - any subtype
+ * - `*\/*+json` - any type with the structured syntax suffix
+ *
+ * Exact patterns win over `type/*`, which wins over suffix patterns.
+ *
+ * @example
+ * ```ts
+ * fx.codecs
+ *   .registerSerializer('application/msgpack', (body) => encode(body))
+ *   .registerParser('application/msgpack', async (response) =>
+ *     decode(new Uint8Array(await response.arrayBuffer()))
+ *   )
+ * await fx.post('/items', { id: 1 }, {
+ *   headers: { 'content-type': 'application/msgpack' },
+ * })
+ * ```
+ */
+export class FexiosCodecRegistry {
+  private serializers = new Map<string, FexiosBodySerializer>()
+  private parsers = new Map<string, FexiosResponseParser>()
+
+  /**
+   * @param source registry to copy codecs from, otherwise the defaults are registered
+   */
+  constructor(source?: FexiosCodecRegistry) {
+    if (source) {
+      this.serializers = new Map(source.serializers)
+      this.parsers = new Map(source.parsers)
+    } else {
+      const json: FexiosBodySerializer = (body, ctx) =>
+        FexiosJson.stringify(body, {
+          ...ctx.app?.baseConfigs.json,
+          ...ctx.request.json,
+        })
+      this.registerSerializer('application/json', json)
+      this.registerSerializer('*/*+json', json)
+      this.registerSerializer('application/x-www-form-urlencoded', (body) =>
+        FexiosQueryBuilder.makeSearchParams(body)
+      )
+      this.registerSerializer('multipart/form-data', toFormData)
+      this.registerSerializer('text/plain', (body, ctx) => {
+        const text = String(body)
+        // e.g. `[object Object]`, the object has no meaningful `toString()`
+        if (/^\[object \w+\]$/.test(text)) {
+          throw new FexiosError(
+            FexiosErrorCodes.BODY_TRANSFORM_ERROR,
+            'Cannot send an object as text/plain, convert it to a string first',
+            ctx
+          )
+        }
+        return text
+      })
+    }
+  }
+
+  /**
+   * Serialize plain object / array bodies sent with a matching `Content-Type` header
+   */
+  registerSerializer(contentType: string, serializer: FexiosBodySerializer) {
+    this.serializers.set(normalizeContentType(contentType), serializer)
+    return this
+  }
+  unregisterSerializer(contentType: string) {
+    this.serializers.delete(normalizeContentType(contentType))
+    return this
+  }
+  findSerializer(contentType: string): FexiosBodySerializer | undefined {
+    return findByContentType(this.serializers, contentType)
+  }
+
+  /**
+   * Decode responses with a matching `Content-Type` header.
+   * Used when `responseType` is not set or equals the parser's `responseType`.
+   * @param parser a function is a parser with `responseType: 'json'`
+   */
+  registerParser(
+    contentType: string,
+    parser: FexiosResponseParser | FexiosResponseParser['parse']
+  ) {
+    this.parsers.set(
+      normalizeContentType(contentType),
+      typeof parser === 'function'
+        ? { responseType: 'json', parse: parser }
+        : parser
+    )
+    return this
+  }
+  unregisterParser(contentType: string) {
+    this.parsers.delete(normalizeContentType(contentType))
+    return this
+  }
+  findParser(contentType: string): FexiosResponseParser | undefined {
+    return findByContentType(this.parsers, contentType)
+  }
+}
+
+/**
+ * Top-level Blobs (or arrays of them) are appended as files,
+ * other values follow the nesting rules of `FexiosQueryBuilder.makeSearchParams`.
+ */
+function toFormData(body: Record<string, any>) {
+  const form = new FormData()
+  for (const [key, value] of Object.entries(body)) {
+    const values: unknown[] = Array.isArray(value) ? value : [value]
+    if (values.length && values.every((item) => item instanceof Blob)) {
+      values.forEach((blob) => form.append(key, blob as Blob))
+    } else {
+      FexiosQueryBuilder.makeSearchParams({ [key]: value }).forEach((v, k) =>
+        form.append(k, v)
+      )
+    }
+  }
+  return form
+}
+
+const normalizeContentType = (contentType: string) =>
+  contentType.split(';')[0].trim().toLowerCase()
+
+function findByContentType<T>(
+  map: Map<string, T>,
+  contentType: string
+): T | undefined {
+  const essence = normalizeContentType(contentType)
+  if (!essence) return undefined
+  const [type] = essence.split('/')
+  const suffix = essence.includes('+') ? essence.split('+').pop() : undefined
+  const candidates = [essence, `${type}/*`]
+  if (suffix) candidates.push(`*/*+${suffix}`)
+  for (const key of candidates) {
+    const found = map.get(key)
+    if (found) return found
+  }
+  return undefined
+}
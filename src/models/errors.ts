@@ -1,4 +1,9 @@
-import type { FexiosContext, IFexiosResponse } from '../types.js'
+import type {
+  FexiosContext,
+  FexiosTimeoutPhase,
+  IFexiosResponse,
+} from '../types.js'
+import type { StandardSchemaV1 } from './standard-schema.js'
 
 /**
  * Error codes for Fexios
@@ -7,15 +12,26 @@ export enum FexiosErrorCodes {
   BODY_USED = 'BODY_USED',
   NO_BODY_READER = 'NO_BODY_READER',
   TIMEOUT = 'TIMEOUT',
+  ABORTED = 'ABORTED',
   NETWORK_ERROR = 'NETWORK_ERROR',
   BODY_NOT_ALLOWED = 'BODY_NOT_ALLOWED',
+  MISSING_PATH_PARAM = 'MISSING_PATH_PARAM',
   HOOK_CONTEXT_CHANGED = 'HOOK_CONTEXT_CHANGED',
   ABORTED_BY_HOOK = 'ABORTED_BY_HOOK',
   INVALID_HOOK_CALLBACK = 'INVALID_HOOK_CALLBACK',
   UNEXPECTED_HOOK_RETURN = 'UNEXPECTED_HOOK_RETURN',
   UNSUPPORTED_RESPONSE_TYPE = 'UNSUPPORTED_RESPONSE_TYPE',
   FEATURE_MOVED_TO_PLUGIN = 'FEATURE_MOVED_TO_PLUGIN',
+  PLUGIN_REQUIRED = 'PLUGIN_REQUIRED',
   BODY_TRANSFORM_ERROR = 'BODY_TRANSFORM_ERROR',
+  RPC_ERROR = 'RPC_ERROR',
+  RPC_CONNECTION_CLOSED = 'RPC_CONNECTION_CLOSED',
+  QUEUE_TIMEOUT = 'QUEUE_TIMEOUT',
+  UPLOAD_PROTOCOL_ERROR = 'UPLOAD_PROTOCOL_ERROR',
+  DOWNLOAD_RESOURCE_CHANGED = 'DOWNLOAD_RESOURCE_CHANGED',
+  AUTH_REFRESH_FAILED = 'AUTH_REFRESH_FAILED',
+  REQUEST_VALIDATION_ERROR = 'REQUEST_VALIDATION_ERROR',
+  RESPONSE_VALIDATION_ERROR = 'RESPONSE_VALIDATION_ERROR',
 }
 
 /**
@@ -56,6 +72,65 @@ export class FexiosResponseError<T> extends FexiosError {
   }
 }
 
+/**
+ * Fexios timeout error, `phase` tells which timeout is exceeded
+ */
+export class FexiosTimeoutError extends FexiosError {
+  name = 'FexiosTimeoutError'
+  constructor(
+    readonly phase: FexiosTimeoutPhase,
+    readonly timeout: number,
+    context?: FexiosContext,
+    options?: ErrorOptions
+  ) {
+    super(
+      FexiosErrorCodes.TIMEOUT,
+      phase === 'body'
+        ? `Response body idle for more than ${timeout}ms`
+        : phase === 'total'
+          ? `Request exceeded total timeout of ${timeout}ms`
+          : `Request timed out after ${timeout}ms`,
+      context,
+      options
+    )
+  }
+}
+
+const formatIssue = (issue: StandardSchemaV1.Issue) => {
+  const path = issue.path
+    ?.map((p) => String(typeof p === 'object' ? p.key : p))
+    .join('.')
+  return path ? `${path}: ${issue.message}` : issue.message
+}
+
+/**
+ * Fexios validation error, thrown when `schema` / `bodySchema` rejects the data
+ */
+export class FexiosValidationError<T = any> extends FexiosError {
+  name = 'FexiosValidationError'
+  constructor(
+    code:
+      | FexiosErrorCodes.REQUEST_VALIDATION_ERROR
+      | FexiosErrorCodes.RESPONSE_VALIDATION_ERROR,
+    readonly issues: ReadonlyArray<StandardSchemaV1.Issue>,
+    /** The response failed to validate, only for `RESPONSE_VALIDATION_ERROR` */
+    readonly response?: IFexiosResponse<T>,
+    context?: FexiosContext,
+    options?: ErrorOptions
+  ) {
+    super(
+      code,
+      `${
+        code === FexiosErrorCodes.REQUEST_VALIDATION_ERROR
+          ? 'Request body'
+          : 'Response data'
+      } validation failed: ${issues.map(formatIssue).join('; ')}`,
+      context,
+      options
+    )
+  }
+}
+
 /**
  * Check if the error is a FexiosError that not caused by Response error
  * @deprecated Use FexiosError.is(e) instead
@@ -1,4 +1,9 @@
+export * from './codec-registry.js'
 export * from './errors.js'
 export * from './header-builder.js'
+export * from './json.js'
+export * from './path-builder.js'
 export * from './query-builder.js'
 export * from './response.js'
+export * from './stream-reader.js'
+export * from './standard-schema.js'
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { FexiosJson } from './json'
+
+describe('FexiosJson', () => {
+  const text =
+    '{"id":1234567890123456789,"safe":42,"neg":-9007199254740993,"float":1.5e3,"str":"12345678901234567890","at":"2024-01-02T03:04:05.678Z"}'
+
+  it('parse: keeps the default behavior', () => {
+    const data = FexiosJson.parse(text)
+    expect(data.id).to.be.a('number')
+    expect(data.at).to.be.a('string')
+  })
+
+  it('parse: revives unsafe integers', () => {
+    const asBigInt = FexiosJson.parse(text, { unsafeIntegers: 'bigint' })
+    expect(asBigInt.id).to.equal(1234567890123456789n)
+    expect(asBigInt.neg).to.equal(-9007199254740993n)
+    expect(asBigInt.safe).to.equal(42)
+    expect(asBigInt.float).to.equal(1500)
+    expect(asBigInt.str).to.equal('12345678901234567890')
+
+    const asString = FexiosJson.parse(
+      '[1234567890123456789, "a\\"1234567890123456789"]',
+      {
+        unsafeIntegers: 'string',
+      }
+    )
+    expect(asString).to.deep.equal([
+      '1234567890123456789',
+      'a"1234567890123456789',
+    ])
+  })
+
+  it('parse: revives dates before the custom reviver', () => {
+    const keys: string[] = []
+    const data = FexiosJson.parse(text, {
+      reviveDates: true,
+      reviver(key, value) {
+        if (value instanceof Date) keys.push(key)
+        return value
+      },
+    })
+    expect(data.at).to.be.instanceOf(Date)
+    expect(data.at.toISOString()).to.equal('2024-01-02T03:04:05.678Z')
+    expect(keys).to.deep.equal(['at'])
+  })
+
+  it('stringify: writes bigint as JSON numbers', () => {
+    expect(
+      FexiosJson.stringify({ id: 1234567890123456789n, list: [1n, 'x'] })
+    ).to.equal('{"id":1234567890123456789,"list":[1,"x"]}')
+    expect(
+      FexiosJson.stringify(
+        { secret: 'x', n: 1 },
+        { replacer: (key, value) => (key === 'secret' ? undefined : value) }
+      )
+    ).to.equal('{"n":1}')
+    // round trip
+    const data = FexiosJson.parse(
+      FexiosJson.stringify({ id: 2n ** 63n - 1n }),
+      { unsafeIntegers: 'bigint' }
+    )
+    expect(data.id).to.equal(2n ** 63n - 1n)
+  })
+})
@@ -0,0 +1,101 @@
+import type { FexiosJsonOptions } from '../types.js'
+
+/**
+ * Static utility class for JSON parsing and serializing with `FexiosJsonOptions`
+ *
+ * @example
+ * ```ts
+ * FexiosJson.parse('{"id":1234567890123456789}', { unsafeIntegers: 'bigint' })
+ * // => { id: 1234567890123456789n }
+ * FexiosJson.stringify({ id: 1234567890123456789n })
+ * // => '{"id":1234567890123456789}'
+ * ```
+ */
+export namespace FexiosJson {
+  // NUL is escaped in JSON text, so it never collides with real numbers
+  const INT_MARK = '\u0000fexios:int:'
+  const INT_MARK_REGEXP = /"\\u0000fexios:int:(-?\d+)"/g
+  const ISO_DATE_REGEXP =
+    /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/
+
+  /**
+   * Parse JSON text.
+   * Unsafe integers and dates are revived before `options.reviver` is called.
+   */
+  export function parse(text: string, options: FexiosJsonOptions = {}): any {
+    const { reviver, unsafeIntegers = 'number', reviveDates } = options
+    const lossless = unsafeIntegers !== 'number'
+    if (!reviver && !lossless && !reviveDates) return JSON.parse(text)
+
+    const source = lossless ? markUnsafeIntegers(text) : text
+    return JSON.parse(source, function (key, value) {
+      if (typeof value === 'string') {
+        if (lossless && value.startsWith(INT_MARK)) {
+          const digits = value.slice(INT_MARK.length)
+          value = unsafeIntegers === 'bigint' ? BigInt(digits) : digits
+        } else if (reviveDates && ISO_DATE_REGEXP.test(value)) {
+          const date = new Date(value)
+          if (!Number.isNaN(date.getTime())) value = date
+        }
+      }
+      return reviver ? reviver.call(this, key, value) : value
+    })
+  }
+
+  /**
+   * Serialize a value to JSON text.
+   * `bigint` values are written as plain JSON numbers instead of throwing.
+   */
+  export function stringify(
+    value: unknown,
+    options: FexiosJsonOptions = {}
+  ): string {
+    const { replacer } = options
+    let hasBigInt = false
+    const text = JSON.stringify(value, function (key, value) {
+      if (replacer) value = replacer.call(this, key, value)
+      if (typeof value === 'bigint') {
+        hasBigInt = true
+        return `${INT_MARK}${value}`
+      }
+      return value
+    })
+    return hasBigInt ? text.replace(INT_MARK_REGEXP, '$1') : text
+  }
+
+  /**
+   * Wrap integers beyond `Number.MAX_SAFE_INTEGER` in marked strings,
+   * so they reach the reviver without losing precision.
+   */
+  function markUnsafeIntegers(text: string) {
+    // the smallest unsafe integer has 16 digits
+    if (!/\d{16}/.test(text)) return text
+
+    let out = ''
+    let last = 0
+    let inString = false
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+      if (inString) {
+        if (char === '\\') i++
+        else if (char === '"') inString = false
+        continue
+      }
+      if (char === '"') {
+        inString = true
+        continue
+      }
+      if (char !== '-' && (char < '0' || char > '9')) continue
+
+      let end = i + 1
+      while (end < text.length && /[\d.eE+-]/.test(text[end])) end++
+      const token = text.slice(i, end)
+      if (/^-?\d{16,}$/.test(token) && !Number.isSafeInteger(Number(token))) {
+        out += `${text.slice(last, i)}"\\u0000fexios:int:${token}"`
+        last = end
+      }
+      i = end - 1
+    }
+    return last ? out + text.slice(last) : text
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import { FexiosPathBuilder } from './path-builder.js'
+import { FexiosErrorCodes } from './errors.js'
+import { Fexios } from '../fexios.js'
+
+const { makePath } = FexiosPathBuilder
+
+describe('FexiosPathBuilder', () => {
+  it('fills brace and colon placeholders with encoding', () => {
+    expect(
+      makePath('/users/{id}/posts/{postId}', { id: 1, postId: 'a/b c' })
+    ).toBe('/users/1/posts/a%2Fb%20c')
+    expect(makePath('/users/:id/posts/:postId', { id: 1, postId: '?' })).toBe(
+      '/users/1/posts/%3F'
+    )
+    expect(makePath('/files/{name}.json', { name: 'a b' })).toBe(
+      '/files/a%20b.json'
+    )
+    expect(
+      makePath('https://example.com:8080/users/:id?tab=1#top', { id: 2 })
+    ).toBe('https://example.com:8080/users/2?tab=1#top')
+  })
+
+  it('keeps colons that do not start a segment', () => {
+    expect(makePath('/v1/tasks/:id:run', { id: 'x' })).toBe('/v1/tasks/x:run')
+  })
+
+  it('keeps the template as is without params', () => {
+    expect(makePath('/users/{id}')).toBe('/users/{id}')
+    expect(makePath('/users/:id?')).toBe('/users/:id?')
+    expect(makePath('https://example.com/a#/:section')).toBe(
+      'https://example.com/a#/:section'
+    )
+  })
+
+  it('fills the pathname only', () => {
+    expect(makePath('https://api.example.com/search?tpl={name}&q=:q', {})).toBe(
+      'https://api.example.com/search?tpl={name}&q=:q'
+    )
+    expect(makePath('/users/{id}?tpl={id}#/:id', { id: 1 })).toBe(
+      '/users/1?tpl={id}#/:id'
+    )
+    expect(makePath('/users/:id?#/:section', {})).toBe('/users#/:section')
+    expect(makePath('//user:name@example.com/:id', { id: 1 })).toBe(
+      '//user:name@example.com/1'
+    )
+  })
+
+  it('throws MISSING_PATH_PARAM for missing required params', () => {
+    expect(() => makePath('/users/{id}', {})).toThrow(
+      expect.objectContaining({ code: FexiosErrorCodes.MISSING_PATH_PARAM })
+    )
+    expect(() => makePath('/users/:id', { id: '' })).toThrow(/"id"/)
+    expect(() => makePath('/files/:path+', { path: [] })).toThrow(/"path"/)
+  })
+
+  it('removes empty optional segments', () => {
+    expect(makePath('/users/:id?', {})).toBe('/users')
+    expect(makePath('/users/{id?}/posts', {})).toBe('/users/posts')
+    expect(makePath('/users/:id?/posts', { id: 1 })).toBe('/users/1/posts')
+    expect(makePath('/users/:id?', { id: 1 })).toBe('/users/1')
+  })
+
+  it('fills wildcard segments', () => {
+    expect(makePath('/files/:path*', { path: 'a/b c' })).toBe('/files/a/b%20c')
+    expect(makePath('/files/{path+}', { path: ['a/b', 'c'] })).toBe(
+      '/files/a%2Fb/c'
+    )
+    expect(makePath('/files/:path*', {})).toBe('/files')
+  })
+
+  it('keeps placeholders in the query and hash of requests', async () => {
+    const fx = new Fexios({
+      fetch: async (req) => Response.json({ url: (req as Request).url }),
+    })
+    const ctx = await fx.get('https://api.example.com/search?tpl={name}')
+    expect(new URL(ctx.data.url).searchParams.get('tpl')).toBe('{name}')
+    const { request } = await fx.get('https://api.example.com/a#/:section')
+    expect(new URL(request.url).hash).toBe('#/:section')
+  })
+
+  it('keeps the template on the request context', async () => {
+    const fx = new Fexios({
+      baseURL: 'https://example.com/api/',
+      fetch: async (req) => Response.json({ url: (req as Request).url }),
+    })
+    let urlTemplate: string | undefined
+    fx.on('beforeRequest', (ctx) => {
+      urlTemplate = ctx.request.urlTemplate
+    })
+
+    const ctx = await fx.get('users/:id/posts', {
+      params: { id: 'a b' },
+      query: { page: 1 },
+    })
+    expect(ctx.data.url).toBe(
+      'https://example.com/api/users/a%20b/posts?page=1'
+    )
+    expect(urlTemplate).toBe('users/:id/posts')
+    expect(ctx.request.urlTemplate).toBe('users/:id/posts')
+  })
+})
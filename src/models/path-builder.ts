@@ -0,0 +1,97 @@
+import { FexiosError, FexiosErrorCodes } from './errors.js'
+
+/**
+ * Static utility class for building URL paths from templates
+ *
+ * Placeholders are filled in the pathname only, the origin, query and hash are kept as is.
+ *
+ * Placeholders:
+ * - `{name}` / `:name` - required, `:name` must start a path segment
+ * - `{name?}` / `:name?` - optional, the segment is removed if no value
+ * - `{name*}` / `:name*` - wildcard, zero or more segments
+ * - `{name+}` / `:name+` - wildcard, one or more segments
+ *
+ * @example
+ * makePath('/users/{id}', { id: 'a/b' }) // /users/a%2Fb
+ * makePath('/users/:id/posts/:postId?', { id: 1 }) // /users/1/posts
+ * makePath('/files/:path*', { path: 'a/b c' }) // /files/a/b%20c
+ * makePath('/files/:path*', { path: ['a/b', 'c'] }) // /files/a%2Fb/c
+ */
+export namespace FexiosPathBuilder {
+  export type PathParamValue = string | number | boolean
+  export type PathParams = Record<
+    string,
+    PathParamValue | PathParamValue[] | null | undefined
+  >
+
+  const PLACEHOLDER_REGEXP =
+    /(\/?)(?:\{([A-Za-z_]\w*)([?*+])?\}|:([A-Za-z_]\w*)([*+]|\?(?=[/#]|$))?)/g
+  // `scheme://authority` or `//authority`
+  const ORIGIN_REGEXP = /^(?:[A-Za-z][\w+.-]*:)?\/\/[^/?#]*/
+  // `?` starts the query unless it is the modifier of `:name?`
+  const PATHNAME_REGEXP = /^(?:\{[^{}]*\}|:[A-Za-z_]\w*\?(?=[/#]|$)|[^?#])*/
+
+  /**
+   * Split a URL into origin, pathname and the rest (query and hash)
+   * @example
+   * splitURL('https://a.com/users/:id?tpl={x}') // ['https://a.com', '/users/:id', '?tpl={x}']
+   */
+  const splitURL = (url: string): [string, string, string] => {
+    const origin = url.match(ORIGIN_REGEXP)?.[0] ?? ''
+    const rest = url.slice(origin.length)
+    const pathname = rest.match(PATHNAME_REGEXP)![0]
+    return [origin, pathname, rest.slice(pathname.length)]
+  }
+
+  /**
+   * Fill placeholders of a path template, values are encoded with `encodeURIComponent`.
+   * The template is returned as is if `params` is not given.
+   *
+   * @throws {FexiosError} `MISSING_PATH_PARAM` if a required parameter is missing
+   */
+  export const makePath = (template: string, params?: PathParams): string => {
+    if (!params) return template
+    const [origin, pathname, rest] = splitURL(template)
+    const filled = pathname.replace(
+      PLACEHOLDER_REGEXP,
+      (
+        match,
+        slash: string,
+        braceName?: string,
+        braceModifier?: string,
+        colonName?: string,
+        colonModifier?: string
+      ) => {
+        // not a segment, e.g. `/v1/tasks/abc:run`
+        if (colonName && !slash) return match
+
+        const name = (braceName ?? colonName)!
+        const modifier = braceModifier ?? colonModifier
+        const value = params[name]
+        const isEmpty =
+          value === undefined ||
+          value === null ||
+          value === '' ||
+          (Array.isArray(value) && value.length === 0)
+
+        if (isEmpty) {
+          if (modifier === '?' || modifier === '*') return ''
+          throw new FexiosError(
+            FexiosErrorCodes.MISSING_PATH_PARAM,
+            `Missing path parameter "${name}" for "${template}"`
+          )
+        }
+        if (modifier === '*' || modifier === '+') {
+          const segments = Array.isArray(value)
+            ? value
+            : String(value).split('/')
+          return (
+            slash + segments.map((s) => encodeURIComponent(String(s))).join('/')
+          )
+        }
+        return slash + encodeURIComponent(String(value))
+      }
+    )
+    return origin + filled + rest
+  }
+}
@@ -1,8 +1,19 @@
 import type {
   FexiosConfigs,
+  FexiosJsonOptions,
+  FexiosProgressEvent,
   IFexiosResponse as IFexiosResponse,
 } from '../types.js'
-import { FexiosError, FexiosErrorCodes, FexiosResponseError } from './errors.js'
+import {
+  FexiosError,
+  FexiosErrorCodes,
+  FexiosResponseError,
+  FexiosTimeoutError,
+} from './errors.js'
+import { createProgressStream, getContentLength } from '../utils/progress.js'
+import { createTimeoutStream } from '../utils/timeout.js'
+import type { FexiosCodecRegistry } from './codec-registry.js'
+import { FexiosJson } from './json.js'
 
 /**
  * Fexios response wrapper class
@@ -64,20 +75,39 @@ const guessFexiosResponseType = (
 /**
  * Resolve response body based on content type and expected type
  * @param expectedType `undefined` means auto-detect based on content-type header. And also try JSON.stringify if it's a string.
+ * @param timeout Max idle time (ms) between two body chunks, `0` means no timeout
  */
 export async function createFexiosResponse<T = any>(
   rawResponse: Response,
   expectedType?: FexiosConfigs['responseType'],
   shouldThrow?: (response: FexiosResponse<any>) => boolean | void,
-  timeout?: number
+  timeout?: number,
+  options: {
+    /** Report download progress while decoding the body */
+    onProgress?: (event: FexiosProgressEvent) => void
+    /** Stop reading the body when aborted, with `signal.reason` as error */
+    signal?: AbortSignal
+    /** Called once the body is done, errored or cancelled in stream mode */
+    onBodySettled?: () => void
+    /** Registered parsers are tried before the built-in content-type table */
+    codecs?: FexiosCodecRegistry
+    /** Options to parse JSON, also used when text is sniffed as JSON */
+    json?: FexiosJsonOptions
+  } = {}
 ): Promise<FexiosResponse<T>> {
-  /**
-   * IMPORTANT:
-   * - We want to expose the original `rawResponse` to user as an unread Response.
-   * - But Fexios still needs to decode body to produce `data`.
-   * So we read from a clone and keep the original response unconsumed.
-   */
-  const decodeResponse = rawResponse.clone()
+  const watchBody = (
+    stream: ReadableStream<Uint8Array>,
+    onSettled?: () => void
+  ) =>
+    timeout || options.signal || onSettled
+      ? createTimeoutStream(stream, {
+          idle: timeout,
+          signal: options.signal,
+          onIdle: () => new FexiosTimeoutError('body', timeout!),
+          onSettled,
+        })
+      : stream
+
   const contentType =
     rawResponse.headers.get('content-type')?.toLowerCase() ?? ''
 
@@ -86,12 +116,12 @@ export async function createFexiosResponse<T = any>(
   const connection = rawResponse.headers.get('connection')?.toLowerCase()
 
   // ws/sse are removed from core (moved to plugins). Still detect legacy usage & guide users.
-  if ((expectedType as any) === 'ws' || (expectedType as any) === 'stream') {
+  if ((expectedType as any) === 'ws') {
     throw new FexiosError(
       FexiosErrorCodes.FEATURE_MOVED_TO_PLUGIN,
       `responseType "${String(
         expectedType
-      )}" has been moved to plugins. Use "fexios/plugins" (fx.plugin(pluginWebSocket) / fx.plugin(pluginSSE)) and call fx.ws()/fx.sse() instead.`
+      )}" has been moved to plugins. Use "fexios/plugins" (fx.plugin(pluginWebSocket)) and call fx.ws() instead.`
     )
   }
   if (upgrade === 'websocket' && connection === 'upgrade') {
@@ -100,22 +130,107 @@ export async function createFexiosResponse<T = any>(
       `WebSocket upgrade response detected. WebSocket support has been moved to plugins. Please use "fexios/plugins" and call fx.ws().`
     )
   }
-  if (contentType.includes('text/event-stream')) {
+  // Explicit stream mode may consume event-stream by itself
+  if (expectedType !== 'stream' && contentType.includes('text/event-stream')) {
     throw new FexiosError(
       FexiosErrorCodes.FEATURE_MOVED_TO_PLUGIN,
       `SSE (text/event-stream) response detected. SSE support has been moved to plugins. Please use "fexios/plugins" and call fx.sse().`
     )
   }
 
+  const registeredParser = options.codecs?.findParser(contentType)
+  const parser =
+    registeredParser &&
+    (!expectedType || expectedType === registeredParser.responseType)
+      ? registeredParser
+      : undefined
+
   let resolvedType: IFexiosResponse['responseType'] =
-    expectedType ?? guessFexiosResponseType(contentType) ?? 'text'
+    parser?.responseType ??
+    expectedType ??
+    guessFexiosResponseType(contentType) ??
+    'text'
 
   // Note: core no longer auto-detects websocket/sse here.
 
+  if (resolvedType === 'stream') {
+    // Do NOT clone in stream mode, otherwise the unread branch of the tee
+    // would buffer the whole body in memory.
+    // `data` is the body of `rawResponse` itself, reading it marks `rawResponse` as used.
+    let stream: ReadableStream<Uint8Array> =
+      rawResponse.body ??
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.close()
+        },
+      })
+    if (typeof stream.getReader !== 'function') {
+      throw new FexiosError(
+        FexiosErrorCodes.NO_BODY_READER,
+        'Response body is not readable as a stream'
+      )
+    }
+    if (options.onProgress) {
+      stream = createProgressStream(
+        stream,
+        getContentLength(rawResponse.headers),
+        options.onProgress
+      )
+    }
+    stream = watchBody(stream, options.onBodySettled)
+    try {
+      return finalizeFexiosResponse(
+        new FexiosResponse<T>(rawResponse as any, stream as T, resolvedType),
+        shouldThrow
+      )
+    } catch (error) {
+      // nobody reads the body of a rejected response, release the connection
+      stream.cancel(error).catch(() => {})
+      throw error
+    }
+  }
+
+  /**
+   * IMPORTANT:
+   * - We want to expose the original `rawResponse` to user as an unread Response.
+   * - But Fexios still needs to decode body to produce `data`.
+   * So we read from a clone and keep the original response unconsumed.
+   */
+  let decodeResponse = rawResponse.clone()
+
+  const canWatchBody = !!(timeout || options.signal)
+  if ((options.onProgress || canWatchBody) && decodeResponse.body) {
+    if (typeof decodeResponse.body.getReader !== 'function') {
+      if (options.onProgress) {
+        throw new FexiosError(
+          FexiosErrorCodes.NO_BODY_READER,
+          'Response body is not readable as a stream, cannot report progress'
+        )
+      }
+    } else {
+      // Pipe the cloned body through a counter and the timeout watcher, then decode from it as usual
+      let stream: ReadableStream<Uint8Array> = decodeResponse.body
+      if (options.onProgress) {
+        stream = createProgressStream(
+          stream,
+          getContentLength(rawResponse.headers),
+          options.onProgress
+        )
+      }
+      decodeResponse = new Response(watchBody(stream), {
+        status: decodeResponse.status,
+        statusText: decodeResponse.statusText,
+        headers: decodeResponse.headers,
+      })
+    }
+  }
+
   let data: any
 
   try {
-    if (resolvedType === 'form') {
+    if (parser) {
+      data = await parser.parse(decodeResponse)
+    } else if (resolvedType === 'form') {
       // Resolve form data by fetch itself (no progress support)
       data = await decodeResponse.formData()
     } else if (resolvedType === 'arrayBuffer') {
@@ -124,7 +239,7 @@ export async function createFexiosResponse<T = any>(
       data = await decodeResponse.blob()
     } else if (resolvedType === 'json') {
       const text = await decodeResponse.text()
-      data = text ? JSON.parse(text) : null
+      data = text ? FexiosJson.parse(text, options.json) : null
     } else if (resolvedType === 'text') {
       const text = await decodeResponse.text()
       if (!expectedType) {
@@ -134,7 +249,7 @@ export async function createFexiosResponse<T = any>(
           (trimmed.startsWith('[') && trimmed.endsWith(']'))
         ) {
           try {
-            data = JSON.parse(trimmed)
+            data = FexiosJson.parse(trimmed, options.json)
             resolvedType = 'json'
           } catch {
             data = text
@@ -151,6 +266,8 @@ export async function createFexiosResponse<T = any>(
       data = new Uint8Array(ab)
     }
   } catch (e) {
+    // timed out or aborted while reading, the body is gone
+    if (e instanceof FexiosTimeoutError || options.signal?.aborted) throw e
     // if parsing fails, try to read as plain text as last resort
     if (!(e instanceof Error)) throw e
     try {
@@ -174,10 +291,16 @@ export async function createFexiosResponse<T = any>(
     resolvedType
   )
 
+  return finalizeFexiosResponse(response, shouldThrow)
+}
+
+function finalizeFexiosResponse<T>(
+  response: FexiosResponse<T>,
+  shouldThrow?: (response: FexiosResponse<any>) => boolean | void
+): FexiosResponse<T> {
   const decision = shouldThrow?.(response)
   if (typeof decision === 'boolean' ? decision : !response.ok) {
     throw new FexiosResponseError(response.statusText, response)
   }
-
   return response
 }
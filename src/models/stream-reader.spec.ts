@@ -0,0 +1,77 @@
+// FexiosStreamReader.spec.ts
+import { describe, it, expect } from 'vitest'
+import { FexiosStreamReader } from './stream-reader.js'
+
+const { bytes, text, lines, ndjson } = FexiosStreamReader
+
+const streamOf = (...chunks: (string | Uint8Array)[]) => {
+  const encoder = new TextEncoder()
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(
+          typeof chunk === 'string' ? encoder.encode(chunk) : chunk
+        )
+      }
+      controller.close()
+    },
+  })
+}
+
+const collect = async <T>(it: AsyncIterable<T>) => {
+  const out: T[] = []
+  for await (const item of it) out.push(item)
+  return out
+}
+
+describe('FexiosStreamReader', () => {
+  it('bytes: yields raw chunks', async () => {
+    const chunks = await collect(bytes(streamOf('a', 'bc')))
+    expect(chunks.map((c) => c.byteLength)).toEqual([1, 2])
+  })
+
+  it('bytes: cancels the stream when loop breaks early', async () => {
+    let cancelled = false
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(new Uint8Array([1]))
+      },
+      cancel() {
+        cancelled = true
+      },
+    })
+    for await (const _ of bytes(stream)) break
+    expect(cancelled).toBe(true)
+  })
+
+  it('text: decodes multi-byte characters split across chunks', async () => {
+    const encoded = new TextEncoder().encode('你好')
+    const chunks = await collect(
+      text(streamOf(encoded.slice(0, 2), encoded.slice(2)))
+    )
+    expect(chunks.join('')).toBe('你好')
+  })
+
+  it('lines: splits on CR alone, also across chunks', async () => {
+    const result = await collect(lines(streamOf('a\rb\r', '\nc\r', 'd\r')))
+    expect(result).toEqual(['a', 'b', 'c', 'd'])
+  })
+
+  it('lines: splits on LF and CRLF across chunks', async () => {
+    const result = await collect(lines(streamOf('a\r\nb', 'c\n', '\nd')))
+    expect(result).toEqual(['a', 'bc', '', 'd'])
+  })
+
+  it('ndjson: parses records and skips blank lines', async () => {
+    const result = await collect(
+      ndjson<{ id: number }>(streamOf('{"id":1}\n\n{"id"', ':2}\n'))
+    )
+    expect(result).toEqual([{ id: 1 }, { id: 2 }])
+  })
+
+  it('accepts Response as source', async () => {
+    const result = await collect(lines(new Response('x\ny')))
+    expect(result).toEqual(['x', 'y'])
+    expect(await collect(lines(new Response(null)))).toEqual([])
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * Static utility class for consuming streaming response bodies
+ * (`responseType: 'stream'`) as async iterables.
+ *
+ * @example
+ * ```ts
+ * const { data } = await fx.get('/export.ndjson', { responseType: 'stream' })
+ * for await (const record of FexiosStreamReader.ndjson<Row>(data)) {
+ *   // ...
+ * }
+ * ```
+ */
+export namespace FexiosStreamReader {
+  export type Source = ReadableStream<Uint8Array> | Response
+
+  const toStream = (source: Source): ReadableStream<Uint8Array> => {
+    const stream = source instanceof Response ? source.body : source
+    if (!stream) {
+      return new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.close()
+        },
+      })
+    }
+    return stream
+  }
+
+  /**
+   * Iterate raw byte chunks.
+   * Breaking out of the loop cancels the underlying stream.
+   */
+  export async function* bytes(
+    source: Source
+  ): AsyncGenerator<Uint8Array, void, undefined> {
+    const reader = toStream(source).getReader()
+    let done = false
+    try {
+      while (true) {
+        const result = await reader.read()
+        if (result.done) {
+          done = true
+          return
+        }
+        yield result.value
+      }
+    } finally {
+      if (!done) {
+        await reader.cancel().catch(() => {})
+      }
+      reader.releaseLock()
+    }
+  }
+
+  /**
+   * Iterate decoded text chunks.
+   * Multi-byte characters split across chunks are handled correctly.
+   */
+  export async function* text(
+    source: Source,
+    encoding = 'utf-8'
+  ): AsyncGenerator<string, void, undefined> {
+    const decoder = new TextDecoder(encoding)
+    for await (const chunk of bytes(source)) {
+      const str = decoder.decode(chunk, { stream: true })
+      if (str) yield str
+    }
+    const rest = decoder.decode()
+    if (rest) yield rest
+  }
+
+  const LINE_BREAK = /\r\n|\r|\n/
+
+  /**
+   * Iterate lines, split on `\r\n`, `\r` or `\n` (as `text/event-stream` does).
+   * The last line is yielded even if it has no line break.
+   */
+  export async function* lines(
+    source: Source,
+    encoding = 'utf-8'
+  ): AsyncGenerator<string, void, undefined> {
+    let buffer = ''
+    // the previous chunk ended with `\r`, a leading `\n` completes that `\r\n`
+    let endedWithCR = false
+    for await (const chunk of text(source, encoding)) {
+      buffer += endedWithCR && chunk[0] === '\n' ? chunk.slice(1) : chunk
+      endedWithCR = false
+      let match: RegExpExecArray | null
+      while ((match = LINE_BREAK.exec(buffer))) {
+        yield buffer.slice(0, match.index)
+        buffer = buffer.slice(match.index + match[0].length)
+        endedWithCR = match[0] === '\r' && !buffer
+      }
+    }
+    if (buffer) yield buffer
+  }
+
+  /**
+   * Iterate NDJSON (JSON Lines) records, blank lines are skipped.
+   * @throws SyntaxError if a line is not valid JSON
+   */
+  export async function* ndjson<T = unknown>(
+    source: Source,
+    reviver?: (this: any, key: string, value: any) => any
+  ): AsyncGenerator<T, void, undefined> {
+    for await (const line of lines(source)) {
+      if (!line.trim()) continue
+      yield JSON.parse(line, reviver) as T
+    }
+  }
+}
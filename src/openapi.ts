@@ -0,0 +1,192 @@
+import { Fexios } from './fexios.js'
+import type {
+  FexiosConfigs,
+  FexiosFinalContext,
+  FexiosRequestOptions,
+  FexiosRequestPromise,
+} from './types.js'
+import type { FexiosResponse } from './models/response.js'
+
+export type FexiosOpenAPIMethod =
+  'get' | 'put' | 'post' | 'delete' | 'options' | 'head' | 'patch' | 'trace'
+
+/** Paths that define the method */
+export type FexiosOpenAPIPathsWithMethod<
+  Paths,
+  M extends FexiosOpenAPIMethod,
+> = {
+  [P in keyof Paths]: Paths[P] extends { [K in M]: object } ? P : never
+}[keyof Paths] &
+  string
+
+/** Operation object of a path and method */
+export type FexiosOpenAPIOperation<
+  Paths,
+  P extends keyof Paths,
+  M extends FexiosOpenAPIMethod,
+> = Paths[P] extends { [K in M]: infer Op } ? Op : never
+
+type OperationParameters<Op, In extends string> = Op extends {
+  parameters: { [K in In]?: infer X }
+}
+  ? X
+  : never
+
+type IsEmpty<T> = [T] extends [never]
+  ? true
+  : [T] extends [undefined]
+    ? true
+    : keyof NonNullable<T> extends never
+      ? true
+      : false
+
+// required if it has required keys
+type Field<Name extends string, T> =
+  IsEmpty<T> extends true
+    ? { [K in Name]?: never }
+    : {} extends NonNullable<T>
+      ? { [K in Name]?: NonNullable<T> }
+      : { [K in Name]: NonNullable<T> }
+
+/** `params` and `query` options of an operation */
+export type FexiosOpenAPIRequestOptions<Op> = Omit<
+  Partial<FexiosRequestOptions>,
+  'params' | 'query' | 'body' | 'method' | 'url'
+> &
+  Field<'params', OperationParameters<Op, 'path'>> &
+  Field<'query', OperationParameters<Op, 'query'>>
+
+/** Request body of an operation, union of all content types */
+export type FexiosOpenAPIRequestBody<Op> = Op extends {
+  requestBody?: { content: infer C }
+}
+  ? C[keyof C]
+  : never
+
+type IsBodyRequired<Op> = Op extends { requestBody: { content: any } }
+  ? true
+  : false
+
+type ResponseContent<R> = R extends { content: infer C }
+  ? [C] extends [never]
+    ? unknown
+    : C[keyof C]
+  : unknown
+
+type SuccessStatus =
+  200 | 201 | 202 | 203 | 204 | 205 | 206 | 207 | 208 | 226 | '2XX'
+
+type StatusCode<S> = S extends number
+  ? S
+  : S extends `${infer N extends number}`
+    ? N
+    : number
+
+/**
+ * Response data of an operation by status code
+ * @example
+ * FexiosOpenAPIResponseData<Op, 404> // data of the `404` response, e.g. for `FexiosResponseError`
+ */
+export type FexiosOpenAPIResponseData<
+  Op,
+  S extends keyof Responses<Op> = Extract<keyof Responses<Op>, SuccessStatus>,
+> = ResponseContent<Responses<Op>[S]>
+
+type Responses<Op> = Op extends { responses: infer R } ? R : never
+
+/** `ctx.response` narrowed by `status` */
+export type FexiosOpenAPIResponse<Op> = {
+  [S in Extract<keyof Responses<Op>, SuccessStatus>]: FexiosResponse<
+    ResponseContent<Responses<Op>[S]>
+  > & { readonly status: StatusCode<S> }
+}[Extract<keyof Responses<Op>, SuccessStatus>]
+
+export type FexiosOpenAPIFinalContext<Op> = Omit<
+  FexiosFinalContext<FexiosOpenAPIResponseData<Op>>,
+  'response'
+> & {
+  response: FexiosOpenAPIResponse<Op>
+}
+
+export type FexiosOpenAPIRequestPromise<Op> = Promise<
+  FexiosOpenAPIFinalContext<Op>
+> &
+  Pick<FexiosRequestPromise, 'abort'>
+
+type OptionsArgs<Op> =
+  {} extends FexiosOpenAPIRequestOptions<Op>
+    ? [options?: FexiosOpenAPIRequestOptions<Op>]
+    : [options: FexiosOpenAPIRequestOptions<Op>]
+
+type BodyArgs<Op> =
+  {} extends FexiosOpenAPIRequestOptions<Op>
+    ? IsBodyRequired<Op> extends true
+      ? [body: FexiosOpenAPIRequestBody<Op>, ...OptionsArgs<Op>]
+      : [body?: FexiosOpenAPIRequestBody<Op>, ...OptionsArgs<Op>]
+    : IsBodyRequired<Op> extends true
+      ? [body: FexiosOpenAPIRequestBody<Op>, ...OptionsArgs<Op>]
+      : [body: FexiosOpenAPIRequestBody<Op> | undefined, ...OptionsArgs<Op>]
+
+type ShortcutWithoutBody<Paths, M extends FexiosOpenAPIMethod> = <
+  P extends FexiosOpenAPIPathsWithMethod<Paths, M>,
+>(
+  url: P,
+  ...args: OptionsArgs<FexiosOpenAPIOperation<Paths, P, M>>
+) => FexiosOpenAPIRequestPromise<FexiosOpenAPIOperation<Paths, P, M>>
+
+type ShortcutWithBody<Paths, M extends FexiosOpenAPIMethod> = <
+  P extends FexiosOpenAPIPathsWithMethod<Paths, M>,
+>(
+  url: P,
+  ...args: BodyArgs<FexiosOpenAPIOperation<Paths, P, M>>
+) => FexiosOpenAPIRequestPromise<FexiosOpenAPIOperation<Paths, P, M>>
+
+/**
+ * Fexios instance typed by OpenAPI `paths`.
+ * It is the same instance at runtime, so hooks and plugins work as usual.
+ */
+export type FexiosOpenAPIClient<Paths> = Omit<
+  Fexios,
+  FexiosOpenAPIMethod | 'request'
+> & {
+  get: ShortcutWithoutBody<Paths, 'get'>
+  head: ShortcutWithoutBody<Paths, 'head'>
+  options: ShortcutWithoutBody<Paths, 'options'>
+  trace: ShortcutWithoutBody<Paths, 'trace'>
+  delete: ShortcutWithBody<Paths, 'delete'>
+  post: ShortcutWithBody<Paths, 'post'>
+  put: ShortcutWithBody<Paths, 'put'>
+  patch: ShortcutWithBody<Paths, 'patch'>
+  request<
+    M extends FexiosOpenAPIMethod,
+    P extends FexiosOpenAPIPathsWithMethod<Paths, M>,
+  >(
+    url: P,
+    options: FexiosOpenAPIRequestOptions<
+      FexiosOpenAPIOperation<Paths, P, M>
+    > & {
+      method: M | Uppercase<M>
+      body?: FexiosOpenAPIRequestBody<FexiosOpenAPIOperation<Paths, P, M>>
+    }
+  ): FexiosOpenAPIRequestPromise<FexiosOpenAPIOperation<Paths, P, M>>
+}
+
+/**
+ * Create a Fexios client typed by OpenAPI `paths` interfaces generated by `openapi-typescript`,
+ * path params, query, body and response data are checked at compile time.
+ * @param configs base configs, or an existing Fexios instance to type
+ *
+ * @example
+ * ```ts
+ * import type { paths } from './api.d.ts' // npx openapi-typescript api.yaml -o api.d.ts
+ *
+ * const api = createTypedFexios<paths>({ baseURL: 'https://api.example.com' })
+ * const { data } = await api.get('/users/{id}', { params: { id: 1 } })
+ * ```
+ */
+export function createTypedFexios<Paths>(
+  configs: Partial<FexiosConfigs> | Fexios = {}
+): FexiosOpenAPIClient<Paths> {
+  const fx = configs instanceof Fexios ? configs : new Fexios(configs)
+  return fx as unknown as FexiosOpenAPIClient<Paths>
+}
@@ -0,0 +1,199 @@
+import { describe, expect, it, vi } from 'vitest'
+import { Fexios, FexiosErrorCodes } from '@/index.js'
+import { MOCK_FETCH_BASE_URL } from '@/../test/mockFetch.js'
+import { pluginAuth } from './index.js'
+
+// accepts `Bearer ${valid}` only
+const createAuthServer = () => {
+  const server = {
+    valid: 'token-2',
+    requests: [] as Request[],
+    fetch: async (req: Request | string | URL) => {
+      const request = req as Request
+      server.requests.push(request)
+      if (request.headers.get('authorization') !== `Bearer ${server.valid}`) {
+        return new Response('unauthorized', { status: 401 })
+      }
+      return Response.json({ body: await request.text() })
+    },
+  }
+  return server
+}
+
+describe('Auth Plugin', () => {
+  it('should refresh once and replay concurrent requests', async () => {
+    const server = createAuthServer()
+    let token = 'token-1'
+    let refreshes = 0
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: server.fetch,
+      auth: {
+        getToken: () => token,
+        refreshToken: async () => {
+          refreshes++
+          await new Promise((r) => setTimeout(r, 10))
+          return (token = 'token-2')
+        },
+      },
+    }).plugin(pluginAuth)
+    let hooked = 0
+    fx.on('afterResponse', (ctx) => {
+      hooked++
+      return ctx
+    })
+
+    const results = await Promise.all([
+      fx.get('/a'),
+      fx.post('/b', { foo: 'bar' }),
+      fx.put('/c', 'text'),
+    ])
+
+    expect(refreshes).toBe(1)
+    expect(hooked).toBe(3)
+    expect(results.map((r) => r.data.body)).toEqual([
+      '',
+      '{"foo":"bar"}',
+      'text',
+    ])
+    expect(results.every((r) => r.runtime.auth?.refreshed)).toBe(true)
+    expect(results[1].rawRequest.headers.get('authorization')).toBe(
+      'Bearer token-2'
+    )
+    expect(server.requests).toHaveLength(6)
+
+    // requests after the refresh use the new token
+    const res = await fx.get('/d')
+    expect(res.runtime.auth).toEqual({ token: 'token-2', refreshed: false })
+    expect(refreshes).toBe(1)
+  })
+
+  it('should replay requests started during a refresh', async () => {
+    const server = createAuthServer()
+    let token = 'token-1'
+    let refreshes = 0
+    const fx: Fexios = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async (req) => {
+        const request = req as Request
+        if (new URL(request.url).pathname !== '/refresh') {
+          return server.fetch(request)
+        }
+        server.requests.push(request)
+        await new Promise((r) => setTimeout(r, 20))
+        return Response.json({ token: 'token-2' })
+      },
+      auth: {
+        getToken: () => token,
+        // the refresh request itself is sent without token and never replayed
+        refreshToken: async () => {
+          refreshes++
+          const { data } = await fx.post('/refresh', undefined, { auth: false })
+          return (token = data.token)
+        },
+      },
+    }).plugin(pluginAuth)
+
+    const first = fx.get('/a')
+    await new Promise((r) => setTimeout(r, 5))
+    // started while the refresh is pending, fails with the old token
+    const second = await fx.post('/b', 'text')
+    expect((await first).runtime.auth).toEqual({
+      token: 'token-2',
+      refreshed: true,
+    })
+    expect(second.runtime.auth).toEqual({ token: 'token-2', refreshed: true })
+    expect(second.data.body).toBe('text')
+    expect(refreshes).toBe(1)
+    expect(
+      server.requests.map((r) => [
+        new URL(r.url).pathname,
+        r.headers.get('authorization'),
+      ])
+    ).toEqual([
+      ['/a', 'Bearer token-1'],
+      ['/refresh', null],
+      ['/b', 'Bearer token-1'],
+      ['/a', 'Bearer token-2'],
+      ['/b', 'Bearer token-2'],
+    ])
+  })
+
+  it('should not copy request bodies unless replaying', async () => {
+    const server = createAuthServer()
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: server.fetch,
+      auth: { getToken: () => 'token-2', refreshToken: () => 'token-3' },
+    }).plugin(pluginAuth)
+
+    const clone = vi.spyOn(Request.prototype, 'clone')
+    try {
+      const res = await fx.post('/a', 'text')
+      expect(res.data.body).toBe('text')
+      expect(clone).not.toHaveBeenCalled()
+    } finally {
+      clone.mockRestore()
+    }
+  })
+
+  it('should reject all queued requests when the refresh fails', async () => {
+    const server = createAuthServer()
+    let refreshes = 0
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: server.fetch,
+      auth: {
+        getToken: () => 'token-1',
+        refreshToken: async () => {
+          refreshes++
+          await new Promise((r) => setTimeout(r, 10))
+          throw new Error('session expired')
+        },
+      },
+    }).plugin(pluginAuth)
+
+    const errors = await Promise.all([
+      fx.get('/a').catch((e) => e),
+      fx.get('/b').catch((e) => e),
+    ])
+    expect(refreshes).toBe(1)
+    for (const error of errors) {
+      expect(error.code).toBe(FexiosErrorCodes.AUTH_REFRESH_FAILED)
+      expect(error.cause.message).toBe('session expired')
+    }
+  })
+
+  it('should support custom predicates and opting out', async () => {
+    const server = createAuthServer()
+    server.valid = 'secret'
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async (req) => {
+        const res = await server.fetch(req)
+        // some APIs reply 403 for expired tokens
+        return res.status === 401 ? new Response(null, { status: 403 }) : res
+      },
+      auth: {
+        getToken: () => 'expired',
+        refreshToken: () => 'secret',
+        shouldRefresh: (response) => response.status === 403,
+      },
+    }).plugin(pluginAuth)
+
+    const res = await fx.get('/a')
+    expect(res.runtime.auth).toEqual({ token: 'secret', refreshed: true })
+
+    // a header given by the user is kept
+    await fx.get('/b', { headers: { authorization: 'Bearer secret' } })
+    // no token and no refresh
+    const error = await fx.get('/c', { auth: false }).catch((e) => e)
+    expect(error.response.status).toBe(403)
+    expect(server.requests.map((r) => r.headers.get('authorization'))).toEqual([
+      'Bearer expired',
+      'Bearer secret',
+      'Bearer secret',
+      null,
+    ])
+  })
+})
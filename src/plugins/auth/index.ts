@@ -0,0 +1,230 @@
+import type {
+  FexiosContext,
+  FexiosHookHandler,
+  FexiosPlugin,
+  FexiosRequestOptions,
+  FetchLike,
+} from '@/types.js'
+import { FexiosError, FexiosErrorCodes } from '@/models/errors.js'
+import { resolveOptions } from '@/utils/resolve-options.js'
+
+const AUTH_PLUGIN_UNINSTALLER = Symbol('fexios-plugin-auth-uninstaller')
+
+type AuthToken = string | null | undefined
+
+export type FexiosAuthOptions = {
+  /**
+   * Returns the current token, no header is sent for an empty token.
+   * It should return the refreshed token once `refreshToken` resolves.
+   */
+  getToken?: (ctx: FexiosContext) => AuthToken | Promise<AuthToken>
+  /**
+   * Refresh the token and return the new one,
+   * called once for all requests failing at the same time
+   */
+  refreshToken?: (ctx: FexiosContext) => AuthToken | Promise<AuthToken>
+  /**
+   * Whether the response requires a refresh
+   * @default (response) => response.status === 401
+   */
+  shouldRefresh?: (response: Response, ctx: FexiosContext) => boolean
+  /**
+   * Header to send the token with
+   * @default 'Authorization'
+   */
+  header: string
+  /**
+   * Token scheme, set to `''` to send the token as is
+   * @default 'Bearer'
+   */
+  scheme: string
+}
+
+export type FexiosAuthState = {
+  /** The token sent with the request */
+  token: AuthToken
+  /** Whether the request was replayed with a refreshed token */
+  refreshed: boolean
+}
+
+declare module 'fexios/types' {
+  interface FexiosConfigs {
+    /**
+     * Token authentication, requires `pluginAuth`.
+     * Set to `false` to disable it, required for the refresh request itself.
+     */
+    auth?: Partial<FexiosAuthOptions> | false
+  }
+  interface FexiosRuntimeContext {
+    /**
+     * Auth state, only available when `pluginAuth` sent a token
+     */
+    auth?: FexiosAuthState
+  }
+}
+
+const DEFAULT_AUTH_OPTIONS: FexiosAuthOptions = {
+  header: 'Authorization',
+  scheme: 'Bearer',
+}
+
+const formatToken = (options: FexiosAuthOptions, token: string) =>
+  options.scheme ? `${options.scheme} ${token}` : token
+
+function setHeader(
+  headers: FexiosRequestOptions['headers'] | undefined,
+  name: string,
+  value: string
+): FexiosRequestOptions['headers'] {
+  if (headers instanceof Headers) {
+    const next = new Headers(headers)
+    next.set(name, value)
+    return next
+  }
+  const next = Object.fromEntries(
+    Object.entries(headers ?? {}).filter(
+      ([key]) => key.toLowerCase() !== name.toLowerCase()
+    )
+  )
+  return { ...next, [name]: value }
+}
+
+/**
+ * Get the request to replay, the body is not buffered before a replay is needed:
+ * an unread `ctx.request.rawRequest` is used as is, otherwise the body is rebuilt from `ctx.request.body`.
+ * Returns `undefined` if the body was a consumed stream.
+ */
+function getReplaySource(ctx: FexiosContext, sent: Request) {
+  const rawRequest = ctx.request.rawRequest ?? sent
+  if (!rawRequest.bodyUsed) return rawRequest
+  const body = ctx.request.body
+  if (body === undefined || body === null || body instanceof ReadableStream) {
+    return undefined
+  }
+  return new Request(rawRequest, { body: body as BodyInit })
+}
+
+export const pluginAuth: FexiosPlugin = {
+  name: 'fexios-plugin-auth',
+  install(fx) {
+    // the refresh shared by concurrent requests
+    let refreshing: Promise<string> | undefined
+
+    const refresh = (
+      options: FexiosAuthOptions,
+      ctx: FexiosContext,
+      failedToken: AuthToken
+    ) => {
+      refreshing ??= (async () => {
+        try {
+          // another request may have refreshed it in the meantime
+          const current = await options.getToken?.(ctx)
+          if (current && current !== failedToken) return current
+          const token = await options.refreshToken!(ctx)
+          if (!token) throw new Error('No token returned by refreshToken')
+          return token
+        } finally {
+          refreshing = undefined
+        }
+      })()
+      return refreshing.catch((err: any) => {
+        throw new FexiosError(
+          FexiosErrorCodes.AUTH_REFRESH_FAILED,
+          `Failed to refresh the token: ${err?.message ?? err}`,
+          ctx,
+          { cause: err }
+        )
+      })
+    }
+
+    const onBeforeRequest: FexiosHookHandler<'beforeRequest'> = async (ctx) => {
+      const options = resolveOptions(
+        DEFAULT_AUTH_OPTIONS,
+        fx.baseConfigs.auth,
+        ctx.request.auth
+      )
+      if (!options || !options.getToken) return ctx
+      // keep a header given by the user
+      const headers = fx.mergeHeaders(
+        fx.baseConfigs.headers,
+        ctx.request.headers
+      )
+      if (headers.has(options.header)) return ctx
+
+      // Do not wait for a pending refresh, a request failing with the old token
+      // joins it and is replayed with the new one.
+      const token = await options.getToken(ctx)
+      ctx.runtime.auth = { token, refreshed: false }
+      if (token) {
+        ctx.request.headers = setHeader(
+          ctx.request.headers,
+          options.header,
+          formatToken(options, token)
+        )
+      }
+      return ctx
+    }
+
+    const onBeforeActualFetch: FexiosHookHandler<'beforeActualFetch'> = (
+      ctx
+    ) => {
+      const options = resolveOptions(
+        DEFAULT_AUTH_OPTIONS,
+        fx.baseConfigs.auth,
+        ctx.request.auth
+      )
+      const state = ctx.runtime.auth
+      if (!options || !options.refreshToken || !state) return ctx
+
+      const fetch: FetchLike =
+        ctx.request.fetch || fx.baseConfigs.fetch || globalThis.fetch
+      const shouldRefresh =
+        options.shouldRefresh ?? ((response) => response.status === 401)
+
+      // Replay inside fetch instead of calling `fx.request()` again,
+      // so other hooks run once and the caller gets the replayed response.
+      ctx.request.fetch = async (input) => {
+        const template = input as Request
+        const response = await fetch(input)
+        // replay once only
+        if (state.refreshed || !shouldRefresh(response, ctx)) return response
+        const source = getReplaySource(ctx, template)
+        if (!source) return response
+
+        // drop the failed response body, we won't read it anymore
+        response.body?.cancel().catch(() => {})
+        const token = await refresh(options, ctx, state.token)
+        state.token = token
+        state.refreshed = true
+
+        const headers = new Headers(source.headers)
+        headers.set(options.header, formatToken(options, token))
+        // keep ctx.request.rawRequest unread, e.g. for the retry plugin
+        ctx.request.rawRequest = new Request(source, {
+          headers,
+          signal: template.signal,
+        })
+        return fetch(ctx.request.rawRequest.clone())
+      }
+      return ctx
+    }
+
+    fx.on('beforeRequest', onBeforeRequest)
+    fx.on('beforeActualFetch', onBeforeActualFetch)
+    ;(fx as any)[AUTH_PLUGIN_UNINSTALLER] = () => {
+      fx.off('beforeRequest', onBeforeRequest)
+      fx.off('beforeActualFetch', onBeforeActualFetch)
+    }
+
+    return fx
+  },
+  uninstall(fx) {
+    const uninstaller = (fx as any)[AUTH_PLUGIN_UNINSTALLER] as
+      | (() => void)
+      | undefined
+    if (typeof uninstaller === 'function') {
+      uninstaller()
+      delete (fx as any)[AUTH_PLUGIN_UNINSTALLER]
+    }
+  },
+}
@@ -0,0 +1,255 @@
+import { describe, expect, it } from 'vitest'
+import { Fexios } from '@/index.js'
+import { MOCK_FETCH_BASE_URL } from '@/../test/mockFetch.js'
+import {
+  FexiosMemoryCacheStorage,
+  getCacheFreshness,
+  parseCacheControl,
+  pluginCache,
+} from './index.js'
+
+type Handler = (req: Request, count: number) => Response
+
+const createServer = (handler: Handler) => {
+  const calls: Request[] = []
+  const fetch = async (req: Request | string | URL) => {
+    calls.push(req as Request)
+    return handler(req as Request, calls.length)
+  }
+  return { fetch, calls }
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms))
+
+describe('Cache Plugin', () => {
+  it('should parse Cache-Control', () => {
+    expect(
+      parseCacheControl('Public, max-age=60, stale-while-revalidate="30"')
+    ).toEqual({ public: true, 'max-age': '60', 'stale-while-revalidate': '30' })
+    expect(parseCacheControl(null)).toEqual({})
+  })
+
+  it('should compute freshness', () => {
+    const entry = {
+      url: 'https://example.com',
+      status: 200,
+      statusText: 'OK',
+      headers: [
+        ['cache-control', 'max-age=10, s-maxage=100, stale-while-revalidate=5'],
+        ['age', '2'],
+      ] as [string, string][],
+      body: null,
+      storedAt: 0,
+      vary: {},
+    }
+    const options = {
+      shared: false,
+      heuristicTTL: 0,
+      staleWhileRevalidate: true,
+    }
+    expect(getCacheFreshness(entry, options, 7_000)).toMatchObject({
+      age: 9,
+      lifetime: 10,
+      fresh: true,
+    })
+    expect(getCacheFreshness(entry, options, 10_000)).toMatchObject({
+      fresh: false,
+      staleWhileRevalidate: true,
+    })
+    expect(getCacheFreshness(entry, options, 20_000)).toMatchObject({
+      fresh: false,
+      staleWhileRevalidate: false,
+    })
+    expect(
+      getCacheFreshness(entry, { ...options, shared: true }, 20_000).fresh
+    ).toBe(true)
+  })
+
+  it('should serve fresh responses from cache', async () => {
+    const { fetch, calls } = createServer((_, count) =>
+      Response.json({ count }, { headers: { 'cache-control': 'max-age=60' } })
+    )
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch }).plugin(
+      pluginCache
+    )
+
+    const first = await fx.get('/data', { query: { a: 1 } })
+    expect(first.data).toEqual({ count: 1 })
+    expect(first.runtime.cache?.status).toBe('miss')
+
+    const second = await fx.get('/data', { query: { a: 1 } })
+    expect(second.data).toEqual({ count: 1 })
+    expect(second.runtime.cache?.status).toBe('hit')
+    expect(second.url).toBe(`${MOCK_FETCH_BASE_URL}/data?a=1`)
+    expect(second.rawResponse.headers.get('age')).toBe('0')
+
+    // different query, different entry
+    const third = await fx.get('/data', { query: { a: 2 } })
+    expect(third.data).toEqual({ count: 2 })
+    expect(calls.length).toBe(2)
+  })
+
+  it('should not store no-store / private (shared) responses', async () => {
+    const { fetch, calls } = createServer((req) =>
+      Response.json(
+        { ok: true },
+        {
+          headers: {
+            'cache-control': req.url.includes('private')
+              ? 'private, max-age=60'
+              : 'no-store',
+          },
+        }
+      )
+    )
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch,
+      httpCache: { shared: true },
+    }).plugin(pluginCache)
+
+    await fx.get('/no-store')
+    await fx.get('/no-store')
+    await fx.get('/private')
+    await fx.get('/private')
+    expect(calls.length).toBe(4)
+
+    // private responses are fine for a private cache
+    await fx.get('/private', { httpCache: { shared: false } })
+    await fx.get('/private', { httpCache: { shared: false } })
+    expect(calls.length).toBe(5)
+  })
+
+  it('should revalidate with ETag and Last-Modified', async () => {
+    const lastModified = new Date(0).toUTCString()
+    const { fetch, calls } = createServer((req) => {
+      if (req.headers.get('if-none-match') === '"v1"') {
+        return new Response(null, {
+          status: 304,
+          headers: { 'x-refreshed': '1' },
+        })
+      }
+      return new Response('hello', {
+        headers: {
+          'content-type': 'text/plain',
+          'cache-control': 'no-cache',
+          etag: '"v1"',
+          'last-modified': lastModified,
+        },
+      })
+    })
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch }).plugin(
+      pluginCache
+    )
+
+    await fx.get('/etag')
+    const res = await fx.get('/etag')
+    expect(calls.length).toBe(2)
+    expect(calls[1].headers.get('if-none-match')).toBe('"v1"')
+    expect(calls[1].headers.get('if-modified-since')).toBe(lastModified)
+    expect(res.runtime.cache?.status).toBe('revalidated')
+    expect(res.response.status).toBe(200)
+    expect(res.data).toBe('hello')
+    expect(res.headers.get('x-refreshed')).toBe('1')
+  })
+
+  it('should serve stale response while revalidating', async () => {
+    const { fetch, calls } = createServer((_, count) =>
+      Response.json(
+        { count },
+        {
+          headers: { 'cache-control': 'max-age=0, stale-while-revalidate=60' },
+        }
+      )
+    )
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch }).plugin(
+      pluginCache
+    )
+
+    await fx.get('/swr')
+    const stale = await fx.get('/swr')
+    expect(stale.data).toEqual({ count: 1 })
+    expect(stale.runtime.cache?.status).toBe('stale')
+
+    await sleep(10)
+    expect(calls.length).toBe(2)
+    const fresh = await fx.get('/swr')
+    expect(fresh.data).toEqual({ count: 2 })
+  })
+
+  it('should honor Vary and request cache modes', async () => {
+    const { fetch, calls } = createServer((req) =>
+      Response.json(
+        { lang: req.headers.get('accept-language') },
+        { headers: { 'cache-control': 'max-age=60', vary: 'Accept-Language' } }
+      )
+    )
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch }).plugin(
+      pluginCache
+    )
+
+    await fx.get('/vary', { headers: { 'accept-language': 'en' } })
+    const hit = await fx.get('/vary', { headers: { 'accept-language': 'en' } })
+    expect(hit.runtime.cache?.status).toBe('hit')
+    const miss = await fx.get('/vary', {
+      headers: { 'accept-language': 'zh' },
+    })
+    expect(miss.data).toEqual({ lang: 'zh' })
+    expect(calls.length).toBe(2)
+
+    const bypass = await fx.get('/vary', {
+      headers: { 'accept-language': 'zh' },
+      cache: 'no-store',
+    })
+    expect(bypass.runtime.cache?.status).toBe('bypass')
+    await fx.get('/vary', {
+      headers: { 'accept-language': 'zh' },
+      httpCache: false,
+    })
+    expect(calls.length).toBe(4)
+  })
+
+  it('should invalidate entries after unsafe requests', async () => {
+    const { fetch, calls } = createServer((req, count) =>
+      req.method === 'GET'
+        ? Response.json(
+            { count },
+            { headers: { 'cache-control': 'max-age=60' } }
+          )
+        : Response.json({ ok: true })
+    )
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch }).plugin(
+      pluginCache
+    )
+
+    await fx.get('/item')
+    await fx.get('/item')
+    expect(calls.length).toBe(1)
+    await fx.put('/item', { a: 1 })
+    const res = await fx.get('/item')
+    expect(res.data).toEqual({ count: 3 })
+  })
+
+  it('should use custom storage and evict LRU entries', async () => {
+    const storage = new FexiosMemoryCacheStorage(2)
+    const { fetch, calls } = createServer(() =>
+      Response.json({}, { headers: { 'cache-control': 'max-age=60' } })
+    )
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch }).plugin(
+      pluginCache
+    )
+    fx.cacheStorage = storage
+
+    await fx.get('/a')
+    await fx.get('/b')
+    await fx.get('/a') // refresh recency of /a
+    await fx.get('/c') // evicts /b
+    expect(storage.size).toBe(2)
+    await fx.get('/a')
+    await fx.get('/b')
+    expect(calls.length).toBe(4)
+
+    fx.uninstall(pluginCache)
+    expect(fx.cacheStorage).toBeUndefined()
+  })
+})
@@ -0,0 +1,462 @@
+import type {
+  FexiosHookHandler,
+  FexiosLifecycleEventMap,
+  FexiosMethods,
+  FexiosPlugin,
+} from '@/types.js'
+import type { Fexios } from '@/fexios.js'
+import { FexiosHeaderBuilder } from '@/models/header-builder.js'
+import { FexiosQueryBuilder } from '@/models/query-builder.js'
+import { resolveOptions } from '@/utils/resolve-options.js'
+import {
+  FexiosMemoryCacheStorage,
+  type FexiosCacheEntry,
+  type FexiosCacheStorage,
+} from './storage.js'
+
+export * from './storage.js'
+
+const CACHE_PLUGIN_UNINSTALLER = Symbol('fexios-plugin-cache-uninstaller')
+
+export type FexiosCacheOptions = {
+  /**
+   * Methods whose responses can be cached
+   * @default ['GET', 'HEAD']
+   */
+  methods: FexiosMethods[]
+  /**
+   * Response status codes that can be cached
+   * @default [200, 203, 204, 300, 301, 308, 404, 410]
+   */
+  statusCodes: number[]
+  /**
+   * Behave as a shared cache: skip `private` responses and prefer `s-maxage`
+   * @default false
+   */
+  shared: boolean
+  /**
+   * Freshness lifetime (ms) for responses without explicit expiration,
+   * `0` means these responses are always revalidated
+   * @default 0
+   */
+  heuristicTTL: number
+  /**
+   * Whether to honor `stale-while-revalidate`
+   * @default true
+   */
+  staleWhileRevalidate: boolean
+  /**
+   * Custom cache key
+   * @default (method, url) => `${method} ${url}`
+   */
+  key?: (method: string, url: string) => string
+}
+
+export type FexiosCacheStatus =
+  /** served from cache without touching the network */
+  | 'hit'
+  /** served a stale entry, revalidating in background */
+  | 'stale'
+  /** server responded 304, served the refreshed entry */
+  | 'revalidated'
+  /** fetched from network */
+  | 'miss'
+  /** cache is skipped for this request */
+  | 'bypass'
+
+export type FexiosCacheState = {
+  key: string
+  status: FexiosCacheStatus
+  entry?: FexiosCacheEntry
+}
+
+declare module 'fexios' {
+  interface Fexios {
+    /**
+     * Storage of `pluginCache`, replace it to use a custom adapter
+     */
+    cacheStorage?: FexiosCacheStorage
+  }
+}
+
+declare module 'fexios/types' {
+  interface FexiosConfigs {
+    /**
+     * HTTP cache policy, requires `pluginCache`.
+     * Set to `false` to disable caching.
+     */
+    httpCache?: Partial<FexiosCacheOptions> | false
+  }
+  interface FexiosRuntimeContext {
+    /**
+     * Cache state, only available when `pluginCache` is installed
+     */
+    cache?: FexiosCacheState
+  }
+}
+
+const DEFAULT_CACHE_OPTIONS: FexiosCacheOptions = {
+  methods: ['GET', 'HEAD'],
+  statusCodes: [200, 203, 204, 300, 301, 308, 404, 410],
+  shared: false,
+  heuristicTTL: 0,
+  staleWhileRevalidate: true,
+}
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS', 'TRACE']
+const NULL_BODY_STATUS = [101, 103, 204, 205, 304]
+
+/**
+ * Parse `Cache-Control` header into a directive map, names are lower-cased
+ * @example
+ * parseCacheControl('public, max-age=60') // => { public: true, 'max-age': '60' }
+ */
+export function parseCacheControl(
+  value?: string | null
+): Record<string, string | true> {
+  const directives: Record<string, string | true> = {}
+  if (!value) return directives
+  for (const part of value.split(',')) {
+    const [name, ...rest] = part.split('=')
+    const key = name.trim().toLowerCase()
+    if (!key) continue
+    directives[key] = rest.length
+      ? rest.join('=').trim().replace(/^"|"$/g, '')
+      : true
+  }
+  return directives
+}
+
+const getSeconds = (
+  directives: Record<string, string | true>,
+  name: string
+): number | undefined => {
+  const value = directives[name]
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) return undefined
+  return parseInt(value, 10)
+}
+
+/**
+ * Compute freshness of a cached entry
+ */
+export function getCacheFreshness(
+  entry: FexiosCacheEntry,
+  options: Pick<
+    FexiosCacheOptions,
+    'shared' | 'heuristicTTL' | 'staleWhileRevalidate'
+  >,
+  now = Date.now()
+) {
+  const headers = new Headers(entry.headers)
+  const directives = parseCacheControl(headers.get('cache-control'))
+
+  // freshness lifetime (s)
+  let lifetime =
+    (options.shared ? getSeconds(directives, 's-maxage') : undefined) ??
+    getSeconds(directives, 'max-age')
+  if (lifetime === undefined && headers.has('expires')) {
+    const expires = Date.parse(headers.get('expires')!)
+    const date = Date.parse(headers.get('date') ?? '') || entry.storedAt
+    lifetime = Number.isNaN(expires)
+      ? 0
+      : Math.max(0, Math.floor((expires - date) / 1000))
+  }
+  lifetime ??= options.heuristicTTL / 1000
+
+  // current age (s)
+  const age =
+    (getSeconds({ age: headers.get('age') ?? '' }, 'age') ?? 0) +
+    Math.max(0, (now - entry.storedAt) / 1000)
+
+  const noCache = !!directives['no-cache']
+  const swr = getSeconds(directives, 'stale-while-revalidate') ?? 0
+  return {
+    age,
+    lifetime,
+    fresh: !noCache && age < lifetime,
+    staleWhileRevalidate:
+      options.staleWhileRevalidate &&
+      !noCache &&
+      !directives['must-revalidate'] &&
+      !(options.shared && directives['proxy-revalidate']) &&
+      age < lifetime + swr,
+  }
+}
+
+const resolveRequestURL = (
+  fx: Fexios,
+  request: FexiosLifecycleEventMap['beforeRequest']['request']
+) => {
+  const fallback = globalThis.location?.href || 'http://localhost'
+  const base = new URL(
+    request.baseURL || fx.baseConfigs.baseURL || fallback,
+    fallback
+  )
+  const url = new URL(request.url, base)
+  return FexiosQueryBuilder.makeURL(url, request.query, url.hash).toString()
+}
+
+const getCacheKey = (
+  options: FexiosCacheOptions,
+  method: string,
+  url: string
+) => (options.key ? options.key(method, url) : `${method} ${url}`)
+
+const matchVary = (entry: FexiosCacheEntry, headers: Headers) =>
+  Object.entries(entry.vary).every(
+    ([name, value]) => headers.get(name) === value
+  )
+
+const isStorable = (
+  response: Response,
+  request: Request,
+  options: FexiosCacheOptions
+) => {
+  if (!options.statusCodes.includes(response.status)) return false
+  const headers = response.headers
+  const directives = parseCacheControl(headers.get('cache-control'))
+  if (directives['no-store']) return false
+  if (headers.get('vary')?.trim() === '*') return false
+  if (options.shared) {
+    if (directives['private']) return false
+    if (
+      request.headers.has('authorization') &&
+      !directives['public'] &&
+      !directives['s-maxage'] &&
+      !directives['must-revalidate']
+    ) {
+      return false
+    }
+  }
+  // useless unless it can be served fresh or revalidated
+  return (
+    directives['max-age'] !== undefined ||
+    directives['s-maxage'] !== undefined ||
+    headers.has('expires') ||
+    headers.has('etag') ||
+    headers.has('last-modified') ||
+    options.heuristicTTL > 0
+  )
+}
+
+const createEntry = (
+  request: Request,
+  response: Response,
+  body: ArrayBuffer | null
+): FexiosCacheEntry => {
+  const vary: Record<string, string | null> = {}
+  for (const name of (response.headers.get('vary') ?? '').split(',')) {
+    const key = name.trim().toLowerCase()
+    if (key) vary[key] = request.headers.get(key)
+  }
+  return {
+    url: request.url,
+    status: response.status,
+    statusText: response.statusText,
+    headers: [...response.headers.entries()],
+    body,
+    storedAt: Date.now(),
+    vary,
+  }
+}
+
+/**
+ * Merge headers of a 304 response into the cached entry
+ * @see https://www.rfc-editor.org/rfc/rfc9111#section-4.3.4
+ */
+const refreshEntry = (
+  entry: FexiosCacheEntry,
+  response: Response
+): FexiosCacheEntry => {
+  const headers = new Headers(entry.headers)
+  response.headers.forEach((value, name) => {
+    if (name === 'content-length') return
+    headers.set(name, value)
+  })
+  return {
+    ...entry,
+    headers: [...headers.entries()],
+    storedAt: Date.now(),
+  }
+}
+
+const toResponse = (entry: FexiosCacheEntry, age?: number) => {
+  const headers = new Headers(entry.headers)
+  if (age !== undefined) headers.set('age', String(Math.floor(age)))
+  const response = new Response(
+    NULL_BODY_STATUS.includes(entry.status) ? null : entry.body,
+    {
+      status: entry.status,
+      statusText: entry.statusText,
+      headers,
+    }
+  )
+  // `Response.url` is empty for constructed responses
+  Object.defineProperty(response, 'url', { value: entry.url })
+  return response
+}
+
+export const pluginCache: FexiosPlugin = {
+  name: 'fexios-plugin-cache',
+  install(fx) {
+    fx.cacheStorage = new FexiosMemoryCacheStorage()
+    const revalidating = new Set<string>()
+
+    const onBeforeRequest: FexiosHookHandler<'beforeRequest'> = async (ctx) => {
+      const storage = fx.cacheStorage
+      const options = resolveOptions(
+        DEFAULT_CACHE_OPTIONS,
+        fx.baseConfigs.httpCache,
+        ctx.request.httpCache
+      )
+      if (!storage || !options) return ctx
+
+      const method = (ctx.request.method || 'GET').toUpperCase()
+      if (!options.methods.some((m) => m.toUpperCase() === method)) {
+        return ctx
+      }
+
+      const url = resolveRequestURL(fx, ctx.request)
+      const state: FexiosCacheState = {
+        key: getCacheKey(options, method, url),
+        status: 'miss',
+      }
+      ctx.runtime.cache = state
+
+      const headers = FexiosHeaderBuilder.mergeHeaders(
+        fx.baseConfigs.headers,
+        ctx.request.headers || {}
+      )
+      const directives = parseCacheControl(headers.get('cache-control'))
+      const mode = ctx.request.cache
+      if (
+        mode === 'no-store' ||
+        directives['no-store'] ||
+        ctx.request.responseType === 'stream' ||
+        // user is performing a conditional request by itself
+        headers.has('if-none-match') ||
+        headers.has('if-modified-since')
+      ) {
+        state.status = 'bypass'
+        return ctx
+      }
+      if (mode === 'reload') return ctx
+
+      const entry = await storage.get(state.key)
+      if (!entry || !matchVary(entry, headers)) return ctx
+
+      const freshness = getCacheFreshness(entry, options)
+      const forceRevalidate = mode === 'no-cache' || !!directives['no-cache']
+      if (mode === 'force-cache' || (!forceRevalidate && freshness.fresh)) {
+        state.status = 'hit'
+        state.entry = entry
+        return toResponse(entry, freshness.age)
+      }
+
+      if (!forceRevalidate && freshness.staleWhileRevalidate) {
+        state.status = 'stale'
+        state.entry = entry
+        if (!revalidating.has(state.key)) {
+          revalidating.add(state.key)
+          const { rawRequest, ...request } = ctx.request as any
+          fx.request({ ...request, cache: 'no-cache' })
+            .catch(() => {})
+            .finally(() => revalidating.delete(state.key))
+        }
+        return toResponse(entry, freshness.age)
+      }
+
+      // conditional request
+      const etag = new Headers(entry.headers).get('etag')
+      const lastModified = new Headers(entry.headers).get('last-modified')
+      if (etag || lastModified) {
+        state.entry = entry
+        ctx.request.headers = fx.mergeHeaders(ctx.request.headers, {
+          'If-None-Match': etag ?? undefined,
+          'If-Modified-Since': lastModified ?? undefined,
+        })
+      }
+      return ctx
+    }
+
+    const onAfterRawResponse: FexiosHookHandler<'afterRawResponse'> = async (
+      ctx
+    ) => {
+      const state = ctx.runtime.cache
+      if (
+        !fx.cacheStorage ||
+        !state?.entry ||
+        state.status !== 'miss' ||
+        ctx.rawResponse.status !== 304
+      ) {
+        return ctx
+      }
+      ctx.rawResponse.body?.cancel().catch(() => {})
+      const entry = refreshEntry(state.entry, ctx.rawResponse)
+      await fx.cacheStorage.set(state.key, entry)
+      state.status = 'revalidated'
+      state.entry = entry
+      return toResponse(entry)
+    }
+
+    const onAfterResponse: FexiosHookHandler<'afterResponse'> = async (ctx) => {
+      const storage = fx.cacheStorage
+      const options = resolveOptions(
+        DEFAULT_CACHE_OPTIONS,
+        fx.baseConfigs.httpCache,
+        ctx.request.httpCache
+      )
+      const rawRequest = ctx.request.rawRequest
+      if (!storage || !options || !rawRequest) return ctx
+
+      const method = rawRequest.method.toUpperCase()
+      const response = ctx.rawResponse
+      // unsafe methods invalidate cached entries of the same url
+      // @see https://www.rfc-editor.org/rfc/rfc9111#section-4.4
+      if (!SAFE_METHODS.includes(method)) {
+        if (response.status >= 200 && response.status < 400) {
+          for (const m of options.methods) {
+            await storage.delete(
+              getCacheKey(options, m.toUpperCase(), rawRequest.url)
+            )
+          }
+        }
+        return ctx
+      }
+
+      const state = ctx.runtime.cache
+      if (state?.status !== 'miss') return ctx
+      if (!isStorable(response, rawRequest, options)) return ctx
+
+      const body =
+        method === 'HEAD' || NULL_BODY_STATUS.includes(response.status)
+          ? null
+          : await response.clone().arrayBuffer()
+      const entry = createEntry(rawRequest, response, body)
+      await storage.set(state.key, entry)
+      state.entry = entry
+      return ctx
+    }
+
+    fx.on('beforeRequest', onBeforeRequest)
+    fx.on('afterRawResponse', onAfterRawResponse)
+    fx.on('afterResponse', onAfterResponse)
+    ;(fx as any)[CACHE_PLUGIN_UNINSTALLER] = () => {
+      fx.off('beforeRequest', onBeforeRequest)
+      fx.off('afterRawResponse', onAfterRawResponse)
+      fx.off('afterResponse', onAfterResponse)
+      fx.cacheStorage = undefined
+    }
+
+    return fx
+  },
+  uninstall(fx) {
+    const uninstaller = (fx as any)[CACHE_PLUGIN_UNINSTALLER] as
+      | (() => void)
+      | undefined
+    if (typeof uninstaller === 'function') {
+      uninstaller()
+      delete (fx as any)[CACHE_PLUGIN_UNINSTALLER]
+    }
+  },
+}
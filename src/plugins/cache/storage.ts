@@ -0,0 +1,70 @@
+/**
+ * Serializable snapshot of a cached response
+ */
+export type FexiosCacheEntry = {
+  url: string
+  status: number
+  statusText: string
+  headers: [string, string][]
+  body: ArrayBuffer | null
+  /** Time (ms) the response was received or last revalidated */
+  storedAt: number
+  /** Request header values selected by `Vary`, lower-cased names */
+  vary: Record<string, string | null>
+}
+
+type MaybePromise<T> = T | Promise<T>
+
+/**
+ * Storage adapter of `pluginCache`.
+ * Implement this interface to persist entries in IndexedDB, files, Redis, etc.
+ */
+export interface FexiosCacheStorage {
+  get(key: string): MaybePromise<FexiosCacheEntry | undefined>
+  set(key: string, entry: FexiosCacheEntry): MaybePromise<void>
+  delete(key: string): MaybePromise<void>
+  clear(): MaybePromise<void>
+}
+
+/**
+ * In-memory LRU storage, the default storage of `pluginCache`
+ */
+export class FexiosMemoryCacheStorage implements FexiosCacheStorage {
+  private entries = new Map<string, FexiosCacheEntry>()
+
+  /**
+   * @param maxEntries least recently used entries are evicted beyond this size
+   */
+  constructor(readonly maxEntries = 100) {}
+
+  get size() {
+    return this.entries.size
+  }
+
+  get(key: string) {
+    const entry = this.entries.get(key)
+    if (entry) {
+      // refresh recency
+      this.entries.delete(key)
+      this.entries.set(key, entry)
+    }
+    return entry
+  }
+
+  set(key: string, entry: FexiosCacheEntry) {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string
+      this.entries.delete(oldest)
+    }
+  }
+
+  delete(key: string) {
+    this.entries.delete(key)
+  }
+
+  clear() {
+    this.entries.clear()
+  }
+}
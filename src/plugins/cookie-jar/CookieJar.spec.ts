@@ -1,5 +1,13 @@
-import { describe, it, expect, beforeEach } from 'vitest'
-import { CookieJar, type CookieJarItem } from './index.js'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  CookieJar,
+  CookieJarFileStorage,
+  type CookieJarItem,
+  type CookieJarStorage,
+} from './index.js'
 
 describe('CookieJar', () => {
   let cookieJar: CookieJar
@@ -315,4 +323,244 @@ describe('CookieJar', () => {
     expect(cookieMatches).toHaveLength(1)
     expect(cookieMatches![0]).toBe('testCookie=secondValue')
   })
+
+  it('should be able to serialize to JSON and restore', () => {
+    cookieJar.parseSetCookieHeader('session=abc; Max-Age=3600', 'example.com')
+    cookieJar.parseSetCookieHeader(
+      'theme=dark; Domain=example.com; Expires=Wed, 01 Jan 2100 00:00:00 GMT',
+      'example.com'
+    )
+    cookieJar.setCookie({
+      name: 'old',
+      value: 'x',
+      domain: 'example.com',
+      expires: new Date(Date.now() - 1000),
+    })
+    const createdAt = cookieJar.getCookie('session', 'example.com')!._createdAt
+
+    const json = JSON.parse(JSON.stringify(cookieJar))
+    expect(json.cookies).toHaveLength(2)
+
+    const restored = CookieJar.fromJSON(JSON.stringify(cookieJar))
+    const session = restored.getCookie('session', 'example.com')
+    expect(session?._hostOnly).toBe(true)
+    expect(session?._createdAt).toEqual(createdAt)
+    expect(restored.getCookie('session', 'sub.example.com')).toBeUndefined()
+    expect(restored.getCookie('theme', 'sub.example.com')?.expires).toEqual(
+      new Date('2100-01-01T00:00:00Z')
+    )
+  })
+
+  it('should be able to import and export Netscape cookies.txt', () => {
+    const text = [
+      '# Netscape HTTP Cookie File',
+      '',
+      '.example.com\tTRUE\t/\tFALSE\t4102444800\ttheme\tdark',
+      '#HttpOnly_api.example.com\tFALSE\t/v1\tTRUE\t0\tsid\t123',
+    ].join('\n')
+    const jar = CookieJar.fromNetscape(text)
+
+    expect(jar.getCookie('theme', 'www.example.com')?.expires).toEqual(
+      new Date('2100-01-01T00:00:00Z')
+    )
+    const sid = jar.getCookie('sid', 'api.example.com', '/v1')
+    expect(sid).toMatchObject({ httpOnly: true, secure: true, _hostOnly: true })
+    expect(sid?.expires).toBeUndefined()
+    expect(jar.getCookie('sid', 'www.api.example.com', '/v1')).toBeUndefined()
+
+    expect(jar.toNetscape()).toBe(text + '\n')
+  })
+
+  it('should be able to autosave to and load from storage', async () => {
+    vi.useFakeTimers()
+    try {
+      let saved: string | undefined
+      const storage: CookieJarStorage = {
+        load: () => saved,
+        save: vi.fn((jar: CookieJar) => {
+          saved = JSON.stringify(jar)
+        }),
+      }
+      const jar = new CookieJar({ storage, autosave: 100 })
+      jar.setCookie({ name: 'a', value: '1' }, 'example.com')
+      jar.setCookie({ name: 'b', value: '2' }, 'example.com')
+      expect(storage.save).not.toHaveBeenCalled()
+      await vi.advanceTimersByTimeAsync(100)
+      expect(storage.save).toHaveBeenCalledTimes(1)
+
+      const loaded = await new CookieJar({ storage, autosave: 100 }).load()
+      expect(loaded.getCookieHeader('example.com')).toBe('a=1; b=2')
+      // loading does not save the same cookies back
+      await vi.advanceTimersByTimeAsync(100)
+      expect(storage.save).toHaveBeenCalledTimes(1)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should be able to flush a pending autosave', async () => {
+    vi.useFakeTimers()
+    try {
+      const storage: CookieJarStorage = { load: () => undefined, save: vi.fn() }
+      const jar = new CookieJar({ storage })
+      await jar.flush()
+      expect(storage.save).not.toHaveBeenCalled()
+
+      jar.setCookie({ name: 'a', value: '1' }, 'example.com')
+      await jar.flush()
+      expect(storage.save).toHaveBeenCalledTimes(1)
+      // the autosave is done already
+      await vi.advanceTimersByTimeAsync(1000)
+      await jar.flush()
+      expect(storage.save).toHaveBeenCalledTimes(1)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should be able to persist cookies in a file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'fexios-cookie-jar-'))
+    try {
+      const storage = new CookieJarFileStorage(join(dir, 'cookies.txt'), {
+        format: 'netscape',
+      })
+      expect(await storage.load()).toBeUndefined()
+
+      const jar = new CookieJar({ storage, autosave: false })
+      jar.setCookie({ name: 'a', value: '1' }, 'example.com')
+      await jar.save()
+      expect(await readFile(join(dir, 'cookies.txt'), 'utf8')).toContain(
+        'example.com\tFALSE\t/\tFALSE\t0\ta\t1'
+      )
+
+      const loaded = await new CookieJar({ storage }).load()
+      expect(loaded.getCookieHeader('example.com')).toBe('a=1')
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should follow RFC 6265bis for Secure, default path and ordering', () => {
+    const https = new URL('https://example.com/docs/page')
+    const http = new URL('http://example.com/docs/page')
+    cookieJar.parseSetCookieHeader('a=1; Path=/', https)
+    cookieJar.parseSetCookieHeader('b=2', https)
+    cookieJar.parseSetCookieHeader('token=x; Secure', https)
+    // Secure cookies can not be set from insecure URLs
+    cookieJar.parseSetCookieHeader('other=y; Secure', http)
+    // and can not be overwritten by them
+    cookieJar.parseSetCookieHeader('token=z', http)
+
+    expect(cookieJar.getCookie('b', 'example.com')?.path).toBe('/docs')
+    expect(cookieJar.getCookieHeader(https)).toBe('b=2; token=x; a=1')
+    expect(cookieJar.getCookieHeader(http)).toBe('b=2; a=1')
+    expect(cookieJar.getCookieHeader(new URL('https://example.com/'))).toBe(
+      'a=1'
+    )
+    // loopback hosts are trustworthy
+    cookieJar.parseSetCookieHeader(
+      'local=1; Secure',
+      new URL('http://localhost:3000/')
+    )
+    expect(cookieJar.getCookieHeader(new URL('http://localhost/'))).toBe(
+      'local=1'
+    )
+  })
+
+  it('should reject invalid domains and cookie prefixes', () => {
+    const jar = new CookieJar({ publicSuffixes: ['co.uk', '*.ck', '!www.ck'] })
+    const set = (header: string, url: string) =>
+      jar.parseSetCookieHeader(header, new URL(url))
+
+    set('super=1; Domain=com', 'https://example.com/')
+    set('super=2; Domain=co.uk', 'https://example.co.uk/')
+    set('super=3; Domain=foo.ck', 'https://a.foo.ck/')
+    set('other=1; Domain=other.com', 'https://example.com/')
+    set('ok=1; Domain=example.co.uk', 'https://www.example.co.uk/')
+    set('ok=2; Domain=www.ck', 'https://a.www.ck/')
+    expect(jar.getAllCookies().map((c) => `${c.name}=${c.value}`)).toEqual([
+      'ok=1',
+      'ok=2',
+    ])
+    expect(jar.getCookieHeader(new URL('https://example.co.uk/'))).toBe('ok=1')
+
+    set('__Secure-a=1', 'https://example.com/')
+    set('__Secure-b=1; Secure', 'https://example.com/')
+    set(
+      '__Host-a=1; Secure; Path=/; Domain=example.com',
+      'https://example.com/'
+    )
+    set('__Host-b=1; Secure; Path=/docs', 'https://example.com/')
+    set('__Host-c=1; Secure; Path=/', 'https://example.com/')
+    expect(jar.getCookieHeader(new URL('https://example.com/docs'))).toBe(
+      '__Secure-b=1; __Host-c=1'
+    )
+  })
+
+  it('should enforce SameSite and cookie limits', () => {
+    const jar = new CookieJar({ maxCookiesPerDomain: 3 })
+    const url = new URL('https://api.example.com/')
+    const sameSite = { siteForCookies: 'https://www.example.com' }
+    const crossSite = { siteForCookies: 'https://other.com' }
+
+    jar.parseSetCookieHeader('strict=1; SameSite=Strict', url, sameSite)
+    jar.parseSetCookieHeader('lax=1; SameSite=lax', url, sameSite)
+    jar.parseSetCookieHeader('none=1; SameSite=None; Secure', url, crossSite)
+    jar.parseSetCookieHeader('insecure=1; SameSite=None', url, sameSite)
+    jar.parseSetCookieHeader('cross=1; SameSite=Strict', url, crossSite)
+
+    expect(jar.getCookieHeader(url, sameSite)).toBe('strict=1; lax=1; none=1')
+    expect(jar.getCookieHeader(url, crossSite)).toBe('none=1')
+    expect(jar.getCookieHeader(url, { ...crossSite, navigation: true })).toBe(
+      'lax=1; none=1'
+    )
+    // schemeful same-site
+    expect(
+      jar.getCookieHeader(url, { siteForCookies: 'http://www.example.com' })
+    ).toBe('none=1')
+
+    // the oldest cookie is evicted
+    jar.parseSetCookieHeader('extra=1', url)
+    expect(jar.getAllCookies().map((c) => c.name)).toEqual([
+      'lax',
+      'none',
+      'extra',
+    ])
+    // an expired cookie removes the stored one
+    jar.parseSetCookieHeader('lax=; Max-Age=0', url)
+    expect(jar.getAllCookies().map((c) => c.name)).toEqual(['none', 'extra'])
+  })
+
+  it('should emit set, delete and expire events', () => {
+    const jar = new CookieJar()
+    const url = new URL('https://example.com/')
+    const events: string[] = []
+    const off = jar.on('set', (e) =>
+      events.push(`set:${e.cookie.name}=${e.cookie.value}:${e.previous?.value}`)
+    )
+    jar.on('delete', (e) => events.push(`delete:${e.cookie.name}`))
+    jar.on('expire', (e) => events.push(`expire:${e.cookie.name}`))
+
+    jar.parseSetCookieHeader('a=1', url)
+    jar.parseSetCookieHeader('a=2', url)
+    jar.parseSetCookieHeader('b=1', url)
+    jar.setCookie(
+      { name: 'c', value: '1', expires: new Date(Date.now() - 1000) },
+      'example.com'
+    )
+    jar.deleteCookie('a', 'example.com', '/')
+    jar.cleanExpiredCookies()
+    off()
+    jar.parseSetCookieHeader('b=; Max-Age=0', url)
+
+    expect(events).toEqual([
+      'set:a=1:undefined',
+      'set:a=2:1',
+      'set:b=1:undefined',
+      'set:c=1:undefined',
+      'delete:a',
+      'expire:c',
+      'delete:b',
+    ])
+  })
 })
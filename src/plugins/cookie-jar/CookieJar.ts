@@ -1,3 +1,5 @@
+import type { CookieJarStorage } from './storage.js'
+
 /**
  * Cookie object interface
  */
@@ -17,6 +19,120 @@ export interface CookieJarItem {
   _hostOnly?: boolean
 }
 
+/**
+ * The request cookies are sent with or received from, used by URL-based methods
+ */
+export interface CookieJarRequestContext {
+  /**
+   * Site for cookies to enforce `SameSite`, e.g. the origin of the top-level page.
+   * Requests to other sites are cross-site. Every request is same-site if omitted.
+   */
+  siteForCookies?: string | URL
+  /** Request method, cross-site top-level navigations with safe methods send `Lax` cookies */
+  method?: string
+  /**
+   * Whether the request is a top-level navigation
+   * @default false
+   */
+  navigation?: boolean
+}
+
+export type CookieJarEventType = 'set' | 'delete' | 'expire'
+
+/**
+ * Event of `CookieJar.on()`
+ */
+export interface CookieJarEvent {
+  /**
+   * - `set` - a cookie is added or replaced
+   * - `delete` - a cookie is deleted, by the server (e.g. `Max-Age=0`), manually or evicted by limits
+   * - `expire` - an expired cookie is removed
+   */
+  type: CookieJarEventType
+  cookie: CookieJarItem
+  /** The replaced cookie, `set` only */
+  previous?: CookieJarItem
+}
+
+/**
+ * Serialized cookie, dates are ISO strings
+ */
+export type CookieJarSerializedItem = Omit<
+  CookieJarItem,
+  'expires' | '_createdAt'
+> & {
+  expires?: string
+  _createdAt?: string
+}
+
+/**
+ * Result of `CookieJar.toJSON()`
+ */
+export interface CookieJarJSON {
+  version: 1
+  cookies: CookieJarSerializedItem[]
+}
+
+export interface CookieJarOptions {
+  /** Storage to load cookies from and save them to */
+  storage?: CookieJarStorage
+  /**
+   * Debounce delay (ms) of saving to `storage` after changes, `false` to only save manually.
+   * The timer does not keep Node.js alive, pending changes are saved on `beforeExit` (Node.js) or `pagehide` (browsers).
+   * @default 1000
+   */
+  autosave?: number | false
+  /** Called when autosave fails */
+  onSaveError?: (error: unknown) => void
+  /**
+   * Public suffixes, e.g. rules of https://publicsuffix.org/list/ (`co.uk`, `*.ck`, `!www.ck`) or a function.
+   * Cookies with a public suffix as `Domain` are rejected. Single labels (e.g. `com`) are always public suffixes.
+   */
+  publicSuffixes?: Iterable<string> | ((domain: string) => boolean)
+  /**
+   * Max cookies of each domain, expired and then the oldest cookies are evicted
+   * @default 50
+   */
+  maxCookiesPerDomain?: number
+  /**
+   * Max cookies of the jar
+   * @default 3000
+   */
+  maxCookies?: number
+}
+
+/** Max size of the name and value of a cookie */
+const MAX_COOKIE_SIZE = 4096
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS', 'TRACE']
+
+const SAME_SITE_VALUES: Record<string, CookieJarItem['sameSite']> = {
+  strict: 'Strict',
+  lax: 'Lax',
+  none: 'None',
+}
+const NETSCAPE_HEADER = '# Netscape HTTP Cookie File'
+const HTTP_ONLY_PREFIX = '#HttpOnly_'
+
+/** Jars with a pending autosave */
+const pendingJars = new Set<CookieJar>()
+let exitHookInstalled = false
+
+/**
+ * Save pending changes of every jar before the process exits or the page is hidden.
+ * `process.exit()` and signals skip `beforeExit`, call `cookieJar.flush()` before them.
+ */
+function installExitHook() {
+  if (exitHookInstalled) return
+  exitHookInstalled = true
+  const flushAll = () => {
+    for (const jar of pendingJars) {
+      jar.flush().catch((error) => jar.options.onSaveError?.(error))
+    }
+  }
+  ;(globalThis as any).process?.on?.('beforeExit', flushAll)
+  ;(globalThis as any).addEventListener?.('pagehide', flushAll)
+}
+
 /**
  * Cookie Jar
  *
@@ -25,6 +141,32 @@ export interface CookieJarItem {
  */
 export class CookieJar {
   private cookies: Map<string, CookieJarItem> = new Map()
+  private changeListeners = new Set<() => void>()
+  private eventListeners = new Map<
+    CookieJarEventType,
+    Set<(event: CookieJarEvent) => void>
+  >()
+  private saveTimer?: ReturnType<typeof setTimeout>
+  private publicSuffixRules?: Set<string>
+
+  constructor(readonly options: CookieJarOptions = {}) {}
+
+  /**
+   * Create a jar from `toJSON()` output, or its JSON string
+   */
+  static fromJSON(
+    data: CookieJarJSON | string,
+    options?: CookieJarOptions
+  ): CookieJar {
+    return new CookieJar(options).importJSON(data)
+  }
+
+  /**
+   * Create a jar from a Netscape `cookies.txt` file
+   */
+  static fromNetscape(text: string, options?: CookieJarOptions): CookieJar {
+    return new CookieJar(options).importNetscape(text)
+  }
 
   /**
    * Set a cookie
@@ -45,7 +187,10 @@ export class CookieJar {
       _createdAt: cookie.maxAge !== undefined ? new Date() : cookie._createdAt,
     }
 
+    const previous = this.cookies.get(key)
     this.cookies.set(key, cookieWithTime)
+    this.emitEvent({ type: 'set', cookie: cookieWithTime, previous })
+    this.emitChange()
   }
 
   /**
@@ -79,7 +224,7 @@ export class CookieJar {
   }
 
   /**
-   * Get all matching cookies
+   * Get all matching cookies, cookies with longer paths are listed first
    */
   getCookies(domain?: string, path?: string): CookieJarItem[] {
     const result: CookieJarItem[] = []
@@ -93,7 +238,31 @@ export class CookieJar {
       }
     }
 
-    return result
+    // stable sort keeps earlier created cookies first
+    return result.sort((a, b) => (b.path?.length ?? 1) - (a.path?.length ?? 1))
+  }
+
+  /**
+   * Get cookies to send with a request to `url`, following RFC 6265bis:
+   * `Secure` cookies are only sent to secure URLs, and `SameSite` is enforced by `context.siteForCookies`
+   */
+  getCookiesForURL(
+    url: URL,
+    context: CookieJarRequestContext = {}
+  ): CookieJarItem[] {
+    // expired cookies are removed before they are sent
+    this.cleanExpiredCookies()
+    const secure = isSecureURL(url)
+    const sameSite = this.isSameSite(url, context)
+    const laxAllowed = sameSite || this.isSafeNavigation(context)
+    return this.getCookies(url.hostname, url.pathname || '/').filter(
+      (cookie) => {
+        if (cookie.secure && !secure) return false
+        if (cookie.sameSite === 'Strict') return sameSite
+        if (cookie.sameSite === 'Lax') return laxAllowed
+        return true
+      }
+    )
   }
 
   /**
@@ -101,14 +270,20 @@ export class CookieJar {
    */
   deleteCookie(name: string, domain?: string, path?: string): boolean {
     const key = this.getCookieKey(name, domain, path)
-    return this.cookies.delete(key)
+    const deleted = this.removeCookie(key, 'delete')
+    if (deleted) this.emitChange()
+    return deleted
   }
 
   /**
    * Clear all cookies
    */
   clear(): void {
-    this.cookies.clear()
+    if (!this.cookies.size) return
+    for (const key of [...this.cookies.keys()]) {
+      this.removeCookie(key, 'delete')
+    }
+    this.emitChange()
   }
 
   /**
@@ -116,15 +291,15 @@ export class CookieJar {
    */
   cleanExpiredCookies(): number {
     let cleanedCount = 0
-    const now = new Date()
 
-    for (const [key, cookie] of this.cookies.entries()) {
+    for (const [key, cookie] of [...this.cookies.entries()]) {
       if (this.isCookieExpired(cookie)) {
-        this.cookies.delete(key)
+        this.removeCookie(key, 'expire')
         cleanedCount++
       }
     }
 
+    if (cleanedCount) this.emitChange()
     return cleanedCount
   }
 
@@ -144,32 +319,445 @@ export class CookieJar {
   }
 
   /**
-   * Parse cookies from Set-Cookie header
+   * Parse cookies from Set-Cookie header.
+   * Pass the response URL to apply the storage rules of RFC 6265bis with its scheme,
+   * a host is treated as a secure same-site request.
    */
+  parseSetCookieHeader(
+    setCookieHeader: string,
+    url: URL,
+    context?: CookieJarRequestContext
+  ): void
   parseSetCookieHeader(
     setCookieHeader: string,
     domain?: string,
     path?: string
+  ): void
+  parseSetCookieHeader(
+    setCookieHeader: string,
+    target?: string | URL,
+    pathOrContext?: string | CookieJarRequestContext
   ): void {
     const cookieStrings = this.splitSetCookieHeader(setCookieHeader)
+    const request =
+      target instanceof URL
+        ? {
+            host: target.hostname,
+            path: target.pathname,
+            secure: isSecureURL(target),
+            sameSite: this.isSameSite(
+              target,
+              (pathOrContext as CookieJarRequestContext) ?? {}
+            ),
+            navigation: this.isSafeNavigation(
+              (pathOrContext as CookieJarRequestContext) ?? {}
+            ),
+          }
+        : target
+          ? {
+              host: target.toLowerCase(),
+              path: (pathOrContext as string | undefined) ?? '/',
+              secure: true,
+              sameSite: true,
+              navigation: false,
+            }
+          : undefined
 
     for (const cookieStr of cookieStrings) {
       const cookie = this.parseCookieString(cookieStr)
-      if (cookie) {
-        this.setCookie(cookie, domain, path)
+      if (!cookie) continue
+      if (request) this.receiveCookie(cookie, request)
+      else this.setCookie(cookie)
+    }
+  }
+
+  /**
+   * Generate Cookie header string, see `getCookiesForURL()` for URLs
+   */
+  getCookieHeader(url: URL, context?: CookieJarRequestContext): string
+  getCookieHeader(domain?: string, path?: string): string
+  getCookieHeader(
+    target?: string | URL,
+    pathOrContext?: string | CookieJarRequestContext
+  ): string {
+    const cookies =
+      target instanceof URL
+        ? this.getCookiesForURL(
+            target,
+            pathOrContext as CookieJarRequestContext
+          )
+        : this.getCookies(target, pathOrContext as string | undefined)
+    return cookies.map((cookie) => `${cookie.name}=${cookie.value}`).join('; ')
+  }
+
+  /**
+   * Serialize unexpired cookies, including session cookies
+   */
+  toJSON(): CookieJarJSON {
+    const cookies: CookieJarSerializedItem[] = []
+    for (const cookie of this.cookies.values()) {
+      if (this.isCookieExpired(cookie)) continue
+      cookies.push({
+        ...cookie,
+        expires: cookie.expires?.toISOString(),
+        _createdAt: cookie._createdAt?.toISOString(),
+      })
+    }
+    return { version: 1, cookies }
+  }
+
+  /**
+   * Add cookies from `toJSON()` output, or its JSON string.
+   * Unlike `setCookie()`, `_createdAt` and `_hostOnly` are kept as is.
+   */
+  importJSON(data: CookieJarJSON | string): this {
+    const { cookies = [] }: CookieJarJSON =
+      typeof data === 'string' ? JSON.parse(data) : data
+    for (const item of cookies) {
+      this.restoreCookie({
+        ...item,
+        expires: item.expires ? new Date(item.expires) : undefined,
+        _createdAt: item._createdAt ? new Date(item._createdAt) : undefined,
+      })
+    }
+    this.emitChange()
+    return this
+  }
+
+  /**
+   * Serialize unexpired cookies in Netscape `cookies.txt` format, used by curl and wget
+   */
+  toNetscape(): string {
+    const lines = [NETSCAPE_HEADER, '']
+    for (const cookie of this.cookies.values()) {
+      if (this.isCookieExpired(cookie) || !cookie.domain) continue
+      const domain = cookie.domain.replace(/^\./, '')
+      const expiresAt = this.getExpirationTime(cookie)
+      lines.push(
+        [
+          (cookie.httpOnly ? HTTP_ONLY_PREFIX : '') +
+            (cookie._hostOnly ? domain : `.${domain}`),
+          cookie._hostOnly ? 'FALSE' : 'TRUE',
+          cookie.path || '/',
+          cookie.secure ? 'TRUE' : 'FALSE',
+          // 0 means a session cookie
+          expiresAt === undefined ? 0 : Math.floor(expiresAt / 1000),
+          cookie.name,
+          cookie.value,
+        ].join('\t')
+      )
+    }
+    return lines.join('\n') + '\n'
+  }
+
+  /**
+   * Add cookies from a Netscape `cookies.txt` file
+   */
+  importNetscape(text: string): this {
+    for (let line of text.split(/\r?\n/)) {
+      let httpOnly = false
+      if (line.startsWith(HTTP_ONLY_PREFIX)) {
+        httpOnly = true
+        line = line.slice(HTTP_ONLY_PREFIX.length)
+      } else if (!line.trim() || line.startsWith('#')) {
+        continue
+      }
+      const [domain, includeSubdomains, path, secure, expiry, name, value] =
+        line.split('\t')
+      if (!domain || name === undefined) continue
+      const expiresAt = Number(expiry)
+      this.restoreCookie({
+        name,
+        value: value ?? '',
+        domain: domain.replace(/^\./, ''),
+        path: path || '/',
+        secure: secure === 'TRUE' || undefined,
+        httpOnly: httpOnly || undefined,
+        expires: expiresAt > 0 ? new Date(expiresAt * 1000) : undefined,
+        _hostOnly: includeSubdomains !== 'TRUE',
+      })
+    }
+    this.emitChange()
+    return this
+  }
+
+  /**
+   * Listen to cookie events, returns a function to remove the listener
+   */
+  on(
+    type: CookieJarEventType,
+    listener: (event: CookieJarEvent) => void
+  ): () => void {
+    let listeners = this.eventListeners.get(type)
+    if (!listeners) this.eventListeners.set(type, (listeners = new Set()))
+    listeners.add(listener)
+    return () => this.off(type, listener)
+  }
+
+  /**
+   * Remove a listener added by `on()`
+   */
+  off(type: CookieJarEventType, listener: (event: CookieJarEvent) => void) {
+    this.eventListeners.get(type)?.delete(listener)
+  }
+
+  /**
+   * Listen to changes of cookies, returns a function to remove the listener
+   */
+  onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener)
+    return () => this.changeListeners.delete(listener)
+  }
+
+  /**
+   * Add cookies from `options.storage`
+   */
+  async load(): Promise<this> {
+    const data = await this.options.storage?.load()
+    if (data) {
+      // a cookies.txt file does not start with `{`
+      const isJSON = typeof data !== 'string' || data.trimStart()[0] === '{'
+      const pendingSave = this.saveTimer !== undefined
+      if (isJSON) this.importJSON(data)
+      else this.importNetscape(data)
+      // loading should not save the same data back
+      if (!pendingSave) this.cancelAutosave()
+    }
+    return this
+  }
+
+  /**
+   * Save cookies to `options.storage` now
+   */
+  async save(): Promise<void> {
+    this.cancelAutosave()
+    await this.options.storage?.save(this)
+  }
+
+  /**
+   * Save cookies now if an autosave is pending, e.g. before `process.exit()`
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer !== undefined) await this.save()
+  }
+
+  /**
+   * Store a cookie from a response, following the storage model of RFC 6265bis
+   */
+  private receiveCookie(
+    cookie: CookieJarItem,
+    request: {
+      host: string
+      path: string
+      secure: boolean
+      sameSite: boolean
+      navigation: boolean
+    }
+  ) {
+    const { host } = request
+    if (cookie.name.length + cookie.value.length > MAX_COOKIE_SIZE) return
+    if (cookie.secure && !request.secure) return
+
+    let domain = cookie.domain?.replace(/^\./, '').toLowerCase() || undefined
+    if (domain && this.isPublicSuffix(domain)) {
+      // supercookies like `Domain=com`, only allowed when the host is the suffix itself
+      if (domain !== host) return
+      domain = undefined
+    }
+    const hostOnly = !domain
+    if (
+      domain &&
+      (isIPAddress(host) ? domain !== host : !this.isDomainMatch(domain, host))
+    ) {
+      return
+    }
+    const path = cookie.path?.startsWith('/')
+      ? cookie.path
+      : getDefaultPath(request.path)
+
+    if (cookie.sameSite === 'None' && !cookie.secure) return
+    if (
+      (cookie.sameSite === 'Strict' || cookie.sameSite === 'Lax') &&
+      !request.sameSite &&
+      !request.navigation
+    ) {
+      return
+    }
+
+    const name = cookie.name.toLowerCase()
+    if (name.startsWith('__secure-') && !cookie.secure) return
+    if (
+      name.startsWith('__host-') &&
+      !(cookie.secure && cookie.domain === undefined && path === '/')
+    ) {
+      return
+    }
+
+    // insecure responses can not overwrite secure cookies
+    if (!request.secure) {
+      for (const existing of this.cookies.values()) {
+        if (
+          existing.secure &&
+          existing.name === cookie.name &&
+          existing.domain &&
+          (this.isDomainMatch(existing.domain, domain ?? host) ||
+            this.isDomainMatch(domain ?? host, existing.domain)) &&
+          this.isPathMatch(existing.path ?? '/', path)
+        ) {
+          return
+        }
+      }
+    }
+
+    // an expired cookie removes the stored one
+    if (
+      cookie.maxAge !== undefined
+        ? cookie.maxAge <= 0
+        : cookie.expires && cookie.expires.getTime() <= Date.now()
+    ) {
+      this.deleteCookie(cookie.name, domain ?? host, path)
+      return
+    }
+
+    this.setCookie({
+      ...cookie,
+      domain: domain ?? host,
+      path,
+      _hostOnly: hostOnly,
+    })
+    this.enforceLimits(domain ?? host)
+  }
+
+  /**
+   * Evict cookies exceeding `maxCookiesPerDomain` and `maxCookies`, expired ones first, then the oldest
+   */
+  private enforceLimits(domain: string) {
+    const { maxCookiesPerDomain = 50, maxCookies = 3000 } = this.options
+    const evict = (
+      limit: number,
+      filter: (cookie: CookieJarItem) => boolean
+    ) => {
+      const entries = [...this.cookies.entries()].filter(([, cookie]) =>
+        filter(cookie)
+      )
+      if (entries.length <= limit) return
+      const expired = entries.filter(([, cookie]) =>
+        this.isCookieExpired(cookie)
+      )
+      const alive = entries.filter(
+        ([, cookie]) => !this.isCookieExpired(cookie)
+      )
+      const excess = entries.length - limit
+      expired
+        .slice(0, excess)
+        .forEach(([key]) => this.removeCookie(key, 'expire'))
+      alive
+        .slice(0, Math.max(0, excess - expired.length))
+        .forEach(([key]) => this.removeCookie(key, 'delete'))
+      this.emitChange()
+    }
+    evict(
+      maxCookiesPerDomain,
+      (cookie) => cookie.domain?.replace(/^\./, '') === domain
+    )
+    evict(maxCookies, () => true)
+  }
+
+  private isPublicSuffix(domain: string): boolean {
+    if (!domain.includes('.')) return true
+    const { publicSuffixes } = this.options
+    if (!publicSuffixes) return false
+    if (typeof publicSuffixes === 'function') return publicSuffixes(domain)
+    const rules = (this.publicSuffixRules ??= new Set(publicSuffixes))
+    if (rules.has(`!${domain}`)) return false
+    return (
+      rules.has(domain) ||
+      rules.has(`*.${domain.slice(domain.indexOf('.') + 1)}`)
+    )
+  }
+
+  /**
+   * Get the registrable domain of a host, e.g. `example.co.uk` of `www.example.co.uk`
+   */
+  private getSite(host: string): string {
+    if (isIPAddress(host)) return host
+    const labels = host.split('.')
+    for (let i = 1; i < labels.length; i++) {
+      if (this.isPublicSuffix(labels.slice(i).join('.'))) {
+        return labels.slice(i - 1).join('.')
       }
     }
+    return host
   }
 
   /**
-   * Generate Cookie header string
+   * Schemeful same-site check of a request
    */
-  getCookieHeader(domain?: string, path?: string): string {
-    const cookies = this.getCookies(domain, path)
-    return cookies
-      .filter((cookie) => !this.isCookieExpired(cookie))
-      .map((cookie) => `${cookie.name}=${cookie.value}`)
-      .join('; ')
+  private isSameSite(url: URL, context: CookieJarRequestContext): boolean {
+    if (context.siteForCookies === undefined) return true
+    const site = new URL(context.siteForCookies)
+    return (
+      isSecureScheme(site) === isSecureScheme(url) &&
+      this.getSite(site.hostname) === this.getSite(url.hostname)
+    )
+  }
+
+  private isSafeNavigation(context: CookieJarRequestContext): boolean {
+    return (
+      !!context.navigation &&
+      SAFE_METHODS.includes((context.method ?? 'GET').toUpperCase())
+    )
+  }
+
+  private restoreCookie(cookie: CookieJarItem) {
+    const key = this.getCookieKey(cookie.name, cookie.domain, cookie.path)
+    const previous = this.cookies.get(key)
+    this.cookies.set(key, cookie)
+    this.emitEvent({ type: 'set', cookie, previous })
+  }
+
+  private removeCookie(key: string, type: 'delete' | 'expire'): boolean {
+    const cookie = this.cookies.get(key)
+    if (!cookie) return false
+    this.cookies.delete(key)
+    this.emitEvent({ type, cookie })
+    return true
+  }
+
+  private emitEvent(event: CookieJarEvent) {
+    for (const listener of this.eventListeners.get(event.type) ?? []) {
+      try {
+        listener(event)
+      } catch {
+        // listeners should never break the jar
+      }
+    }
+  }
+
+  private emitChange() {
+    for (const listener of this.changeListeners) {
+      try {
+        listener()
+      } catch {
+        // listeners should never break the jar
+      }
+    }
+    const { storage, autosave = 1000 } = this.options
+    if (!storage || autosave === false) return
+    this.cancelAutosave()
+    this.saveTimer = setTimeout(() => {
+      this.save().catch((error) => this.options.onSaveError?.(error))
+    }, autosave)
+    // do not keep Node.js alive only to save, the exit hook saves it
+    ;(this.saveTimer as any).unref?.()
+    pendingJars.add(this)
+    installExitHook()
+  }
+
+  private cancelAutosave() {
+    clearTimeout(this.saveTimer)
+    this.saveTimer = undefined
+    pendingJars.delete(this)
   }
 
   /**
@@ -240,22 +828,25 @@ export class CookieJar {
    * Check if cookie is expired
    */
   private isCookieExpired(cookie: CookieJarItem): boolean {
-    const now = new Date()
+    const expirationTime = this.getExpirationTime(cookie)
+    return expirationTime !== undefined && Date.now() > expirationTime
+  }
 
-    // Check expires attribute
-    if (cookie.expires) {
-      return now > cookie.expires
+  /**
+   * Get the expiration timestamp (ms) of a cookie, `undefined` for session cookies
+   */
+  private getExpirationTime(cookie: CookieJarItem): number | undefined {
+    // Check maxAge expiration time, it takes precedence over expires
+    if (cookie.maxAge !== undefined && cookie._createdAt) {
+      return cookie._createdAt.getTime() + cookie.maxAge * 1000
     }
 
-    // Check maxAge expiration time
-    if (cookie.maxAge !== undefined && cookie._createdAt) {
-      const expirationTime = new Date(
-        cookie._createdAt.getTime() + cookie.maxAge * 1000
-      )
-      return now > expirationTime
+    // Check expires attribute
+    if (cookie.expires) {
+      return cookie.expires.getTime()
     }
 
-    return false
+    return undefined
   }
 
   /**
@@ -301,10 +892,12 @@ export class CookieJar {
             cookie.expires = new Date(attrValue)
             break
           case 'max-age':
-            cookie.maxAge = parseInt(attrValue, 10)
+            if (/^-?\d+$/.test(attrValue)) {
+              cookie.maxAge = parseInt(attrValue, 10)
+            }
             break
           case 'samesite':
-            cookie.sameSite = attrValue as 'Strict' | 'Lax' | 'None'
+            cookie.sameSite = SAME_SITE_VALUES[attrValue.toLowerCase()]
             break
         }
       }
@@ -324,3 +917,34 @@ export class CookieJar {
     return parts.map((p) => p.trim()).filter((p) => p.length > 0)
   }
 }
+
+function isIPAddress(host: string): boolean {
+  return /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.includes(':')
+}
+
+function isSecureScheme(url: URL): boolean {
+  return url.protocol === 'https:' || url.protocol === 'wss:'
+}
+
+/**
+ * Secure schemes and loopback hosts, which are trustworthy origins
+ */
+function isSecureURL(url: URL): boolean {
+  const host = url.hostname
+  return (
+    isSecureScheme(url) ||
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host.startsWith('127.') ||
+    host === '[::1]'
+  )
+}
+
+/**
+ * Default path of a cookie, the "directory" of the request path
+ */
+function getDefaultPath(path: string): string {
+  if (!path.startsWith('/')) return '/'
+  const index = path.lastIndexOf('/')
+  return index === 0 ? '/' : path.slice(0, index)
+}
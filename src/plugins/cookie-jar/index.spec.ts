@@ -1,6 +1,7 @@
 import { beforeEach, describe, expect, it } from 'vitest'
-import { pluginCookieJar } from './index.js'
+import { createPluginCookieJar, pluginCookieJar } from './index.js'
 import { CookieJar } from './CookieJar.js'
+import type { CookieJarStorage } from './storage.js'
 import { Fexios } from '@/fexios.js'
 import { MOCK_FETCH_BASE_URL, mockFetch } from '@/../test/mockFetch'
 
@@ -53,4 +54,112 @@ describe('Cookie Jar Plugin Integration', () => {
       )
     ).toBeDefined()
   })
+
+  it('should enforce SameSite with siteForCookies', async () => {
+    const host = new URL(MOCK_FETCH_BASE_URL).hostname
+    cookieJar.setCookie(
+      { name: 'strict', value: '1', sameSite: 'Strict' },
+      host
+    )
+    cookieJar.setCookie({ name: 'plain', value: '1' }, host)
+
+    const cookies: (string | null | undefined)[] = []
+    fexios.on('beforeActualFetch', (ctx) => {
+      cookies.push(ctx.rawRequest?.headers.get('cookie'))
+      return ctx
+    })
+
+    await fexios.get('')
+    await fexios.get('', { siteForCookies: 'https://other.site' })
+    expect(cookies).toEqual(['strict=1; plain=1', 'plain=1'])
+  })
+
+  it('should merge the cookies option and a user Cookie header', async () => {
+    const host = new URL(MOCK_FETCH_BASE_URL).hostname
+    cookieJar.setCookie({ name: 'a', value: 'jar' }, host)
+    cookieJar.setCookie({ name: 'b', value: 'jar' }, host)
+
+    const cookies: (string | null | undefined)[] = []
+    fexios.on('beforeActualFetch', (ctx) => {
+      cookies.push(ctx.rawRequest?.headers.get('cookie'))
+      return ctx
+    })
+
+    await fexios.get('', {
+      cookies: { b: 'extra', c: 'extra' },
+      headers: { cookie: 'c=user' },
+    })
+    await fexios.get('', { cookies: false, headers: { cookie: 'c=user' } })
+    await fexios.get('', { cookies: false })
+    expect(cookies).toEqual(['a=jar; b=extra; c=user', 'c=user', null])
+  })
+
+  it('should emit cookie events and respect storeCookies', async () => {
+    const events: string[] = []
+    fexios.on('cookie:set', (ctx) => {
+      expect(ctx.jar).toBe(fexios.cookieJar)
+      events.push(`set:${ctx.cookie.name}`)
+    })
+    fexios.on('cookie:delete', (ctx) => {
+      events.push(`delete:${ctx.cookie.name}`)
+    })
+
+    await fexios.get('/set-cookie?cookieName=a&cookieValue=1')
+    await fexios.get('/set-cookie?cookieName=b&cookieValue=1', {
+      storeCookies: false,
+    })
+    fexios.cookieJar!.clear()
+
+    // events of a replaced jar are forwarded
+    fexios.cookieJar = new CookieJar()
+    await fexios.get('/set-cookie?cookieName=c&cookieValue=1')
+    cookieJar.setCookie({ name: 'old', value: '1' }, 'example.com')
+
+    expect(events).toEqual(['set:a', 'delete:a', 'set:c'])
+  })
+
+  it('should load cookies from the storage of the plugin options', async () => {
+    const host = new URL(MOCK_FETCH_BASE_URL).hostname
+    const saved = new CookieJar()
+    saved.setCookie({ name: 'saved', value: '1' }, host)
+    let release!: () => void
+    const storage: CookieJarStorage = {
+      // loaded after the first request started
+      load: () =>
+        new Promise((resolve) => {
+          release = () => resolve(saved.toJSON())
+        }),
+      save: () => {},
+    }
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: mockFetch,
+    }).plugin(createPluginCookieJar({ storage, autosave: false }))
+    expect(fx.cookieJar!.options.storage).toBe(storage)
+
+    let cookie: string | null | undefined
+    fx.on('beforeActualFetch', (ctx) => {
+      cookie = ctx.rawRequest?.headers.get('cookie')
+      return ctx
+    })
+    const request = fx.get('')
+    release()
+    await request
+    expect(cookie).toBe('saved=1')
+  })
+
+  it('should report load errors of the plugin options', async () => {
+    const errors: unknown[] = []
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: mockFetch,
+    }).plugin(
+      createPluginCookieJar({
+        storage: { load: () => Promise.reject('broken'), save: () => {} },
+        onLoadError: (error) => errors.push(error),
+      })
+    )
+    await fx.get('')
+    expect(errors).toEqual(['broken'])
+  })
 })
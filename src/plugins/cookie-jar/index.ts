@@ -1,7 +1,21 @@
-import type { FexiosHookHandler, FexiosPlugin } from '@/index.js'
-import { CookieJar } from './CookieJar.js'
+import type {
+  Fexios,
+  FexiosContext,
+  FexiosHookHandler,
+  FexiosPlugin,
+  FexiosRequestOptions,
+} from '@/index.js'
+import {
+  CookieJar,
+  type CookieJarEvent,
+  type CookieJarEventType,
+  type CookieJarItem,
+  type CookieJarOptions,
+  type CookieJarRequestContext,
+} from './CookieJar.js'
 
 export * from './CookieJar.js'
+export * from './storage.js'
 
 const COOKIE_JAR_PLUGIN_UNINSTALLER = Symbol(
   'fexios-plugin-cookie-jar-uninstaller'
@@ -13,30 +27,167 @@ declare module 'fexios' {
   }
 }
 
-export const pluginCookieJar: FexiosPlugin = {
+declare module 'fexios/types' {
+  interface FexiosConfigs {
+    /**
+     * Site for cookies (e.g. `https://example.com`) to enforce `SameSite`, requires `pluginCookieJar`.
+     * Requests to other sites are cross-site. Every request is same-site if omitted.
+     */
+    siteForCookies?: string
+    /**
+     * Cookies sent with requests, requires `pluginCookieJar`:
+     * - `false` - do not send cookies of the jar
+     * - a record - extra cookies, they override cookies of the jar with the same name
+     *
+     * A `Cookie` header given by the user is merged and overrides both.
+     */
+    cookies?: false | Record<string, string>
+    /**
+     * Set to `false` to not store `Set-Cookie` of responses, requires `pluginCookieJar`
+     * @default true
+     */
+    storeCookies?: boolean
+  }
+  interface FexiosLifecycleEventMap {
+    'cookie:set': FexiosCookieEventContext
+    'cookie:delete': FexiosCookieEventContext
+    'cookie:expire': FexiosCookieEventContext
+  }
+}
+
+export interface FexiosCookieEventContext extends CookieJarEvent {
+  jar: CookieJar
+}
+
+/**
+ * Options of `createPluginCookieJar()`, passed to the `CookieJar` of `fx.cookieJar`
+ */
+export interface FexiosCookieJarPluginOptions extends CookieJarOptions {
+  /** Called when loading cookies from `storage` on install fails */
+  onLoadError?: (error: unknown) => void
+}
+
+const COOKIE_EVENT_TYPES: CookieJarEventType[] = ['set', 'delete', 'expire']
+
+/**
+ * Merge cookies into a `Cookie` header, `header` > `extra` > `jar` for the same name
+ */
+function mergeCookies(
+  jar: CookieJarItem[],
+  extra: Record<string, string> = {},
+  header?: string | null
+): string {
+  const pairs = (header ?? '')
+    .split(';')
+    .map((pair) => pair.trim())
+    .filter(Boolean)
+  const headerNames = new Set(pairs.map((pair) => pair.split('=')[0].trim()))
+  const extraPairs = Object.entries(extra).filter(
+    ([name]) => !headerNames.has(name)
+  )
+  const overridden = new Set([...headerNames, ...Object.keys(extra)])
+  return [
+    ...jar
+      .filter((cookie) => !overridden.has(cookie.name))
+      .map((cookie) => `${cookie.name}=${cookie.value}`),
+    ...extraPairs.map(([name, value]) => `${name}=${value}`),
+    ...pairs,
+  ].join('; ')
+}
+
+function setCookieHeader(
+  headers: FexiosRequestOptions['headers'] | undefined,
+  value: string
+): FexiosRequestOptions['headers'] {
+  if (headers instanceof Headers) {
+    const next = new Headers(headers)
+    next.set('Cookie', value)
+    return next
+  }
+  // drop the user header in any case, it is merged into `value`
+  const next = Object.fromEntries(
+    Object.entries(headers ?? {}).filter(
+      ([key]) => key.toLowerCase() !== 'cookie'
+    )
+  )
+  return { ...next, Cookie: value }
+}
+
+function getRequestContext(
+  fx: Fexios,
+  ctx: FexiosContext
+): CookieJarRequestContext {
+  return {
+    siteForCookies: ctx.request.siteForCookies ?? fx.baseConfigs.siteForCookies,
+    method: ctx.request.method,
+  }
+}
+
+/**
+ * Create the cookie jar plugin with options of its jar.
+ * With `storage`, cookies are loaded on install and requests wait for them.
+ *
+ * @example
+ * fx.plugin(
+ *   createPluginCookieJar({ storage: new CookieJarFileStorage('.cookies.json') })
+ * )
+ */
+export const createPluginCookieJar = (
+  options: FexiosCookieJarPluginOptions = {}
+): FexiosPlugin => ({
   name: 'fexios-plugin-cookie-jar',
   install(fx) {
-    const cookieJar = new CookieJar()
+    const { onLoadError, ...jarOptions } = options
+    let cookieJar: CookieJar | undefined
+    let unsubscribe: (() => void) | undefined
+    const forwardEvents = (jar: CookieJar) => {
+      const offs = COOKIE_EVENT_TYPES.map((type) =>
+        jar.on(type, (event) => {
+          fx.emit(`cookie:${type}`, { ...event, jar }).catch(() => {})
+        })
+      )
+      return () => offs.forEach((off) => off())
+    }
 
-    // Expose cookieJar instance on app for external access
-    fx.cookieJar = cookieJar
+    // Expose cookieJar instance on app for external access,
+    // events of a replaced jar are forwarded as well
+    Object.defineProperty(fx, 'cookieJar', {
+      configurable: true,
+      enumerable: true,
+      get: () => cookieJar,
+      set: (jar: CookieJar | undefined) => {
+        unsubscribe?.()
+        cookieJar = jar
+        unsubscribe = jar && forwardEvents(jar)
+      },
+    })
+    fx.cookieJar = new CookieJar(jarOptions)
+    // requests wait for it, so saved cookies never overwrite newly received ones
+    const loading = jarOptions.storage
+      ? fx.cookieJar.load().then(
+          () => {},
+          (error) => onLoadError?.(error)
+        )
+      : undefined
 
     // Request interceptor: add cookies to request headers
-    const onBeforeRequest: FexiosHookHandler<'beforeRequest'> = (ctx) => {
-      if (!fx.cookieJar) {
+    const onBeforeRequest: FexiosHookHandler<'beforeRequest'> = async (ctx) => {
+      await loading
+      const cookies = ctx.request.cookies ?? fx.baseConfigs.cookies
+      if (!fx.cookieJar || cookies === false) {
         return
       }
-      const url = new URL(ctx.request.url!)
-      const cookieHeader = fx.cookieJar.getCookieHeader(
-        url.hostname,
-        url.pathname
+      const jarCookies = fx.cookieJar.getCookiesForURL(
+        new URL(ctx.request.url!),
+        getRequestContext(fx, ctx)
       )
+      const userHeader = fx
+        .mergeHeaders(fx.baseConfigs.headers, ctx.request.headers)
+        .get('cookie')
+      const cookieHeader = mergeCookies(jarCookies, cookies, userHeader)
 
-      if (cookieHeader) {
-        ctx.request.headers = {
-          ...(ctx.request.headers as any),
-          Cookie: cookieHeader,
-        }
+      if (cookieHeader && cookieHeader !== userHeader) {
+        ctx.request.headers = setCookieHeader(ctx.request.headers, cookieHeader)
       }
 
       return ctx
@@ -45,13 +196,14 @@ export const pluginCookieJar: FexiosPlugin = {
 
     // Response interceptor: parse Set-Cookie header
     const onAfterResponse: FexiosHookHandler<'afterResponse'> = (ctx) => {
-      if (!fx.cookieJar) {
+      const storeCookies =
+        ctx.request.storeCookies ?? fx.baseConfigs.storeCookies
+      if (!fx.cookieJar || storeCookies === false) {
         return
       }
       const url = new URL(ctx.url!)
       const headersAny = ctx.response.rawResponse?.headers as any
-      const host = url.hostname
-      const reqPath = url.pathname
+      const context = getRequestContext(fx, ctx)
 
       // Prefer undici's getSetCookie() when available
       const getSetCookie =
@@ -63,14 +215,14 @@ export const pluginCookieJar: FexiosPlugin = {
         const list: string[] = getSetCookie()
         if (Array.isArray(list) && list.length > 0) {
           for (const sc of list) {
-            fx.cookieJar.parseSetCookieHeader(sc, host, reqPath)
+            fx.cookieJar.parseSetCookieHeader(sc, url, context)
           }
         }
       } else {
         const setCookieHeader =
           ctx.response.rawResponse?.headers?.get('set-cookie')
         if (setCookieHeader) {
-          fx.cookieJar.parseSetCookieHeader(setCookieHeader, host, reqPath)
+          fx.cookieJar.parseSetCookieHeader(setCookieHeader, url, context)
         }
       }
 
@@ -82,15 +234,17 @@ export const pluginCookieJar: FexiosPlugin = {
       fx.off('beforeRequest', onBeforeRequest)
       fx.off('afterResponse', onAfterResponse)
       fx.cookieJar = undefined
+      delete (fx as any).cookieJar
     }
     ;(fx as any)[COOKIE_JAR_PLUGIN_UNINSTALLER] = uninstaller as () => void
   },
   uninstall(fx) {
     const uninstaller = (fx as any)[COOKIE_JAR_PLUGIN_UNINSTALLER] as
-      | (() => void)
-      | undefined
+      (() => void) | undefined
     if (typeof uninstaller === 'function') {
       uninstaller()
     }
   },
-}
+})
+
+export const pluginCookieJar: FexiosPlugin = createPluginCookieJar()
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { mkdir, mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { CookieJar } from './CookieJar.js'
+import { CookieJarFileStorage, CookieJarWebStorage } from './storage.js'
+
+// minimal `Storage` backed by a Map
+const createStorage = (): Storage => {
+  const items = new Map<string, string>()
+  return {
+    get length() {
+      return items.size
+    },
+    key: (index) => [...items.keys()][index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, String(value)),
+    removeItem: (key) => void items.delete(key),
+    clear: () => items.clear(),
+  }
+}
+
+describe('CookieJarWebStorage', () => {
+  it('should save and load cookies as JSON', async () => {
+    const storage = createStorage()
+    const webStorage = new CookieJarWebStorage(undefined, storage)
+    expect(webStorage.key).toBe('fexios-cookie-jar')
+    expect(webStorage.load()).toBeNull()
+
+    const jar = new CookieJar({ storage: webStorage, autosave: false })
+    jar.setCookie({ name: 'a', value: '1' }, 'example.com')
+    await jar.save()
+    expect(JSON.parse(storage.getItem('fexios-cookie-jar')!)).toMatchObject({
+      version: 1,
+      cookies: [{ name: 'a', value: '1' }],
+    })
+
+    const loaded = await new CookieJar({ storage: webStorage }).load()
+    expect(loaded.getCookieHeader('example.com')).toBe('a=1')
+  })
+
+  it('should use a custom key', () => {
+    const storage = createStorage()
+    const webStorage = new CookieJarWebStorage('session', storage)
+    const jar = new CookieJar()
+    jar.setCookie({ name: 'a', value: '1' }, 'example.com')
+    webStorage.save(jar)
+    expect(storage.getItem('session')).toContain('"name":"a"')
+    expect(storage.getItem('fexios-cookie-jar')).toBeNull()
+  })
+})
+
+describe('CookieJarFileStorage', () => {
+  it('should save cookies as JSON by default', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'fexios-cookie-jar-'))
+    try {
+      const path = join(dir, 'cookies.json')
+      const storage = new CookieJarFileStorage(path)
+      const jar = new CookieJar({ storage, autosave: false })
+      jar.setCookie({ name: 'a', value: '1' }, 'example.com')
+      await jar.save()
+
+      const content = await readFile(path, 'utf8')
+      expect(JSON.parse(content)).toMatchObject({
+        version: 1,
+        cookies: [{ name: 'a', value: '1' }],
+      })
+      expect(await storage.load()).toBe(content)
+
+      const loaded = await new CookieJar({ storage }).load()
+      expect(loaded.getCookieHeader('example.com')).toBe('a=1')
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should throw errors other than a missing file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'fexios-cookie-jar-'))
+    try {
+      // a directory can not be read as a file
+      const path = join(dir, 'cookies.json')
+      await mkdir(path)
+      await expect(new CookieJarFileStorage(path).load()).rejects.toMatchObject(
+        { code: 'EISDIR' }
+      )
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+})
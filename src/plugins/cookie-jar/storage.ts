@@ -0,0 +1,71 @@
+import type { CookieJar, CookieJarJSON } from './CookieJar.js'
+
+type MaybePromise<T> = T | Promise<T>
+
+/**
+ * Storage of `CookieJar`.
+ * Implement this interface to persist cookies in IndexedDB, a database, etc.
+ */
+export interface CookieJarStorage {
+  /**
+   * Load saved cookies, a string is parsed as JSON if it starts with `{`, otherwise as Netscape `cookies.txt`
+   */
+  load(): MaybePromise<CookieJarJSON | string | null | undefined>
+  save(jar: CookieJar): MaybePromise<void>
+}
+
+/**
+ * Persist cookies in `localStorage`, `sessionStorage` or any `Storage`
+ */
+export class CookieJarWebStorage implements CookieJarStorage {
+  constructor(
+    readonly key = 'fexios-cookie-jar',
+    readonly storage: Storage = globalThis.localStorage
+  ) {}
+
+  load() {
+    return this.storage.getItem(this.key)
+  }
+
+  save(jar: CookieJar) {
+    this.storage.setItem(this.key, JSON.stringify(jar))
+  }
+}
+
+/**
+ * Persist cookies in a file, Node.js only
+ */
+export class CookieJarFileStorage implements CookieJarStorage {
+  constructor(
+    readonly path: string,
+    readonly options: {
+      /**
+       * `netscape` writes a `cookies.txt` file usable by curl and wget
+       * @default 'json'
+       */
+      format?: 'json' | 'netscape'
+    } = {}
+  ) {}
+
+  async load() {
+    const { readFile } = await import('node:fs/promises')
+    try {
+      return await readFile(this.path, 'utf8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return undefined
+      throw error
+    }
+  }
+
+  async save(jar: CookieJar) {
+    const { rename, writeFile } = await import('node:fs/promises')
+    const content =
+      this.options.format === 'netscape'
+        ? jar.toNetscape()
+        : JSON.stringify(jar, null, 2)
+    // write to a temp file first, so a crash never leaves a broken file
+    const temp = `${this.path}.${Date.now()}.tmp`
+    await writeFile(temp, content, { mode: 0o600 })
+    await rename(temp, this.path)
+  }
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest'
+import { Fexios, FexiosErrorCodes } from '@/index.js'
+import { MOCK_FETCH_BASE_URL } from '@/../test/mockFetch.js'
+import { getDedupeKey, pluginDedupe } from './index.js'
+
+const createSlowServer = (delay = 20) => {
+  const calls: Request[] = []
+  const fetch = async (req: Request | string | URL) => {
+    const request = req as Request
+    calls.push(request)
+    await new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, delay)
+      request.signal?.addEventListener('abort', () => {
+        clearTimeout(timer)
+        reject(request.signal.reason)
+      })
+    })
+    return Response.json({ n: calls.length, url: request.url })
+  }
+  return { fetch, calls }
+}
+
+describe('Dedupe Plugin', () => {
+  it('should build keys from method, url and selected headers', () => {
+    const req = new Request('https://example.com/me?a=1', {
+      headers: { authorization: 'Bearer x', 'x-other': '1' },
+    })
+    expect(getDedupeKey(req, ['authorization', 'accept-language'])).toBe(
+      'GET https://example.com/me?a=1\nauthorization: Bearer x'
+    )
+  })
+
+  it('should share one in-flight fetch for identical GETs', async () => {
+    const { fetch, calls } = createSlowServer()
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch }).plugin(
+      pluginDedupe
+    )
+
+    const results = await Promise.all([
+      fx.get('/me', { query: { a: 1 } }),
+      fx.get('/me?a=1'),
+      fx.get('/me', { query: { a: 1 } }),
+    ])
+    expect(calls.length).toBe(1)
+    expect(results.map((r) => r.runtime.dedupe?.joined)).toEqual([
+      false,
+      true,
+      true,
+    ])
+
+    // every caller gets its own unread rawResponse
+    const raws = new Set(results.map((r) => r.rawResponse))
+    expect(raws.size).toBe(3)
+    for (const ctx of results) {
+      expect(ctx.data).toEqual({ n: 1, url: `${MOCK_FETCH_BASE_URL}/me?a=1` })
+      expect(ctx.rawResponse.bodyUsed).toBe(false)
+      expect(await ctx.rawResponse.json()).toEqual(ctx.data)
+    }
+
+    // finished requests are not shared anymore
+    await fx.get('/me', { query: { a: 1 } })
+    expect(calls.length).toBe(2)
+  })
+
+  it('should not share requests with different keys', async () => {
+    const { fetch, calls } = createSlowServer()
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch }).plugin(
+      pluginDedupe
+    )
+
+    await Promise.all([
+      fx.get('/me', { headers: { authorization: 'a' } }),
+      fx.get('/me', { headers: { authorization: 'b' } }),
+      fx.get('/me', { query: { x: 1 } }),
+      fx.post('/me', { a: 1 }),
+      fx.get('/me', { dedupe: false }),
+    ])
+    expect(calls.length).toBe(5)
+  })
+
+  it('should keep the shared fetch alive until every caller aborts', async () => {
+    const { fetch, calls } = createSlowServer(30)
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch }).plugin(
+      pluginDedupe
+    )
+
+    const controller = new AbortController()
+    const aborted = fx.get('/me', { abortController: controller })
+    const kept = fx.get('/me')
+    setTimeout(() => controller.abort(), 5)
+
+    await expect(aborted).rejects.toMatchObject({
+      code: FexiosErrorCodes.ABORTED,
+    })
+    const res = await kept
+    expect(res.data.n).toBe(1)
+    expect(calls.length).toBe(1)
+    expect(calls[0].signal.aborted).toBe(false)
+
+    // all callers aborted: the shared fetch is aborted as well
+    const c1 = new AbortController()
+    const c2 = new AbortController()
+    const p1 = fx.get('/me', { abortController: c1 })
+    const p2 = fx.get('/me', { abortController: c2 })
+    setTimeout(() => {
+      c1.abort()
+      c2.abort()
+    }, 5)
+    await expect(p1).rejects.toBeTruthy()
+    await expect(p2).rejects.toBeTruthy()
+    expect(calls[1].signal.aborted).toBe(true)
+  })
+
+  it('should propagate errors to every caller', async () => {
+    let count = 0
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async () => {
+        count++
+        await new Promise((r) => setTimeout(r, 10))
+        throw new TypeError('fetch failed')
+      },
+    }).plugin(pluginDedupe)
+
+    const results = await Promise.allSettled([fx.get('/me'), fx.get('/me')])
+    expect(count).toBe(1)
+    for (const result of results) {
+      expect(result.status).toBe('rejected')
+      expect((result as PromiseRejectedResult).reason.code).toBe(
+        FexiosErrorCodes.NETWORK_ERROR
+      )
+    }
+  })
+})
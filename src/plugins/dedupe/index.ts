@@ -0,0 +1,205 @@
+import type {
+  FexiosHookHandler,
+  FexiosLifecycleEventMap,
+  FexiosMethods,
+  FexiosPlugin,
+  FetchLike,
+} from '@/types.js'
+import { resolveOptions } from '@/utils/resolve-options.js'
+
+const DEDUPE_PLUGIN_UNINSTALLER = Symbol('fexios-plugin-dedupe-uninstaller')
+
+export type FexiosDedupeOptions = {
+  /**
+   * Methods that can be deduplicated, requests with body are never deduplicated
+   * @default ['GET', 'HEAD']
+   */
+  methods: FexiosMethods[]
+  /**
+   * Request headers that are part of the key, requests with different values are not shared
+   * @default ['accept', 'accept-language', 'authorization', 'cookie']
+   */
+  headers: string[]
+  /**
+   * Custom key, return `undefined` to skip deduplication for the request
+   * @default `${method} ${url}` + selected headers
+   */
+  key?: (request: Request) => string | undefined
+}
+
+export type FexiosDedupeState = {
+  key: string
+  /** Whether the request joined an existing in-flight fetch */
+  joined: boolean
+}
+
+declare module 'fexios/types' {
+  interface FexiosConfigs {
+    /**
+     * In-flight deduplication policy, requires `pluginDedupe`.
+     * Set to `false` to disable deduplication.
+     */
+    dedupe?: Partial<FexiosDedupeOptions> | false
+  }
+  interface FexiosRuntimeContext {
+    /**
+     * Deduplication state, set when the request is sent by `pluginDedupe`
+     */
+    dedupe?: FexiosDedupeState
+  }
+}
+
+const DEFAULT_DEDUPE_OPTIONS: FexiosDedupeOptions = {
+  methods: ['GET', 'HEAD'],
+  headers: ['accept', 'accept-language', 'authorization', 'cookie'],
+}
+
+/**
+ * Build the default dedupe key of a request
+ * @example
+ * getDedupeKey(new Request('https://example.com/me'), ['authorization'])
+ * // => 'GET https://example.com/me' (no authorization header)
+ */
+export function getDedupeKey(request: Request, headers: string[]): string {
+  const lines = [`${request.method.toUpperCase()} ${request.url}`]
+  for (const name of headers) {
+    const value = request.headers.get(name)
+    if (value !== null) lines.push(`${name.toLowerCase()}: ${value}`)
+  }
+  return lines.join('\n')
+}
+
+type Waiter = {
+  resolve: (response: Response) => void
+  reject: (reason: any) => void
+  settled: boolean
+}
+
+type InFlight = {
+  controller: AbortController
+  waiters: Waiter[]
+}
+
+/**
+ * Join the in-flight fetch of the same key, or start a new one.
+ * Every caller gets its own response: clones for all but the last one.
+ */
+function createDedupeFetch(
+  ctx: FexiosLifecycleEventMap['beforeActualFetch'],
+  inflight: Map<string, InFlight>,
+  key: string,
+  fetch: FetchLike
+): FetchLike {
+  return (input) => {
+    const request = input as Request
+    let entry = inflight.get(key)
+    ctx.runtime.dedupe = { key, joined: !!entry }
+    if (!entry) {
+      const current: InFlight = {
+        controller: new AbortController(),
+        waiters: [],
+      }
+      entry = current
+      inflight.set(key, current)
+      Promise.resolve()
+        .then(() =>
+          fetch(new Request(request, { signal: current.controller.signal }))
+        )
+        .then(
+          (response) => {
+            if (inflight.get(key) === current) inflight.delete(key)
+            const active = current.waiters.filter((w) => !w.settled)
+            if (!active.length) {
+              response.body?.cancel().catch(() => {})
+              return
+            }
+            active.forEach((w, i) => {
+              w.settled = true
+              w.resolve(i === active.length - 1 ? response : response.clone())
+            })
+          },
+          (error) => {
+            if (inflight.get(key) === current) inflight.delete(key)
+            for (const w of current.waiters) {
+              if (w.settled) continue
+              w.settled = true
+              w.reject(error)
+            }
+          }
+        )
+    }
+
+    const shared = entry
+    return new Promise<Response>((resolve, reject) => {
+      const signal = request.signal
+      const waiter: Waiter = { resolve, reject, settled: false }
+      if (signal?.aborted) return reject(signal.reason)
+      shared.waiters.push(waiter)
+
+      // aborting one caller should not affect the others,
+      // the shared fetch is aborted only when nobody is waiting for it
+      signal?.addEventListener(
+        'abort',
+        () => {
+          if (waiter.settled) return
+          waiter.settled = true
+          reject(signal.reason)
+          if (shared.waiters.every((w) => w.settled)) {
+            if (inflight.get(key) === shared) inflight.delete(key)
+            shared.controller.abort(signal.reason)
+          }
+        },
+        { once: true }
+      )
+    })
+  }
+}
+
+export const pluginDedupe: FexiosPlugin = {
+  name: 'fexios-plugin-dedupe',
+  install(fx) {
+    const inflight = new Map<string, InFlight>()
+
+    const onBeforeActualFetch: FexiosHookHandler<'beforeActualFetch'> = (
+      ctx
+    ) => {
+      const options = resolveOptions(
+        DEFAULT_DEDUPE_OPTIONS,
+        fx.baseConfigs.dedupe,
+        ctx.request.dedupe
+      )
+      const rawRequest = ctx.request.rawRequest
+      if (!options || !rawRequest || rawRequest.body) return ctx
+
+      const method = rawRequest.method.toUpperCase()
+      if (!options.methods.some((m) => m.toUpperCase() === method)) {
+        return ctx
+      }
+
+      const key = options.key
+        ? options.key(rawRequest)
+        : getDedupeKey(rawRequest, options.headers)
+      if (key === undefined) return ctx
+
+      const fetch =
+        ctx.request.fetch || fx.baseConfigs.fetch || globalThis.fetch
+      ctx.request.fetch = createDedupeFetch(ctx, inflight, key, fetch)
+      return ctx
+    }
+    fx.on('beforeActualFetch', onBeforeActualFetch)
+    ;(fx as any)[DEDUPE_PLUGIN_UNINSTALLER] = () => {
+      fx.off('beforeActualFetch', onBeforeActualFetch)
+    }
+
+    return fx
+  },
+  uninstall(fx) {
+    const uninstaller = (fx as any)[DEDUPE_PLUGIN_UNINSTALLER] as
+      | (() => void)
+      | undefined
+    if (typeof uninstaller === 'function') {
+      uninstaller()
+      delete (fx as any)[DEDUPE_PLUGIN_UNINSTALLER]
+    }
+  },
+}
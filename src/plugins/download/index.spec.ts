@@ -0,0 +1,255 @@
+import { describe, expect, it } from 'vitest'
+import { Fexios, FexiosErrorCodes } from '@/index.js'
+import { MOCK_FETCH_BASE_URL } from '@/../test/mockFetch.js'
+import { FexiosMemoryDownloadStore, pluginDownload } from './index.js'
+
+const CONTENT = 'hello ranged download!'
+
+// a body sent in 4 bytes chunks, errors after `breakAt` bytes
+const createBody = (text: string, breakAt = Infinity) => {
+  const bytes = new TextEncoder().encode(text)
+  let offset = 0
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= breakAt)
+        return controller.error(new TypeError('terminated'))
+      if (offset >= bytes.length) return controller.close()
+      controller.enqueue(bytes.slice(offset, (offset += 4)))
+    },
+  })
+}
+
+// serves `files[pathname]` with Range / If-Range support
+const createFileServer = (
+  files: Record<string, { content: string; etag: string }>,
+  breakAt?: (request: Request) => number | void
+) => {
+  const requests: Request[] = []
+  const fetch = async (req: Request | string | URL) => {
+    const request = req as Request
+    requests.push(request)
+    const file = files[new URL(request.url).pathname]
+    const headers = {
+      etag: file.etag,
+      'accept-ranges': 'bytes',
+      'content-type': 'text/plain',
+    }
+    if (request.method === 'HEAD') {
+      return new Response(null, {
+        headers: { ...headers, 'content-length': String(file.content.length) },
+      })
+    }
+    const range = /bytes=(\d+)-(\d*)/.exec(request.headers.get('range') ?? '')
+    const ifRange = request.headers.get('if-range')
+    if (!range || (ifRange && ifRange !== file.etag)) {
+      return new Response(
+        createBody(file.content, breakAt?.(request) ?? Infinity),
+        {
+          headers: {
+            ...headers,
+            'content-length': String(file.content.length),
+          },
+        }
+      )
+    }
+    const start = Number(range[1])
+    const end = range[2] ? Number(range[2]) : file.content.length - 1
+    return new Response(
+      createBody(
+        file.content.slice(start, end + 1),
+        breakAt?.(request) ?? Infinity
+      ),
+      {
+        status: 206,
+        headers: {
+          ...headers,
+          'content-range': `bytes ${start}-${end}/${file.content.length}`,
+        },
+      }
+    )
+  }
+  return { fetch, requests }
+}
+
+describe('Download Plugin', () => {
+  it('should download byte ranges in parallel', async () => {
+    const server = createFileServer({
+      '/file.txt': { content: CONTENT, etag: '"v1"' },
+    })
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch: server.fetch })
+    fx.plugin(pluginDownload)
+    let hooked = 0
+    fx.on('beforeRequest', (ctx) => {
+      hooked++
+      return ctx
+    })
+
+    const progress: number[] = []
+    const result = await fx.download('/file.txt', {
+      connections: 3,
+      minSegmentSize: 4,
+      onProgress: (e) => progress.push(e.loaded),
+    })
+
+    expect(await result.blob!.text()).toBe(CONTENT)
+    expect(result.blob!.type).toBe('text/plain')
+    expect(result.size).toBe(CONTENT.length)
+    expect(result.etag).toBe('"v1"')
+    expect(hooked).toBe(4)
+    expect(server.requests.map((r) => r.method)).toEqual([
+      'HEAD',
+      'GET',
+      'GET',
+      'GET',
+    ])
+    expect(server.requests.map((r) => r.headers.get('range'))).toEqual([
+      null,
+      'bytes=0-7',
+      'bytes=8-15',
+      'bytes=16-21',
+    ])
+    expect(server.requests[1].headers.get('if-range')).toBe('"v1"')
+    expect(progress.at(-1)).toBe(CONTENT.length)
+    expect(fx.downloadStore).toBeInstanceOf(FexiosMemoryDownloadStore)
+    expect((fx.downloadStore as FexiosMemoryDownloadStore).size).toBe(0)
+  })
+
+  it('should resume an interrupted transfer with Range', async () => {
+    let broken = true
+    const server = createFileServer(
+      { '/file.txt': { content: CONTENT, etag: '"v1"' } },
+      () => {
+        if (broken) {
+          broken = false
+          return 8
+        }
+      }
+    )
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch: server.fetch })
+    fx.plugin(pluginDownload)
+
+    const result = await fx.download('/file.txt', { retryDelay: 1 })
+    expect(await result.blob!.text()).toBe(CONTENT)
+    expect(server.requests).toHaveLength(2)
+    expect(server.requests[0].headers.get('range')).toBeNull()
+    expect(server.requests[1].headers.get('range')).toBe('bytes=8-21')
+    expect(server.requests[1].headers.get('if-range')).toBe('"v1"')
+    expect(result.ctx!.response.status).toBe(206)
+  })
+
+  it('should restart when the file changes', async () => {
+    const files = { '/file.txt': { content: CONTENT, etag: '"v1"' } }
+    const server = createFileServer(files)
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch: server.fetch })
+    fx.plugin(pluginDownload)
+
+    const controller = new AbortController()
+    const error = await fx
+      .download('/file.txt', {
+        signal: controller.signal,
+        // pause after the first chunk
+        onProgress: () => controller.abort('pause'),
+      })
+      .catch((e) => e)
+    expect(error.code).toBe(FexiosErrorCodes.ABORTED)
+    expect(error.cause).toBe('pause')
+
+    // resume the unchanged file
+    server.requests.length = 0
+    const resumed = await fx.download('/file.txt')
+    expect(resumed.resumedBytes).toBe(4)
+    expect(await resumed.blob!.text()).toBe(CONTENT)
+
+    const controller2 = new AbortController()
+    await fx
+      .download('/file.txt', {
+        signal: controller2.signal,
+        onProgress: () => controller2.abort('pause'),
+      })
+      .catch(() => {})
+    files['/file.txt'] = { content: 'a changed file', etag: '"v2"' }
+    server.requests.length = 0
+    const restarted = await fx.download('/file.txt')
+    expect(server.requests[0].headers.get('if-range')).toBe('"v1"')
+    expect(restarted.resumedBytes).toBe(0)
+    expect(restarted.etag).toBe('"v2"')
+    expect(await restarted.blob!.text()).toBe('a changed file')
+  })
+
+  it('should download multiple files to writable streams', async () => {
+    const server = createFileServer({
+      '/a.txt': { content: CONTENT, etag: '"a"' },
+      '/b.txt': { content: 'another file', etag: '"b"' },
+    })
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch: server.fetch })
+    fx.plugin(pluginDownload)
+
+    const written: string[] = []
+    let closed = false
+    const writable = new WritableStream<Uint8Array>({
+      write: (chunk) => {
+        written.push(new TextDecoder().decode(chunk))
+      },
+      close: () => {
+        closed = true
+      },
+    })
+    const events: { index: number; loaded: number; total?: number }[] = []
+    const results = await fx.downloadAll(
+      ['/a.txt', { url: '/b.txt', writable }],
+      {
+        onProgress: ({ index, loaded, total }) =>
+          events.push({ index, loaded, total }),
+      }
+    )
+
+    expect(await results[0].blob!.text()).toBe(CONTENT)
+    expect(results[1].blob).toBeUndefined()
+    expect(written.join('')).toBe('another file')
+    expect(closed).toBe(true)
+    expect(new Set(events.map((e) => e.index))).toEqual(new Set([0, 1]))
+    expect(events.at(-1)).toMatchObject({
+      loaded: CONTENT.length + 'another file'.length,
+      total: CONTENT.length + 'another file'.length,
+    })
+  })
+
+  it('should stop listening to the signal once settled', async () => {
+    const server = createFileServer({
+      '/a.txt': { content: CONTENT, etag: '"a"' },
+      '/b.txt': { content: CONTENT, etag: '"b"' },
+    })
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch: server.fetch })
+    fx.plugin(pluginDownload)
+
+    const { signal } = new AbortController()
+    const listeners = new Set<unknown>()
+    const add = signal.addEventListener.bind(signal)
+    const remove = signal.removeEventListener.bind(signal)
+    signal.addEventListener = (type: string, listener: any, options?: any) => {
+      listeners.add(listener)
+      add(type, listener, options)
+    }
+    signal.removeEventListener = (type: string, listener: any) => {
+      listeners.delete(listener)
+      remove(type, listener)
+    }
+
+    await fx.download('/a.txt', { signal, connections: 2, minSegmentSize: 4 })
+    await fx.downloadAll(['/a.txt', '/b.txt'], { signal })
+    expect(listeners.size).toBe(0)
+  })
+
+  it('should limit the states kept in memory', () => {
+    const store = new FexiosMemoryDownloadStore(2)
+    store.set('a', { segments: [] })
+    store.set('b', { segments: [] })
+    store.set('a', { segments: [] })
+    store.set('c', { segments: [] })
+    expect(store.size).toBe(2)
+    expect(store.get('b')).toBeUndefined()
+    expect(store.get('a')).toBeDefined()
+    store.clear()
+    expect(store.size).toBe(0)
+  })
+})
@@ -0,0 +1,643 @@
+import type { Fexios } from '@/fexios.js'
+import type {
+  FexiosFinalContext,
+  FexiosPlugin,
+  FexiosProgressEvent,
+  FexiosRequestOptions,
+} from '@/types.js'
+import {
+  FexiosError,
+  FexiosErrorCodes,
+  FexiosResponseError,
+} from '@/models/errors.js'
+import { getContentLength } from '@/utils/progress.js'
+import { resolveOptions } from '@/utils/resolve-options.js'
+import { linkSignal } from '@/utils/signal.js'
+import { sleep } from '@/utils/sleep.js'
+import { computeBackoff, parseRetryAfter } from '../retry/index.js'
+import {
+  FexiosMemoryDownloadStore,
+  type FexiosDownloadSegment,
+  type FexiosDownloadState,
+  type FexiosDownloadStore,
+} from './storage.js'
+
+export * from './storage.js'
+
+export type FexiosDownloadOptions = {
+  /**
+   * Parallel connections, each downloads a byte range of the file.
+   * Requires `Accept-Ranges: bytes` and `Content-Length` in the response of a `HEAD` request,
+   * ignored when downloading to a `writable`.
+   * @default 1
+   */
+  connections: number
+  /**
+   * Min size of each byte range when splitting
+   * @default 1024 * 1024
+   */
+  minSegmentSize: number
+  /**
+   * Max retries of each request, on network errors, timeouts and 408/429/5xx responses.
+   * Retried requests continue from the received bytes.
+   * @default 3
+   */
+  retries: number
+  /**
+   * Base delay (ms) of the exponential backoff between retries, `Retry-After` is honored
+   * @default 1000
+   */
+  retryDelay: number
+  /**
+   * Store of resume states, states are deleted once the download completes.
+   * Pass it per call, base configs are cloned when merged.
+   * @default fx.downloadStore
+   */
+  store?: FexiosDownloadStore
+  /**
+   * Key of the resume state
+   * @default the URL
+   */
+  key?: string
+  /**
+   * Write the file to this stream instead of assembling a `Blob`,
+   * e.g. `Writable.toWeb(fs.createWriteStream(path))` in Node.js.
+   * It is closed once the download completes. To resume, pass a stream appending to the written data.
+   */
+  writable?: WritableStream<Uint8Array>
+  /** Called when data is received */
+  onProgress?: (event: FexiosProgressEvent) => void
+  /** Abort the download, it rejects with `FexiosErrorCodes.ABORTED` and keeps the resume state */
+  signal?: AbortSignal
+  /** Extra options of every request, e.g. `headers`, `query` or `timeout` */
+  request?: Partial<FexiosRequestOptions>
+}
+
+export type FexiosDownloadResult = {
+  url: string
+  size: number
+  /** The file, `undefined` when downloading to a `writable` */
+  blob?: Blob
+  etag?: string
+  /** Bytes skipped because they were downloaded before */
+  resumedBytes: number
+  /** Context of the last request, `undefined` if every byte was downloaded before */
+  ctx?: FexiosFinalContext
+}
+
+export type FexiosDownloadItem =
+  | string
+  | URL
+  | ({ url: string | URL } & Omit<Partial<FexiosDownloadOptions>, 'signal'>)
+
+export interface FexiosDownloadAllProgressEvent extends FexiosProgressEvent {
+  /** Index of the file that made progress */
+  index: number
+  /** Progress of that file */
+  file: FexiosProgressEvent
+}
+
+export type FexiosDownloadAllOptions = Omit<
+  Partial<FexiosDownloadOptions>,
+  'key' | 'writable' | 'onProgress'
+> & {
+  /**
+   * Files downloaded at the same time
+   * @default 2
+   */
+  concurrency?: number
+  /**
+   * Overall progress, called when any file makes progress.
+   * `total` is `undefined` until the sizes of all files are known.
+   */
+  onProgress?: (event: FexiosDownloadAllProgressEvent) => void
+}
+
+declare module 'fexios' {
+  interface Fexios {
+    /**
+     * Default resume state store of `pluginDownload`, replace it to use a custom adapter
+     */
+    downloadStore?: FexiosDownloadStore
+    /**
+     * Download a file with `Range` resume support, requires `pluginDownload`.
+     * Every request is sent with `fx.request()`, so hooks, timeouts and the cookie jar apply.
+     */
+    download: (
+      url: string | URL,
+      options?: Partial<FexiosDownloadOptions>
+    ) => Promise<FexiosDownloadResult>
+    /**
+     * Download multiple files, results are in the order of `items`.
+     * Rejects and aborts the others once a file fails, their resume states are kept.
+     */
+    downloadAll: (
+      items: FexiosDownloadItem[],
+      options?: FexiosDownloadAllOptions
+    ) => Promise<FexiosDownloadResult[]>
+  }
+}
+
+declare module 'fexios/types' {
+  interface FexiosConfigs {
+    /**
+     * Default options of `fx.download()`, requires `pluginDownload`
+     */
+    download?: Partial<FexiosDownloadOptions>
+  }
+}
+
+const DEFAULT_DOWNLOAD_OPTIONS: FexiosDownloadOptions = {
+  connections: 1,
+  minSegmentSize: 1024 * 1024,
+  retries: 3,
+  retryDelay: 1000,
+}
+
+const RETRY_STATUS_CODES = [408, 429, 500, 502, 503, 504]
+const RETRY_ERROR_CODES: string[] = [
+  FexiosErrorCodes.TIMEOUT,
+  FexiosErrorCodes.NETWORK_ERROR,
+]
+
+/**
+ * Thrown when the file on the server no longer matches the resume state
+ */
+class FexiosDownloadRestart extends Error {}
+
+/**
+ * Run one download
+ */
+class FexiosDownloadTask {
+  /** Aborted by the user, or when a segment fails */
+  private controller!: AbortController
+  private unlink?: () => void
+  private state!: FexiosDownloadState
+  private writer?: WritableStreamDefaultWriter<Uint8Array>
+  private last?: FexiosFinalContext
+  private startedAt = Date.now()
+  private loaded = 0
+  private resumed = 0
+
+  constructor(
+    readonly fx: Fexios,
+    readonly url: string,
+    readonly options: FexiosDownloadOptions,
+    readonly store: FexiosDownloadStore,
+    readonly key: string
+  ) {}
+
+  get signal() {
+    return this.controller.signal
+  }
+
+  async run(): Promise<FexiosDownloadResult> {
+    this.link()
+    try {
+      return await this.download()
+    } finally {
+      this.unlink?.()
+    }
+  }
+
+  /**
+   * Replace the controller with a new one linked to the signal of the user
+   */
+  private link() {
+    this.unlink?.()
+    this.controller = new AbortController()
+    this.unlink = linkSignal(this.controller, this.options.signal)
+  }
+
+  private async download(): Promise<FexiosDownloadResult> {
+    const { writable } = this.options
+    const saved = await this.store.get(this.key)
+    this.state = saved && this.canResume(saved) ? saved : await this.plan()
+    this.loaded = this.resumed = this.state.segments.reduce(
+      (bytes, segment) => bytes + segment.loaded,
+      0
+    )
+    await this.store.set(this.key, this.state)
+
+    this.writer = writable?.getWriter()
+    try {
+      for (let restarted = false; ; restarted = true) {
+        try {
+          await this.runSegments()
+          break
+        } catch (error) {
+          if (!(error instanceof FexiosDownloadRestart)) throw error
+          // written data can not be taken back
+          if (restarted || (this.writer && this.loaded > 0)) {
+            await this.store.delete(this.key)
+            throw new FexiosError(
+              FexiosErrorCodes.DOWNLOAD_RESOURCE_CHANGED,
+              'The file has changed on the server during the download',
+              this.last
+            )
+          }
+          this.state = { segments: [{ start: 0, loaded: 0 }] }
+          this.loaded = this.resumed = 0
+          await this.store.set(this.key, this.state)
+        }
+      }
+      await this.writer?.close()
+    } finally {
+      this.writer?.releaseLock()
+    }
+    await this.store.delete(this.key)
+
+    return {
+      url: this.url,
+      size: this.loaded,
+      blob: writable
+        ? undefined
+        : new Blob(
+            this.state.segments.flatMap((segment) => segment.parts ?? []),
+            { type: this.last?.headers.get('content-type') ?? '' }
+          ),
+      etag: this.state.etag,
+      resumedBytes: this.resumed,
+      ctx: this.last,
+    }
+  }
+
+  private canResume(state: FexiosDownloadState) {
+    const { segments } = state
+    // a writable only receives data in order, a blob needs the received parts
+    return this.options.writable
+      ? segments.length === 1 && !segments[0].parts
+      : segments.every((segment) => !segment.loaded || segment.parts)
+  }
+
+  /**
+   * Split the file into byte ranges if the server supports it
+   */
+  private async plan(): Promise<FexiosDownloadState> {
+    const { connections, minSegmentSize, writable } = this.options
+    if (connections > 1 && !writable) {
+      const ctx = await this.retry(() => this.request({ method: 'HEAD' }))
+      const size = getContentLength(ctx.headers)
+      const count =
+        size === undefined
+          ? 0
+          : Math.min(connections, Math.floor(size / minSegmentSize))
+      if (
+        ctx.headers.get('accept-ranges')?.toLowerCase() === 'bytes' &&
+        count > 1
+      ) {
+        const segmentSize = Math.ceil(size! / count)
+        return {
+          size,
+          etag: ctx.headers.get('etag') ?? undefined,
+          lastModified: ctx.headers.get('last-modified') ?? undefined,
+          segments: Array.from({ length: count }, (_, index) => ({
+            start: index * segmentSize,
+            end: Math.min(size!, (index + 1) * segmentSize),
+            loaded: 0,
+          })),
+        }
+      }
+    }
+    return { segments: [{ start: 0, loaded: 0 }] }
+  }
+
+  private async runSegments() {
+    this.link()
+    const pending = this.state.segments.filter(
+      (segment) =>
+        segment.end === undefined ||
+        segment.start + segment.loaded < segment.end
+    )
+    try {
+      await Promise.all(pending.map((segment) => this.downloadSegment(segment)))
+    } catch (error) {
+      // stop the other segments
+      this.controller.abort(error)
+      throw error
+    }
+  }
+
+  private async downloadSegment(segment: FexiosDownloadSegment) {
+    await this.retry(async () => {
+      const offset = segment.start + segment.loaded
+      if (segment.end !== undefined && offset >= segment.end) return
+      const ranged = offset > 0 || this.state.segments.length > 1
+      const headers: Record<string, string> = {}
+      if (ranged) {
+        headers.Range = `bytes=${offset}-${segment.end === undefined ? '' : segment.end - 1}`
+        // weak ETags can not be used in `If-Range`
+        const validator =
+          this.state.etag && !this.state.etag.startsWith('W/')
+            ? this.state.etag
+            : this.state.lastModified
+        if (validator) headers['If-Range'] = validator
+      }
+
+      let ctx: FexiosFinalContext
+      try {
+        ctx = await this.request({ headers, responseType: 'stream' })
+      } catch (error) {
+        // the range is out of the file
+        if (
+          error instanceof FexiosResponseError &&
+          error.response.status === 416
+        ) {
+          throw new FexiosDownloadRestart()
+        }
+        throw error
+      }
+      const stream = ctx.data as ReadableStream<Uint8Array>
+      try {
+        this.accept(ctx, segment, offset)
+      } catch (error) {
+        await stream.cancel().catch(() => {})
+        throw error
+      }
+      this.last = ctx
+      try {
+        await this.consume(stream, segment)
+      } finally {
+        await this.store.set(this.key, this.state)
+      }
+    })
+  }
+
+  /**
+   * Check the response matches the resume state, and fill the state with it
+   */
+  private accept(
+    ctx: FexiosFinalContext,
+    segment: FexiosDownloadSegment,
+    offset: number
+  ) {
+    const { headers } = ctx
+    let size: number | undefined
+    if (ctx.response.status === 206) {
+      const match = /^bytes (\d+)-\d+\/(\d+|\*)$/i.exec(
+        headers.get('content-range') ?? ''
+      )
+      if (!match || Number(match[1]) !== offset) {
+        throw new FexiosDownloadRestart()
+      }
+      size = match[2] === '*' ? undefined : Number(match[2])
+    } else {
+      // the server ignored `Range`, or `If-Range` does not match
+      if (offset > 0 || this.state.segments.length > 1) {
+        throw new FexiosDownloadRestart()
+      }
+      size = getContentLength(headers)
+    }
+
+    const { state } = this
+    const etag = headers.get('etag') ?? undefined
+    if (
+      (state.etag && etag && state.etag !== etag) ||
+      (state.size !== undefined && size !== undefined && state.size !== size)
+    ) {
+      throw new FexiosDownloadRestart()
+    }
+    state.etag ??= etag
+    state.lastModified ??= headers.get('last-modified') ?? undefined
+    state.size ??= size
+    if (segment.end === undefined && state.size !== undefined) {
+      segment.end = state.size
+    }
+  }
+
+  private async consume(
+    stream: ReadableStream<Uint8Array>,
+    segment: FexiosDownloadSegment
+  ) {
+    const reader = stream.getReader()
+    const received: Uint8Array[] = []
+    const remaining = () =>
+      segment.end === undefined
+        ? Infinity
+        : segment.end - segment.start - segment.loaded
+    try {
+      while (remaining() > 0) {
+        this.signal.throwIfAborted()
+        const { done, value } = await reader.read()
+        if (done) break
+        const chunk = value.subarray(0, remaining())
+        if (this.writer) await this.writer.write(chunk)
+        else received.push(chunk)
+        segment.loaded += chunk.byteLength
+        this.report(chunk.byteLength)
+      }
+    } catch (error) {
+      if (this.signal.aborted || error instanceof FexiosError) throw error
+      throw new FexiosError(
+        FexiosErrorCodes.NETWORK_ERROR,
+        'Download connection is interrupted',
+        undefined,
+        { cause: error }
+      )
+    } finally {
+      if (received.length) {
+        ;(segment.parts ??= []).push(new Blob(received as BlobPart[]))
+      }
+      reader.cancel().catch(() => {})
+    }
+    if (remaining() > 0 && remaining() !== Infinity) {
+      throw new FexiosError(
+        FexiosErrorCodes.NETWORK_ERROR,
+        'Download connection is closed before the range completes'
+      )
+    }
+  }
+
+  private request(
+    options: Partial<FexiosRequestOptions>
+  ): Promise<FexiosFinalContext> {
+    const extra = this.options.request || {}
+    return this.fx.request(this.url, {
+      // retried by the task itself, keep `pluginRetry` out of it
+      retry: false,
+      ...extra,
+      ...options,
+      headers: this.fx.mergeHeaders(
+        extra.headers as Record<string, unknown>,
+        options.headers as Record<string, unknown>
+      ),
+      signal: this.signal,
+    })
+  }
+
+  /**
+   * Run a request with retries
+   */
+  private async retry<T>(task: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await task()
+      } catch (error) {
+        const status =
+          error instanceof FexiosResponseError
+            ? error.response.status
+            : undefined
+        const retryable =
+          status !== undefined
+            ? RETRY_STATUS_CODES.includes(status)
+            : error instanceof FexiosError &&
+              RETRY_ERROR_CODES.includes(error.code)
+        if (attempt > this.options.retries || !retryable || this.signal.aborted)
+          throw error
+        const retryAfter =
+          error instanceof FexiosResponseError
+            ? parseRetryAfter(error.response.headers.get('retry-after'))
+            : undefined
+        await sleep(
+          retryAfter ??
+            computeBackoff(attempt, this.options.retryDelay, 30_000),
+          this.signal
+        )
+      }
+    }
+  }
+
+  private report(bytes: number) {
+    this.loaded += bytes
+    const total = this.state.size
+    const elapsed = (Date.now() - this.startedAt) / 1000
+    const rate =
+      elapsed > 0 ? (this.loaded - this.resumed) / elapsed : undefined
+    try {
+      this.options.onProgress?.({
+        loaded: this.loaded,
+        total,
+        bytes,
+        progress: total ? Math.min(1, this.loaded / total) : undefined,
+        rate,
+        estimated:
+          total && rate ? Math.max(0, (total - this.loaded) / rate) : undefined,
+      })
+    } catch {
+      // progress callback should never break the download
+    }
+  }
+}
+
+/**
+ * Sum up progress of multiple files
+ */
+function sumProgress(
+  events: (FexiosProgressEvent | undefined)[],
+  bytes: number,
+  startedAt: number
+): FexiosProgressEvent {
+  let loaded = 0
+  let total: number | undefined = 0
+  for (const event of events) {
+    loaded += event?.loaded ?? 0
+    total =
+      total === undefined || event?.total === undefined
+        ? undefined
+        : total + event.total
+  }
+  const elapsed = (Date.now() - startedAt) / 1000
+  const rate = elapsed > 0 ? loaded / elapsed : undefined
+  return {
+    loaded,
+    total,
+    bytes,
+    progress: total ? Math.min(1, loaded / total) : undefined,
+    rate,
+    estimated: total && rate ? Math.max(0, (total - loaded) / rate) : undefined,
+  }
+}
+
+export const pluginDownload: FexiosPlugin = {
+  name: 'fexios-plugin-download',
+  install(fx) {
+    fx.downloadStore = new FexiosMemoryDownloadStore()
+
+    fx.download = async (url, options) => {
+      const resolved = resolveOptions(
+        DEFAULT_DOWNLOAD_OPTIONS,
+        fx.baseConfigs.download,
+        options
+      )
+      const href = url.toString()
+      const task = new FexiosDownloadTask(
+        fx,
+        href,
+        resolved,
+        resolved.store ?? fx.downloadStore ?? new FexiosMemoryDownloadStore(),
+        resolved.key ?? href
+      )
+      try {
+        return await task.run()
+      } catch (error) {
+        // e.g. aborted while reading the body or waiting for a retry
+        if (!(error instanceof FexiosError) && resolved.signal?.aborted) {
+          throw new FexiosError(
+            FexiosErrorCodes.ABORTED,
+            'Download aborted',
+            undefined,
+            { cause: error }
+          )
+        }
+        throw error
+      }
+    }
+
+    fx.downloadAll = async (items, options = {}) => {
+      const { concurrency = 2, onProgress, signal, ...defaults } = options
+      const controller = new AbortController()
+      const unlink = linkSignal(controller, signal)
+      const startedAt = Date.now()
+      const events: (FexiosProgressEvent | undefined)[] = new Array(
+        items.length
+      ).fill(undefined)
+      const results: FexiosDownloadResult[] = []
+
+      let next = 0
+      const worker = async () => {
+        while (next < items.length) {
+          const index = next++
+          const item = items[index]
+          const { url, ...itemOptions } =
+            typeof item === 'string' || item instanceof URL
+              ? { url: item }
+              : item
+          results[index] = await fx.download(url, {
+            ...defaults,
+            ...itemOptions,
+            signal: controller.signal,
+            onProgress: (event) => {
+              events[index] = event
+              itemOptions.onProgress?.(event)
+              onProgress?.({
+                ...sumProgress(events, event.bytes, startedAt),
+                index,
+                file: event,
+              })
+            },
+          })
+        }
+      }
+
+      try {
+        await Promise.all(
+          Array.from({ length: Math.min(concurrency, items.length) }, worker)
+        )
+      } catch (error) {
+        // stop the other files
+        controller.abort(error)
+        throw error
+      } finally {
+        unlink()
+      }
+      return results
+    }
+
+    return fx
+  },
+  uninstall(fx) {
+    fx.download = undefined as any
+    fx.downloadAll = undefined as any
+    fx.downloadStore = undefined
+  },
+}
@@ -0,0 +1,77 @@
+/**
+ * A byte range of a download, downloaded by one connection
+ */
+export type FexiosDownloadSegment = {
+  start: number
+  /** Exclusive end, `undefined` means till the end of the file */
+  end?: number
+  /** Bytes received */
+  loaded: number
+  /** Received data, `undefined` when downloading to a `writable` */
+  parts?: Blob[]
+}
+
+/**
+ * Resume state of a download
+ */
+export type FexiosDownloadState = {
+  /** File size, `undefined` if unknown yet */
+  size?: number
+  etag?: string
+  lastModified?: string
+  segments: FexiosDownloadSegment[]
+}
+
+type MaybePromise<T> = T | Promise<T>
+
+/**
+ * Resume state store of `pluginDownload`.
+ * States contain `Blob` parts, use a store that can keep them (memory, IndexedDB, etc.).
+ */
+export interface FexiosDownloadStore {
+  get(key: string): MaybePromise<FexiosDownloadState | undefined>
+  set(key: string, state: FexiosDownloadState): MaybePromise<void>
+  delete(key: string): MaybePromise<void>
+}
+
+/**
+ * In-memory store, the default store of `pluginDownload`.
+ * States are lost on reload, so downloads can only be resumed in the same session.
+ * States of failed `Blob` downloads hold their received parts in memory,
+ * the least recently saved ones are dropped beyond `maxStates`.
+ */
+export class FexiosMemoryDownloadStore implements FexiosDownloadStore {
+  private states = new Map<string, FexiosDownloadState>()
+
+  /**
+   * @param maxStates max states kept, `Infinity` to keep all
+   */
+  constructor(readonly maxStates = 16) {}
+
+  get size() {
+    return this.states.size
+  }
+
+  get(key: string) {
+    return this.states.get(key)
+  }
+
+  set(key: string, state: FexiosDownloadState) {
+    // move it to the end, as the most recently saved
+    this.states.delete(key)
+    this.states.set(key, state)
+    for (const oldest of this.states.keys()) {
+      if (this.states.size <= this.maxStates) break
+      this.states.delete(oldest)
+    }
+  }
+
+  delete(key: string) {
+    this.states.delete(key)
+  }
+
+  /** Drop all states, e.g. to free the received data of failed downloads */
+  clear() {
+    this.states.clear()
+  }
+}
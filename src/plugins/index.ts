@@ -2,3 +2,12 @@ export * from './cookie-jar/index.js'
 export * from './post-form/index.js'
 export * from './sse/index.js'
 export * from './ws/index.js'
+export * from './retry/index.js'
+export * from './json-rpc/index.js'
+export * from './cache/index.js'
+export * from './dedupe/index.js'
+export * from './queue/index.js'
+export * from './rate-limit/index.js'
+export * from './upload/index.js'
+export * from './download/index.js'
+export * from './auth/index.js'
@@ -0,0 +1,369 @@
+import { FexiosError, FexiosErrorCodes } from '@/models/errors.js'
+
+/**
+ * Minimal socket interface used by the client,
+ * satisfied by both `WebSocket` and `FexiosWebSocket`
+ */
+export type FexiosJsonRpcTransport = {
+  /** Checked before replying to the peer when available, `1` is open */
+  readyState?: number
+  send(data: string): void
+  addEventListener(type: string, listener: (event: any) => void): void
+  removeEventListener(type: string, listener: (event: any) => void): void
+}
+
+export type FexiosJsonRpcId = string | number
+
+export type FexiosJsonRpcRequest = {
+  jsonrpc: '2.0'
+  method: string
+  params?: unknown[] | Record<string, unknown>
+  id?: FexiosJsonRpcId
+}
+
+export type FexiosJsonRpcResponse<T = unknown> = {
+  jsonrpc: '2.0'
+  id: FexiosJsonRpcId | null
+} & (
+  | { result: T; error?: undefined }
+  | { result?: undefined; error: FexiosJsonRpcErrorObject }
+)
+
+export type FexiosJsonRpcErrorObject = {
+  code: number
+  message: string
+  data?: unknown
+}
+
+export type FexiosJsonRpcCallOptions = {
+  /**
+   * Reject with `TIMEOUT` if no response is received in time (ms), `0` to disable
+   * @default client.timeout
+   */
+  timeout?: number
+}
+
+export type FexiosJsonRpcBatchItem = {
+  method: string
+  params?: FexiosJsonRpcRequest['params']
+  /**
+   * Send as a notification, no result will be returned for this item
+   */
+  notification?: boolean
+}
+
+export type FexiosJsonRpcClientOptions = {
+  /**
+   * Default call timeout (ms), `0` to disable
+   * @default 30000
+   */
+  timeout?: number
+}
+
+type NotificationHandler = (params: any, message: FexiosJsonRpcRequest) => void
+
+type PendingCall = {
+  method: string
+  resolve: (value: any) => void
+  reject: (reason: any) => void
+  timer?: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Error response returned by the remote peer.
+ * `code` is always `RPC_ERROR`, the JSON-RPC error code is exposed as `rpcCode`.
+ */
+export class FexiosJsonRpcError extends FexiosError {
+  name = 'FexiosJsonRpcError'
+  readonly rpcCode: number
+  readonly data?: unknown
+  constructor(
+    readonly method: string,
+    error: FexiosJsonRpcErrorObject
+  ) {
+    super(FexiosErrorCodes.RPC_ERROR, error.message)
+    this.rpcCode = error.code
+    this.data = error.data
+  }
+  static is(e: any): e is FexiosJsonRpcError {
+    return e instanceof FexiosJsonRpcError
+  }
+}
+
+/**
+ * JSON-RPC 2.0 client over a WebSocket-like transport.
+ *
+ * @see https://www.jsonrpc.org/specification
+ */
+export class FexiosJsonRpcClient {
+  readonly timeout: number
+  private nextId = 1
+  private closed = false
+  private pending = new Map<FexiosJsonRpcId, PendingCall>()
+  private handlers = new Map<string, Set<NotificationHandler>>()
+
+  constructor(
+    readonly socket: FexiosJsonRpcTransport,
+    options: FexiosJsonRpcClientOptions = {}
+  ) {
+    this.timeout = options.timeout ?? 30_000
+    socket.addEventListener('message', this.onMessage)
+    socket.addEventListener('close', this.onClose)
+    // FexiosWebSocket: responses of in-flight calls are lost with the old socket
+    socket.addEventListener('reconnecting', this.onReconnecting)
+  }
+
+  /**
+   * Count of calls waiting for responses
+   */
+  get pendingCount() {
+    return this.pending.size
+  }
+
+  /**
+   * Call a remote method and wait for its result
+   * @throws FexiosJsonRpcError if the peer responds with an error
+   * @throws FexiosError `TIMEOUT` / `RPC_CONNECTION_CLOSED`
+   */
+  async call<T = unknown>(
+    method: string,
+    params?: FexiosJsonRpcRequest['params'],
+    options?: FexiosJsonRpcCallOptions
+  ): Promise<T> {
+    const { message, promise } = this.prepareCall<T>(method, params, options)
+    this.write(message)
+    return promise
+  }
+
+  /**
+   * Send a notification, the peer will not reply
+   */
+  notify(method: string, params?: FexiosJsonRpcRequest['params']): void {
+    this.assertOpen()
+    this.write(this.createRequest(method, params))
+  }
+
+  /**
+   * Send multiple requests in one message.
+   * Resolves with settled results of non-notification items, in the same order.
+   */
+  async batch(
+    items: FexiosJsonRpcBatchItem[],
+    options?: FexiosJsonRpcCallOptions
+  ): Promise<PromiseSettledResult<unknown>[]> {
+    const messages: FexiosJsonRpcRequest[] = []
+    const promises: Promise<unknown>[] = []
+    for (const item of items) {
+      if (item.notification) {
+        this.assertOpen()
+        messages.push(this.createRequest(item.method, item.params))
+        continue
+      }
+      const { message, promise } = this.prepareCall(
+        item.method,
+        item.params,
+        options
+      )
+      messages.push(message)
+      promises.push(promise)
+    }
+    if (messages.length) this.write(messages)
+    return Promise.allSettled(promises)
+  }
+
+  /**
+   * Subscribe to notifications of the given method sent by the peer
+   * @returns unsubscribe function
+   */
+  subscribe<T = any>(
+    method: string,
+    handler: (params: T, message: FexiosJsonRpcRequest) => void
+  ): () => void {
+    let set = this.handlers.get(method)
+    if (!set) {
+      set = new Set()
+      this.handlers.set(method, set)
+    }
+    set.add(handler)
+    return () => this.unsubscribe(method, handler)
+  }
+
+  unsubscribe(method: string, handler?: NotificationHandler): void {
+    if (!handler) {
+      this.handlers.delete(method)
+      return
+    }
+    this.handlers.get(method)?.delete(handler)
+  }
+
+  /**
+   * Detach from the socket and reject all in-flight calls.
+   * The socket itself is not closed.
+   */
+  dispose(): void {
+    if (this.closed) return
+    this.closed = true
+    this.socket.removeEventListener('message', this.onMessage)
+    this.socket.removeEventListener('close', this.onClose)
+    this.socket.removeEventListener('reconnecting', this.onReconnecting)
+    this.rejectAll('JSON-RPC client is disposed')
+    this.handlers.clear()
+  }
+
+  private prepareCall<T>(
+    method: string,
+    params: FexiosJsonRpcRequest['params'],
+    options?: FexiosJsonRpcCallOptions
+  ) {
+    this.assertOpen()
+    const id = this.nextId++
+    const message = this.createRequest(method, params, id)
+    const timeout = options?.timeout ?? this.timeout
+    const promise = new Promise<T>((resolve, reject) => {
+      const call: PendingCall = { method, resolve, reject }
+      if (timeout > 0) {
+        call.timer = setTimeout(() => {
+          this.pending.delete(id)
+          reject(
+            new FexiosError(
+              FexiosErrorCodes.TIMEOUT,
+              `JSON-RPC call "${method}" timed out after ${timeout}ms`
+            )
+          )
+        }, timeout)
+      }
+      this.pending.set(id, call)
+    })
+    return { message, promise }
+  }
+
+  private createRequest(
+    method: string,
+    params?: FexiosJsonRpcRequest['params'],
+    id?: FexiosJsonRpcId
+  ): FexiosJsonRpcRequest {
+    const message: FexiosJsonRpcRequest = { jsonrpc: '2.0', method }
+    if (params !== undefined) message.params = params
+    if (id !== undefined) message.id = id
+    return message
+  }
+
+  private write(message: FexiosJsonRpcRequest | FexiosJsonRpcRequest[]) {
+    try {
+      this.socket.send(JSON.stringify(message))
+    } catch (error) {
+      const ids = (Array.isArray(message) ? message : [message])
+        .map((i) => i.id)
+        .filter((id): id is FexiosJsonRpcId => id !== undefined)
+      for (const id of ids) {
+        this.settle(id, (call) =>
+          call.reject(
+            new FexiosError(
+              FexiosErrorCodes.RPC_CONNECTION_CLOSED,
+              `Failed to send JSON-RPC call "${call.method}"`,
+              undefined,
+              { cause: error }
+            )
+          )
+        )
+      }
+    }
+  }
+
+  private assertOpen() {
+    if (this.closed) {
+      throw new FexiosError(
+        FexiosErrorCodes.RPC_CONNECTION_CLOSED,
+        'JSON-RPC connection is closed'
+      )
+    }
+  }
+
+  private settle(id: FexiosJsonRpcId, fn: (call: PendingCall) => void) {
+    const call = this.pending.get(id)
+    if (!call) return
+    this.pending.delete(id)
+    if (call.timer) clearTimeout(call.timer)
+    fn(call)
+  }
+
+  private rejectAll(message: string) {
+    for (const id of [...this.pending.keys()]) {
+      this.settle(id, (call) =>
+        call.reject(
+          new FexiosError(
+            FexiosErrorCodes.RPC_CONNECTION_CLOSED,
+            `${message}, call "${call.method}" is aborted`
+          )
+        )
+      )
+    }
+  }
+
+  private onMessage = (event: MessageEvent) => {
+    if (typeof event.data !== 'string') return
+    let payload: any
+    try {
+      payload = JSON.parse(event.data)
+    } catch {
+      // not a JSON-RPC message
+      return
+    }
+    for (const message of Array.isArray(payload) ? payload : [payload]) {
+      this.handleMessage(message)
+    }
+  }
+
+  private handleMessage(message: any) {
+    if (!message || typeof message !== 'object' || message.jsonrpc !== '2.0') {
+      return
+    }
+
+    // request or notification from the peer
+    if (typeof message.method === 'string') {
+      if (message.id !== undefined && message.id !== null) {
+        // server-to-client calls are not supported, reply only while open
+        if (this.closed || (this.socket.readyState ?? 1) !== 1) return
+        try {
+          this.socket.send(
+            JSON.stringify({
+              jsonrpc: '2.0',
+              id: message.id,
+              error: { code: -32601, message: 'Method not found' },
+            })
+          )
+        } catch {
+          // the reply is best effort
+        }
+        return
+      }
+      this.handlers.get(message.method)?.forEach((handler) => {
+        try {
+          handler(message.params, message)
+        } catch {
+          // notification handler should never break the client
+        }
+      })
+      return
+    }
+
+    // response
+    if (message.id === undefined || message.id === null) return
+    this.settle(message.id, (call) => {
+      if (message.error) {
+        call.reject(new FexiosJsonRpcError(call.method, message.error))
+      } else {
+        call.resolve(message.result)
+      }
+    })
+  }
+
+  private onClose = () => {
+    this.closed = true
+    this.rejectAll('JSON-RPC connection is closed')
+  }
+
+  private onReconnecting = () => {
+    this.rejectAll('JSON-RPC connection is lost')
+  }
+}
@@ -0,0 +1,51 @@
+import type { FexiosPlugin } from '@/types.js'
+import { FexiosError, FexiosErrorCodes } from '@/models/errors.js'
+import type { FexiosWebSocketOptions } from '../ws/index.js'
+import {
+  FexiosJsonRpcClient,
+  type FexiosJsonRpcClientOptions,
+} from './FexiosJsonRpcClient.js'
+
+export * from './FexiosJsonRpcClient.js'
+
+export type FexiosJsonRpcOptions = FexiosWebSocketOptions & {
+  /**
+   * Default call timeout (ms), `0` to disable
+   * @default 30000
+   */
+  callTimeout?: FexiosJsonRpcClientOptions['timeout']
+}
+
+declare module 'fexios' {
+  interface Fexios {
+    /**
+     * Connect a WebSocket via `fx.ws()` and wrap it with a JSON-RPC 2.0 client.
+     * Requires `pluginWebSocket`.
+     */
+    rpc: (
+      url: string | URL,
+      options?: FexiosJsonRpcOptions
+    ) => Promise<FexiosJsonRpcClient>
+  }
+}
+
+export const pluginJsonRpc: FexiosPlugin = {
+  name: 'fexios-plugin-json-rpc',
+  install(fx) {
+    fx.rpc = async (url, options = {}) => {
+      if (typeof fx.ws !== 'function') {
+        throw new FexiosError(
+          FexiosErrorCodes.PLUGIN_REQUIRED,
+          `pluginJsonRpc requires pluginWebSocket, please install it first.`
+        )
+      }
+      const { callTimeout, ...wsOptions } = options
+      const socket = await fx.ws(url, wsOptions)
+      return new FexiosJsonRpcClient(socket, { timeout: callTimeout })
+    }
+    return fx
+  },
+  uninstall(fx) {
+    fx.rpc = undefined as any
+  },
+}
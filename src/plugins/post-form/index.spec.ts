@@ -1,7 +1,7 @@
 import { describe, expect, it } from 'vitest'
 import { Fexios } from '@/index.js'
 import { mockFetch, MOCK_FETCH_BASE_URL } from '@/../test/mockFetch.js'
-import { pluginPostForm } from './index.js'
+import { fromFormData, pluginPostForm, toFormData } from './index.js'
 
 describe('Post Form Plugin', () => {
   it('should post FormData via fx.postForm()', async () => {
@@ -39,4 +39,105 @@ describe('Post Form Plugin', () => {
     expect(typeof (res.data.formData as any)?.file).toBe('string')
     expect(res.data.binaryFiles.length).toBe(1)
   })
+
+  it('should encode nested objects, arrays and non-string values', () => {
+    const a = new File(['a'], 'a.txt')
+    const b = new File(['b'], 'b.txt')
+    const input = {
+      user: { name: 'alice', tags: ['x', 'y'], roles: [{ id: 1 }] },
+      active: true,
+      at: new Date('2024-01-02T03:04:05Z'),
+      missing: null,
+      skipped: undefined,
+      files: [a, b],
+    }
+
+    const bracket = toFormData(input)
+    expect([...bracket.keys()]).toEqual([
+      'user[name]',
+      'user[tags][0]',
+      'user[tags][1]',
+      'user[roles][0][id]',
+      'active',
+      'at',
+      'files',
+      'files',
+    ])
+    expect(bracket.get('active')).toBe('true')
+    expect(bracket.get('at')).toBe('2024-01-02T03:04:05.000Z')
+    expect((bracket.getAll('files') as File[]).map((f) => f.name)).toEqual([
+      'a.txt',
+      'b.txt',
+    ])
+
+    const dot = toFormData(input, { nesting: 'dot', nulls: 'empty' })
+    expect(dot.get('user.tags.1')).toBe('y')
+    expect(dot.get('user.roles.0.id')).toBe('1')
+    expect(dot.get('missing')).toBe('')
+
+    const repeat = toFormData(input, { nesting: 'repeat', nulls: 'string' })
+    expect(repeat.getAll('user[tags]')).toEqual(['x', 'y'])
+    expect(repeat.get('user[roles][0][id]')).toBe('1')
+    expect(repeat.get('missing')).toBe('null')
+  })
+
+  it('should decode FormData into objects', () => {
+    const input = { user: { tags: ['x', 'y'], roles: [{ id: '1' }] }, n: '1' }
+    expect(fromFormData(toFormData(input))).toEqual(input)
+    expect(
+      fromFormData(toFormData(input, { nesting: 'dot' }), { nesting: 'dot' })
+    ).toEqual(input)
+    expect(
+      fromFormData(new URLSearchParams('a[]=1&a[]=2&b=1&b=2&c[d]=3'))
+    ).toEqual({ a: ['1', '2'], b: ['1', '2'], c: { d: '3' } })
+  })
+
+  it('should not pollute prototypes when decoding forms', () => {
+    const result = fromFormData(
+      new URLSearchParams(
+        '__proto__[polluted]=yes&constructor[prototype][polluted]=yes&a[__proto__][polluted]=yes&a.b=1&toString=x'
+      )
+    )
+    expect(({} as any).polluted).toBeUndefined()
+    expect(Object.prototype).not.toHaveProperty('polluted')
+    expect(result).toEqual({ 'a.b': '1', toString: 'x' })
+    expect(
+      fromFormData(new URLSearchParams('__proto__.polluted=yes'), {
+        nesting: 'dot',
+      })
+    ).toEqual({})
+    expect(({} as any).polluted).toBeUndefined()
+  })
+
+  it('should use postForm options and parse form responses', async () => {
+    const sent: FormData[] = []
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      postForm: { nesting: 'dot', parseResponse: true },
+      fetch: async (req) => {
+        const form = await (req as Request).formData()
+        sent.push(form)
+        return new Response(new URLSearchParams(form as any), {
+          headers: { 'content-type': 'application/x-www-form-urlencoded' },
+        })
+      },
+    })
+    fx.plugin(pluginPostForm)
+
+    const res = await fx.postForm('/post', { a: { b: ['1', '2'] } })
+    expect([...sent[0].keys()]).toEqual(['a.b.0', 'a.b.1'])
+    expect(res.responseType).toBe('form')
+    expect(res.data).toEqual({ a: { b: ['1', '2'] } })
+
+    await fx.postForm(
+      '/post',
+      { a: { b: ['1'] } },
+      { postForm: { nesting: 'bracket' } }
+    )
+    expect([...sent[1].keys()]).toEqual(['a[b][0]'])
+
+    fx.uninstall(pluginPostForm)
+    const raw = await fx.post('/post', new FormData())
+    expect(raw.data).toBeInstanceOf(FormData)
+  })
 })
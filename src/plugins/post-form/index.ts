@@ -4,11 +4,54 @@ import type {
   FexiosRequestOptions,
 } from '@/types.js'
 import { isPlainObject } from '@/utils/isPlainObject.js'
+import { resolveOptions } from '@/utils/resolve-options.js'
 
+export type FexiosPostFormValue =
+  | string
+  | number
+  | boolean
+  | bigint
+  | Date
+  | Blob
+  | null
+  | undefined
+  | FexiosPostFormValue[]
+  | { [key: string]: FexiosPostFormValue }
 export type FexiosPostFormInput = FormData | HTMLFormElement
-export type FexiosPostFormRecord = Record<string, string | Blob>
+export type FexiosPostFormRecord = Record<string, FexiosPostFormValue>
 export type FexiosPostFormAnyInput = FexiosPostFormInput | FexiosPostFormRecord
 
+export type FexiosPostFormOptions = {
+  /**
+   * Key style of nested objects and arrays:
+   * - `bracket` - `a[b][0]`
+   * - `dot` - `a.b.0`
+   * - `repeat` - arrays repeat their key (`a[tags]=x&a[tags]=y`), objects use brackets
+   *
+   * Arrays of files are always appended under one key.
+   * @default 'bracket'
+   */
+  nesting: 'bracket' | 'dot' | 'repeat'
+  /**
+   * How `null` values are sent:
+   * - `skip` - omit the field
+   * - `empty` - as `''`
+   * - `string` - as `'null'`
+   * @default 'skip'
+   */
+  nulls: 'skip' | 'empty' | 'string'
+  /**
+   * @default (date) => date.toISOString()
+   */
+  serializeDate: (date: Date) => string
+  /**
+   * Parse `form` responses into plain objects with `fromFormData`, instead of `FormData`.
+   * Read from base configs when the response is decoded.
+   * @default false
+   */
+  parseResponse: boolean
+}
+
 declare module 'fexios' {
   interface Fexios {
     /**
@@ -16,6 +59,7 @@ declare module 'fexios' {
      *
      * - Accepts `FormData` directly.
      * - In browsers, also accepts `HTMLFormElement` and converts it via `new FormData(form)`.
+     * - Plain objects are encoded with `toFormData`, nested values follow `postForm.nesting`.
      */
     postForm: <T = any>(
       url: string | URL,
@@ -25,6 +69,27 @@ declare module 'fexios' {
   }
 }
 
+declare module 'fexios/types' {
+  interface FexiosConfigs {
+    /**
+     * Form encoding options, requires `pluginPostForm`
+     */
+    postForm?: Partial<FexiosPostFormOptions>
+  }
+}
+
+const DEFAULT_POST_FORM_OPTIONS: FexiosPostFormOptions = {
+  nesting: 'bracket',
+  nulls: 'skip',
+  serializeDate: (date) => date.toISOString(),
+  parseResponse: false,
+}
+
+const FORM_CONTENT_TYPES = [
+  'multipart/form-data',
+  'application/x-www-form-urlencoded',
+]
+
 function isHTMLFormElement(x: any): x is HTMLFormElement {
   return (
     typeof globalThis !== 'undefined' &&
@@ -39,36 +104,160 @@ function isPostFormRecord(x: any): x is FexiosPostFormRecord {
   return isPlainObject(x)
 }
 
-function toFormData(input: FexiosPostFormAnyInput): FormData {
+function appendBlob(form: FormData, key: string, blob: Blob) {
+  // If it's a File, keep its filename when possible.
+  const filename = (blob as any)?.name
+  if (typeof filename === 'string' && filename) {
+    form.append(key, blob, filename)
+  } else {
+    form.append(key, blob)
+  }
+}
+
+function appendValue(
+  form: FormData,
+  key: string,
+  value: FexiosPostFormValue,
+  options: FexiosPostFormOptions
+) {
+  if (value === undefined) return
+  if (value === null) {
+    if (options.nulls !== 'skip') {
+      form.append(key, options.nulls === 'empty' ? '' : 'null')
+    }
+    return
+  }
+  if (value instanceof Blob) return appendBlob(form, key, value)
+  if (value instanceof Date) {
+    return form.append(key, options.serializeDate(value))
+  }
+  const childKey = (child: string) =>
+    options.nesting === 'dot' ? `${key}.${child}` : `${key}[${child}]`
+  if (Array.isArray(value)) {
+    const sameKey =
+      options.nesting === 'repeat' ||
+      (value.length > 0 && value.every((item) => item instanceof Blob))
+    value.forEach((item, index) => {
+      const nested = Array.isArray(item) || isPlainObject(item)
+      appendValue(
+        form,
+        sameKey && !nested ? key : childKey(String(index)),
+        item,
+        options
+      )
+    })
+    return
+  }
+  if (isPlainObject(value)) {
+    for (const [k, v] of Object.entries(value)) {
+      appendValue(form, childKey(k), v, options)
+    }
+    return
+  }
+  form.append(key, String(value))
+}
+
+/**
+ * Encode a form input into `FormData`
+ *
+ * @example
+ * ```ts
+ * toFormData({ user: { name: 'a', tags: ['x', 'y'] }, files: [file1, file2] })
+ * // user[name]=a, user[tags][0]=x, user[tags][1]=y, files=<file1>, files=<file2>
+ * toFormData({ user: { tags: ['x'] } }, { nesting: 'dot' })
+ * // user.tags.0=x
+ * ```
+ */
+export function toFormData(
+  input: FexiosPostFormAnyInput,
+  options: Partial<FexiosPostFormOptions> = {}
+): FormData {
   if (input instanceof FormData) return input
   if (isHTMLFormElement(input)) return new FormData(input)
   if (isPostFormRecord(input)) {
-    const fd = new FormData()
+    const resolved = resolveOptions(DEFAULT_POST_FORM_OPTIONS, options)
+    const form = new FormData()
     for (const [k, v] of Object.entries(input)) {
-      if (v instanceof Blob) {
-        // If it's a File, keep its filename when possible.
-        const filename = (v as any)?.name
-        if (typeof filename === 'string' && filename) {
-          fd.append(k, v, filename)
-        } else {
-          fd.append(k, v)
-        }
-      } else {
-        fd.append(k, String(v))
-      }
+      appendValue(form, k, v, resolved)
     }
-    return fd
+    return form
   }
   throw new TypeError(
-    'postForm() expects FormData / HTMLFormElement / Record<string, string | Blob>'
+    'postForm() expects FormData / HTMLFormElement / plain object'
   )
 }
 
+// keys that would reach `Object.prototype` when decoding untrusted forms
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype']
+
+function parseFormKey(
+  key: string,
+  nesting: FexiosPostFormOptions['nesting']
+): string[] {
+  if (nesting === 'dot') return key.split('.')
+  const match = /^([^[\]]+)((?:\[[^[\]]*\])+)$/.exec(key)
+  if (!match) return [key]
+  return [match[1], ...match[2].slice(1, -1).split('][')]
+}
+
+/**
+ * Decode `FormData` (or `URLSearchParams`) into a plain object, the reverse of `toFormData`.
+ * Repeated keys and `[]` become arrays, numeric keys index into arrays.
+ * Entries with `__proto__`, `constructor` or `prototype` in their path are ignored.
+ *
+ * @example
+ * ```ts
+ * fromFormData(form) // user[tags][0]=x&user[tags][1]=y&id=1&id=2
+ * // { user: { tags: ['x', 'y'] }, id: ['1', '2'] }
+ * ```
+ */
+export function fromFormData(
+  form: FormData | URLSearchParams,
+  options: Partial<Pick<FexiosPostFormOptions, 'nesting'>> = {}
+): Record<string, any> {
+  const { nesting } = resolveOptions(DEFAULT_POST_FORM_OPTIONS, options)
+  const result: Record<string, any> = {}
+  form.forEach((value: FormDataEntryValue, key: string) => {
+    const path = parseFormKey(key, nesting)
+    if (path.some((segment) => UNSAFE_KEYS.includes(segment))) return
+    let target: any = result
+    path.forEach((segment, index) => {
+      const isLast = index === path.length - 1
+      if (Array.isArray(target) && segment === '') {
+        if (isLast) return target.push(value)
+        segment = String(target.length)
+      }
+      if (isLast) {
+        if (!Object.hasOwn(target, segment)) target[segment] = value
+        else if (Array.isArray(target[segment])) target[segment].push(value)
+        else target[segment] = [target[segment], value]
+        return
+      }
+      if (
+        !Object.hasOwn(target, segment) ||
+        typeof target[segment] !== 'object'
+      ) {
+        const next = path[index + 1]
+        target[segment] = next === '' || /^\d+$/.test(next) ? [] : {}
+      }
+      target = target[segment]
+    })
+  })
+  return result
+}
+
 export const pluginPostForm: FexiosPlugin = {
   name: 'fexios-plugin-post-form',
   install(fx) {
     fx.postForm = async (url, form, options) => {
-      const body = toFormData(form)
+      const body = toFormData(
+        form,
+        resolveOptions(
+          DEFAULT_POST_FORM_OPTIONS,
+          fx.baseConfigs.postForm,
+          options?.postForm
+        )
+      )
 
       // NOTE:
       // Do NOT set `Content-Type` manually for FormData. Core will keep it unset
@@ -76,9 +265,26 @@ export const pluginPostForm: FexiosPlugin = {
       return fx.post(url, body, options)
     }
 
+    FORM_CONTENT_TYPES.forEach((contentType) =>
+      fx.codecs.registerParser(contentType, {
+        responseType: 'form',
+        parse: async (response) => {
+          const options = resolveOptions(
+            DEFAULT_POST_FORM_OPTIONS,
+            fx.baseConfigs.postForm
+          )
+          const form = await response.formData()
+          return options.parseResponse ? fromFormData(form, options) : form
+        },
+      })
+    )
+
     return fx
   },
   uninstall(fx) {
     fx.postForm = undefined as any
+    FORM_CONTENT_TYPES.forEach((contentType) =>
+      fx.codecs.unregisterParser(contentType)
+    )
   },
 }
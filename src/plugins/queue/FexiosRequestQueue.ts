@@ -0,0 +1,185 @@
+import type { FexiosContext } from '@/types.js'
+import { FexiosError, FexiosErrorCodes } from '@/models/errors.js'
+
+export type FexiosRequestQueueLimits = {
+  /**
+   * Max concurrent requests of the instance
+   * @default 6
+   */
+  maxConcurrent: number
+  /**
+   * Max concurrent requests of each origin
+   * @default Infinity
+   */
+  maxConcurrentPerOrigin: number
+}
+
+export type FexiosRequestQueueStats = {
+  /** Requests waiting for a slot */
+  pending: number
+  /** Requests holding a slot */
+  active: number
+}
+
+export type FexiosRequestQueueAcquireOptions = {
+  /**
+   * Higher priority requests are dequeued first, FIFO within the same priority
+   * @default 0
+   */
+  priority?: number
+  /**
+   * Reject with `QUEUE_TIMEOUT` if no slot is available in time (ms), `0` to wait forever
+   * @default 0
+   */
+  timeout?: number
+  /**
+   * Abort waiting in the queue
+   */
+  signal?: AbortSignal
+  /**
+   * Context attached to the `QUEUE_TIMEOUT` error
+   */
+  context?: FexiosContext
+}
+
+type QueueItem = {
+  origin: string
+  priority: number
+  seq: number
+  start: () => void
+}
+
+/**
+ * Priority queue that limits concurrent tasks, globally and per origin.
+ */
+export class FexiosRequestQueue {
+  readonly limits: FexiosRequestQueueLimits
+  private queue: QueueItem[] = []
+  private activeCount = 0
+  private activeByOrigin = new Map<string, number>()
+  private seq = 0
+
+  constructor(limits: Partial<FexiosRequestQueueLimits> = {}) {
+    this.limits = {
+      maxConcurrent: 6,
+      maxConcurrentPerOrigin: Infinity,
+      ...limits,
+    }
+  }
+
+  get pending() {
+    return this.queue.length
+  }
+
+  get active() {
+    return this.activeCount
+  }
+
+  /**
+   * Stats of the whole queue, or of the given origin
+   */
+  stats(origin?: string): FexiosRequestQueueStats {
+    if (origin === undefined) {
+      return { pending: this.pending, active: this.active }
+    }
+    return {
+      pending: this.queue.filter((i) => i.origin === origin).length,
+      active: this.activeByOrigin.get(origin) ?? 0,
+    }
+  }
+
+  /**
+   * Wait for a slot
+   * @returns release function, must be called exactly once when the task is done
+   */
+  acquire(
+    origin: string,
+    options: FexiosRequestQueueAcquireOptions = {}
+  ): Promise<() => void> {
+    const { priority = 0, timeout = 0, signal, context } = options
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason)
+
+      let timer: ReturnType<typeof setTimeout> | undefined
+      const cleanup = () => {
+        if (timer) clearTimeout(timer)
+        signal?.removeEventListener('abort', onAbort)
+      }
+      const remove = () => {
+        const index = this.queue.indexOf(item)
+        if (index < 0) return false
+        this.queue.splice(index, 1)
+        cleanup()
+        return true
+      }
+      const onAbort = () => {
+        if (remove()) reject(signal!.reason)
+      }
+
+      const item: QueueItem = {
+        origin,
+        priority,
+        seq: this.seq++,
+        start: () => {
+          cleanup()
+          this.activeCount++
+          this.activeByOrigin.set(
+            origin,
+            (this.activeByOrigin.get(origin) ?? 0) + 1
+          )
+          let released = false
+          resolve(() => {
+            if (released) return
+            released = true
+            this.release(origin)
+          })
+        },
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true })
+      if (timeout > 0) {
+        timer = setTimeout(() => {
+          if (!remove()) return
+          reject(
+            new FexiosError(
+              FexiosErrorCodes.QUEUE_TIMEOUT,
+              `Request is queued for more than ${timeout}ms`,
+              context
+            )
+          )
+        }, timeout)
+      }
+
+      // keep the queue sorted by priority desc, then seq asc
+      const index = this.queue.findIndex((i) => i.priority < priority)
+      this.queue.splice(index < 0 ? this.queue.length : index, 0, item)
+      this.drain()
+    })
+  }
+
+  private release(origin: string) {
+    this.activeCount--
+    const count = (this.activeByOrigin.get(origin) ?? 1) - 1
+    if (count > 0) {
+      this.activeByOrigin.set(origin, count)
+    } else {
+      this.activeByOrigin.delete(origin)
+    }
+    this.drain()
+  }
+
+  private drain() {
+    for (let i = 0; i < this.queue.length; ) {
+      if (this.activeCount >= this.limits.maxConcurrent) return
+      const item = this.queue[i]
+      const originActive = this.activeByOrigin.get(item.origin) ?? 0
+      // blocked by its origin, let requests to other origins go first
+      if (originActive >= this.limits.maxConcurrentPerOrigin) {
+        i++
+        continue
+      }
+      this.queue.splice(i, 1)
+      item.start()
+    }
+  }
+}
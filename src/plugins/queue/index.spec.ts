@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest'
+import { Fexios, FexiosErrorCodes } from '@/index.js'
+import { MOCK_FETCH_BASE_URL } from '@/../test/mockFetch.js'
+import { FexiosRequestQueue, pluginQueue } from './index.js'
+
+const createServer = (delay = 20) => {
+  const order: string[] = []
+  let active = 0
+  let maxActive = 0
+  const fetch = async (req: Request | string | URL) => {
+    const url = new URL((req as Request).url)
+    order.push(url.pathname)
+    maxActive = Math.max(maxActive, ++active)
+    await new Promise((r) => setTimeout(r, delay))
+    active--
+    return Response.json({ path: url.pathname })
+  }
+  return { fetch, order, getMaxActive: () => maxActive }
+}
+
+describe('Queue Plugin', () => {
+  it('should limit concurrent requests', async () => {
+    const { fetch, getMaxActive } = createServer()
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch,
+      queue: { maxConcurrent: 2 },
+    }).plugin(pluginQueue)
+
+    const all = Promise.all(
+      Array.from({ length: 5 }, (_, i) => fx.get(`/item/${i}`))
+    )
+    await new Promise((r) => setTimeout(r, 5))
+    expect(fx.queue!.active).toBe(2)
+    expect(fx.queue!.pending).toBe(3)
+
+    const results = await all
+    expect(results.map((r) => r.data.path)).toEqual(
+      Array.from({ length: 5 }, (_, i) => `/item/${i}`)
+    )
+    expect(getMaxActive()).toBe(2)
+    expect(fx.queue!.stats()).toEqual({ pending: 0, active: 0 })
+  })
+
+  it('should hold the slot until the body is consumed', async () => {
+    const events: string[] = []
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async (req) => {
+        const { pathname } = new URL((req as Request).url)
+        events.push(`start ${pathname}`)
+        const body = new ReadableStream<Uint8Array>({
+          async start(controller) {
+            await new Promise((r) => setTimeout(r, 20))
+            controller.enqueue(new TextEncoder().encode(pathname))
+            events.push(`end ${pathname}`)
+            controller.close()
+          },
+        })
+        return new Response(body)
+      },
+      queue: { maxConcurrent: 1 },
+    }).plugin(pluginQueue)
+
+    const results = await Promise.all([
+      fx.get('/a', { responseType: 'text' }),
+      fx.get('/b', { responseType: 'text' }),
+    ])
+    expect(results.map((r) => r.data)).toEqual(['/a', '/b'])
+    expect(events).toEqual(['start /a', 'end /a', 'start /b', 'end /b'])
+    expect(fx.queue!.stats()).toEqual({ pending: 0, active: 0 })
+  })
+
+  it('should start the response timeout once a slot is acquired', async () => {
+    const { fetch } = createServer(20)
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch,
+      timeout: 40,
+      queue: { maxConcurrent: 1 },
+    }).plugin(pluginQueue)
+
+    const results = await Promise.all(
+      Array.from({ length: 4 }, (_, i) => fx.get(`/item/${i}`))
+    )
+    expect(results).toHaveLength(4)
+
+    // never responds until aborted
+    const hang = (req: Request | string | URL) =>
+      new Promise<Response>((_, reject) => {
+        const { signal } = req as Request
+        signal.addEventListener('abort', () => reject(signal.reason))
+      })
+    const error = await fx.get('/slow', { fetch: hang }).catch((e) => e)
+    expect(error.code).toBe(FexiosErrorCodes.TIMEOUT)
+    expect(error.phase).toBe('response')
+    expect(fx.queue!.stats()).toEqual({ pending: 0, active: 0 })
+  })
+
+  it('should dequeue by priority', async () => {
+    const { fetch, order } = createServer()
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch,
+      queue: { maxConcurrent: 1 },
+    }).plugin(pluginQueue)
+
+    await Promise.all([
+      fx.get('/first'),
+      fx.get('/low', { priority: -1 }),
+      fx.get('/normal'),
+      fx.get('/high', { priority: 10 }),
+      fx.get('/normal2'),
+    ])
+    expect(order).toEqual(['/first', '/high', '/normal', '/normal2', '/low'])
+  })
+
+  it('should reject with QUEUE_TIMEOUT', async () => {
+    const { fetch } = createServer(50)
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch,
+      queue: { maxConcurrent: 1 },
+    }).plugin(pluginQueue)
+
+    const first = fx.get('/slow')
+    const error = await fx
+      .get('/queued', { queue: { timeout: 10 } })
+      .catch((e) => e)
+    expect(error).toMatchObject({ code: FexiosErrorCodes.QUEUE_TIMEOUT })
+    expect(error.context?.url).toBe(`${MOCK_FETCH_BASE_URL}/queued`)
+    expect(fx.queue!.pending).toBe(0)
+    await first
+  })
+
+  it('should cancel queued requests via abortController', async () => {
+    const { fetch, order } = createServer(30)
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch,
+      queue: { maxConcurrent: 1 },
+    }).plugin(pluginQueue)
+
+    const controller = new AbortController()
+    const first = fx.get('/first')
+    const cancelled = fx.get('/cancelled', { abortController: controller })
+    const last = fx.get('/last')
+    await new Promise((r) => setTimeout(r, 5))
+    controller.abort()
+
+    await expect(cancelled).rejects.toBeTruthy()
+    await Promise.all([first, last])
+    expect(order).toEqual(['/first', '/last'])
+  })
+
+  it('should bypass the queue per request', async () => {
+    const { fetch, getMaxActive } = createServer()
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch,
+      queue: { maxConcurrent: 1 },
+    }).plugin(pluginQueue)
+
+    await Promise.all([fx.get('/a'), fx.get('/b', { queue: false })])
+    expect(getMaxActive()).toBe(2)
+  })
+
+  it('should limit concurrency per origin', async () => {
+    const queue = new FexiosRequestQueue({
+      maxConcurrent: 3,
+      maxConcurrentPerOrigin: 1,
+    })
+    const a1 = await queue.acquire('https://a.com')
+    const a2 = queue.acquire('https://a.com')
+    const b1 = await queue.acquire('https://b.com')
+
+    expect(queue.stats()).toEqual({ pending: 1, active: 2 })
+    expect(queue.stats('https://a.com')).toEqual({ pending: 1, active: 1 })
+
+    a1()
+    a1() // release is idempotent
+    const release = await a2
+    expect(queue.stats('https://a.com')).toEqual({ pending: 0, active: 1 })
+    release()
+    b1()
+    expect(queue.stats()).toEqual({ pending: 0, active: 0 })
+  })
+})
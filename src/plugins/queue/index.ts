@@ -0,0 +1,196 @@
+import type {
+  FexiosHookHandler,
+  FexiosLifecycleEventMap,
+  FexiosPlugin,
+  FetchLike,
+} from '@/types.js'
+import { FexiosTimeoutError } from '@/models/errors.js'
+import { resolveTimeoutOptions } from '@/utils/timeout.js'
+import {
+  FexiosRequestQueue,
+  type FexiosRequestQueueLimits,
+} from './FexiosRequestQueue.js'
+
+export * from './FexiosRequestQueue.js'
+
+const QUEUE_PLUGIN_UNINSTALLER = Symbol('fexios-plugin-queue-uninstaller')
+
+export type FexiosQueueOptions = FexiosRequestQueueLimits & {
+  /**
+   * Max time (ms) waiting in the queue before rejecting with `QUEUE_TIMEOUT`, `0` to wait forever
+   * @default 0
+   */
+  timeout: number
+}
+
+declare module 'fexios' {
+  interface Fexios {
+    /**
+     * Request queue of `pluginQueue`, exposes `pending` / `active` stats
+     */
+    queue?: FexiosRequestQueue
+  }
+}
+
+declare module 'fexios/types' {
+  interface FexiosConfigs {
+    /**
+     * Concurrency limits, requires `pluginQueue`.
+     * Limits are read from base configs on install, request options may only override `timeout`.
+     * Set to `false` on a request to bypass the queue.
+     * A slot is held until the response body is consumed, read or cancel `stream` responses to release it.
+     */
+    queue?: Partial<FexiosQueueOptions> | false
+    /**
+     * Priority in the request queue, higher first
+     * @default 0
+     */
+    priority?: number
+  }
+}
+
+/**
+ * Call `onEnd` once the body is fully read, errored or cancelled
+ */
+function onBodyEnd(response: Response, onEnd: () => void): Response {
+  if (!response.body) {
+    onEnd()
+    return response
+  }
+  const reader = response.body.getReader()
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read()
+        if (done) {
+          onEnd()
+          controller.close()
+        } else {
+          controller.enqueue(value)
+        }
+      } catch (err) {
+        onEnd()
+        controller.error(err)
+      }
+    },
+    cancel(reason) {
+      onEnd()
+      return reader.cancel(reason)
+    },
+  })
+  const wrapped = new Response(body, response)
+  Object.defineProperties(wrapped, {
+    url: { value: response.url },
+    redirected: { value: response.redirected },
+  })
+  return wrapped
+}
+
+/**
+ * Wrap the fetch function to wait for a slot, which is held until the body is consumed.
+ * The response timeout starts once the slot is acquired.
+ */
+function createQueuedFetch(
+  queue: FexiosRequestQueue,
+  ctx: FexiosLifecycleEventMap['beforeActualFetch'],
+  fetch: FetchLike,
+  queueTimeout: number,
+  responseTimeout: number
+): FetchLike {
+  return async (input, init) => {
+    const request = input as Request
+    const release = await queue.acquire(new URL(request.url).origin, {
+      priority: ctx.request.priority,
+      timeout: queueTimeout,
+      signal: request.signal,
+      context: ctx,
+    })
+
+    const controller = new AbortController()
+    const onAbort = () => controller.abort(request.signal.reason)
+    if (request.signal?.aborted) onAbort()
+    request.signal?.addEventListener('abort', onAbort, { once: true })
+    const done = () => {
+      release()
+      request.signal?.removeEventListener('abort', onAbort)
+    }
+
+    let timedOut = false
+    const timer =
+      responseTimeout > 0
+        ? setTimeout(() => {
+            timedOut = true
+            controller.abort(
+              new FexiosTimeoutError('response', responseTimeout, ctx)
+            )
+          }, responseTimeout)
+        : undefined
+
+    try {
+      const response = await fetch(
+        new Request(request, { signal: controller.signal }),
+        init
+      )
+      return onBodyEnd(response, done)
+    } catch (err) {
+      done()
+      if (timedOut) throw controller.signal.reason
+      throw err
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
+
+export const pluginQueue: FexiosPlugin = {
+  name: 'fexios-plugin-queue',
+  install(fx) {
+    const { timeout: _, ...limits } = fx.baseConfigs.queue || {}
+    const queue = new FexiosRequestQueue(limits)
+    fx.queue = queue
+
+    const onBeforeActualFetch: FexiosHookHandler<'beforeActualFetch'> = (
+      ctx
+    ) => {
+      if (ctx.request.queue === false || fx.baseConfigs.queue === false) {
+        return ctx
+      }
+      const queueTimeout =
+        (ctx.request.queue || {}).timeout ??
+        (fx.baseConfigs.queue || {}).timeout ??
+        0
+      const fetch =
+        ctx.request.fetch || fx.baseConfigs.fetch || globalThis.fetch
+      // Time spent in the queue is limited by `queue.timeout` instead of the response timeout,
+      // so take it over from core. Body and total timeouts are still handled by core.
+      const timeout = resolveTimeoutOptions(
+        fx.baseConfigs.timeout,
+        ctx.request.timeout
+      )
+      ctx.request.timeout = { ...timeout, response: 0 }
+      ctx.request.fetch = createQueuedFetch(
+        queue,
+        ctx,
+        fetch,
+        queueTimeout,
+        timeout.response
+      )
+      return ctx
+    }
+    fx.on('beforeActualFetch', onBeforeActualFetch)
+    ;(fx as any)[QUEUE_PLUGIN_UNINSTALLER] = () => {
+      fx.off('beforeActualFetch', onBeforeActualFetch)
+      fx.queue = undefined
+    }
+
+    return fx
+  },
+  uninstall(fx) {
+    const uninstaller = (fx as any)[QUEUE_PLUGIN_UNINSTALLER] as
+      (() => void) | undefined
+    if (typeof uninstaller === 'function') {
+      uninstaller()
+      delete (fx as any)[QUEUE_PLUGIN_UNINSTALLER]
+    }
+  },
+}
@@ -0,0 +1,91 @@
+/**
+ * Token bucket that refills `limit` tokens every `interval` ms, continuously.
+ *
+ * Tokens can be borrowed in advance: `take()` always succeeds
+ * and returns how long the caller should wait before using the token.
+ */
+export class FexiosTokenBucket {
+  tokens: number
+  /** Tokens are counted from this time (ms), it is in the future while blocked */
+  private updatedAt = Date.now()
+  /** The limit given to the constructor, the server may only lower it */
+  private readonly maxLimit: number
+
+  constructor(
+    public limit: number,
+    public interval: number
+  ) {
+    this.tokens = limit
+    this.maxLimit = limit
+  }
+
+  /**
+   * Take one token
+   * @returns delay (ms) before the token can be used
+   */
+  take(now = Date.now()): number {
+    this.refill(now)
+    this.tokens -= 1
+    const blockedDelay = Math.max(0, this.updatedAt - now)
+    const refillDelay =
+      this.tokens >= 0
+        ? 0
+        : Math.ceil((-this.tokens * this.interval) / this.limit)
+    return blockedDelay + refillDelay
+  }
+
+  /**
+   * Give back a token that was taken but not used, e.g. the request was aborted while waiting
+   */
+  giveBack(now = Date.now()) {
+    this.refill(now)
+    this.tokens = Math.min(this.limit, this.tokens + 1)
+  }
+
+  /**
+   * Sync with the quota reported by the server
+   * @param remaining remaining requests in the current window
+   * @param reset time (ms) until the window resets
+   * @param limit max requests per window, lowers `limit` of the bucket only.
+   * The window of the server is unknown (e.g. an hour), so a higher value is ignored.
+   */
+  sync(
+    remaining: number | undefined,
+    reset: number | undefined,
+    now = Date.now(),
+    limit?: number
+  ) {
+    this.refill(now)
+    if (limit !== undefined && limit > 0) {
+      this.limit = Math.min(this.maxLimit, limit)
+      this.tokens = Math.min(this.tokens, this.limit)
+    }
+    if (remaining === 0 && reset !== undefined) {
+      this.block(reset, now)
+    } else if (remaining !== undefined) {
+      this.tokens = Math.min(this.tokens, remaining)
+    }
+  }
+
+  /**
+   * Hand out no token for the given time (ms),
+   * the bucket is full again when it ends (minus tokens borrowed meanwhile)
+   */
+  block(delay: number, now = Date.now()) {
+    const until = now + delay
+    if (until <= this.updatedAt) return
+    const borrowed = Math.max(0, -this.tokens)
+    this.tokens = this.limit - borrowed
+    this.updatedAt = until
+  }
+
+  private refill(now: number) {
+    const elapsed = now - this.updatedAt
+    if (elapsed <= 0) return
+    this.tokens = Math.min(
+      this.limit,
+      this.tokens + (elapsed * this.limit) / this.interval
+    )
+    this.updatedAt = now
+  }
+}
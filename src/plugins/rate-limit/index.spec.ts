@@ -0,0 +1,224 @@
+import { describe, expect, it } from 'vitest'
+import { Fexios } from '@/index.js'
+import { MOCK_FETCH_BASE_URL } from '@/../test/mockFetch.js'
+import {
+  FexiosTokenBucket,
+  parseRateLimitHeaders,
+  pluginRateLimit,
+} from './index.js'
+
+describe('Rate Limit Plugin', () => {
+  it('should refill tokens continuously', () => {
+    const bucket = new FexiosTokenBucket(2, 1000)
+    const now = Date.now()
+    expect(bucket.take(now)).toBe(0)
+    expect(bucket.take(now)).toBe(0)
+    // borrowed in advance
+    expect(bucket.take(now)).toBe(500)
+    expect(bucket.take(now)).toBe(1000)
+    // 1s later, 2 tokens refilled, both already borrowed
+    expect(bucket.take(now + 1000)).toBe(500)
+  })
+
+  it('should block until the window resets', () => {
+    const bucket = new FexiosTokenBucket(5, 1000)
+    const now = Date.now()
+    bucket.take(now)
+    bucket.sync(0, 3000, now)
+    expect(bucket.take(now)).toBe(3000)
+    bucket.sync(2, undefined, now + 3000)
+    expect(bucket.tokens).toBe(2)
+  })
+
+  it('should apply the limit reported by the server', () => {
+    const bucket = new FexiosTokenBucket(10, 1000)
+    const now = Date.now()
+    bucket.sync(8, undefined, now, 3)
+    expect(bucket.limit).toBe(3)
+    expect(bucket.tokens).toBe(3)
+  })
+
+  it('should give tokens back', () => {
+    const bucket = new FexiosTokenBucket(1, 1000)
+    const now = Date.now()
+    expect(bucket.take(now)).toBe(0)
+    expect(bucket.take(now)).toBe(1000)
+    bucket.giveBack(now)
+    expect(bucket.take(now)).toBe(1000)
+    bucket.giveBack(now)
+    bucket.giveBack(now)
+    // never above the limit
+    expect(bucket.tokens).toBe(1)
+  })
+
+  it('should parse rate limit headers', () => {
+    const now = 1_700_000_000_000
+    expect(
+      parseRateLimitHeaders(
+        new Headers({ ratelimit: 'limit=100, remaining=50, reset=30' }),
+        now
+      )
+    ).toEqual({ limit: 100, remaining: 50, reset: 30_000 })
+    expect(
+      parseRateLimitHeaders(
+        new Headers({ ratelimit: '"default";r=0;t=5' }),
+        now
+      )
+    ).toEqual({ limit: undefined, remaining: 0, reset: 5000 })
+    expect(
+      parseRateLimitHeaders(
+        new Headers({
+          'x-ratelimit-limit': '60',
+          'x-ratelimit-remaining': '59',
+          'x-ratelimit-reset': String(now / 1000 + 10),
+        }),
+        now
+      )
+    ).toEqual({ limit: 60, remaining: 59, reset: 10_000 })
+  })
+
+  it('should delay requests beyond the limit', async () => {
+    const times: number[] = []
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async () => {
+        times.push(Date.now())
+        return Response.json({ ok: true })
+      },
+      rateLimit: { limit: 2, interval: 100 },
+    }).plugin(pluginRateLimit)
+
+    const start = Date.now()
+    const results = await Promise.all([
+      fx.get('/a'),
+      fx.get('/b'),
+      fx.get('/c'),
+      fx.get('/d'),
+    ])
+    const delays = results.map((r) => r.runtime.rateLimit!.delay)
+    expect(delays.slice(0, 2)).toEqual([0, 0])
+    expect(delays[2]).toBeGreaterThan(40)
+    expect(delays[3]).toBeGreaterThan(90)
+    expect(times[3] - start).toBeGreaterThanOrEqual(95)
+    expect(fx.rateLimitBuckets!.has(new URL(MOCK_FETCH_BASE_URL).host)).toBe(
+      true
+    )
+  })
+
+  it('should use separate buckets per key', async () => {
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async () => Response.json({ ok: true }),
+      rateLimit: {
+        limit: 1,
+        interval: 1000,
+        key: (ctx) => new URL(ctx.request.rawRequest!.url).pathname,
+      },
+    }).plugin(pluginRateLimit)
+
+    const results = await Promise.all([fx.get('/a'), fx.get('/b')])
+    expect(results.map((r) => r.runtime.rateLimit!.delay)).toEqual([0, 0])
+    expect([...fx.rateLimitBuckets!.keys()]).toEqual(['/a', '/b'])
+  })
+
+  it('should tune buckets from response headers', async () => {
+    let count = 0
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async () => {
+        count++
+        if (count === 1) {
+          return Response.json(
+            { ok: true },
+            {
+              headers: {
+                'ratelimit-remaining': '0',
+                'ratelimit-reset': '0.05',
+              },
+            }
+          )
+        }
+        return new Response('slow down', {
+          status: 429,
+          headers: { 'retry-after': '1' },
+        })
+      },
+      rateLimit: { limit: 100, interval: 1000 },
+    }).plugin(pluginRateLimit)
+
+    await fx.get('/a')
+    const second = await fx.get('/b').catch((e) => e)
+    expect(second.response.status).toBe(429)
+    const bucket = fx.rateLimitBuckets!.get(new URL(MOCK_FETCH_BASE_URL).host)!
+    // blocked by Retry-After of the 429 response
+    expect(bucket.take()).toBeGreaterThan(900)
+
+    // disabled per request
+    const third = await fx.get('/c', { rateLimit: false }).catch((e) => e)
+    expect(third.response.status).toBe(429)
+  })
+
+  it('should delay after the server reports no remaining quota', async () => {
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async () =>
+        Response.json(
+          { ok: true },
+          {
+            headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1' },
+          }
+        ),
+      rateLimit: { limit: 100, interval: 1000, respectHeaders: true },
+    }).plugin(pluginRateLimit)
+
+    await fx.get('/a')
+    const controller = new AbortController()
+    const second = fx.get('/b', { abortController: controller })
+    setTimeout(() => controller.abort(), 20)
+    await expect(second).rejects.toBeTruthy()
+    expect(
+      fx.rateLimitBuckets!.get(new URL(MOCK_FETCH_BASE_URL).host)!.take()
+    ).toBeGreaterThan(900)
+  })
+
+  it('should only lower the limit with the one reported by the server', async () => {
+    let serverLimit = '2'
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async () =>
+        Response.json(
+          { ok: true },
+          { headers: { 'x-ratelimit-limit': serverLimit } }
+        ),
+      rateLimit: { limit: 100, interval: 1000 },
+    }).plugin(pluginRateLimit)
+    const host = new URL(MOCK_FETCH_BASE_URL).host
+
+    await fx.get('/a')
+    await fx.get('/b')
+    expect(fx.rateLimitBuckets!.get(host)!.limit).toBe(2)
+
+    // e.g. 5000 per hour, not per `interval`
+    serverLimit = '5000'
+    await fx.get('/c')
+    expect(fx.rateLimitBuckets!.get(host)!.limit).toBe(100)
+  })
+
+  it('should give the token back when aborted while delayed', async () => {
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async () => Response.json({ ok: true }),
+      rateLimit: { limit: 1, interval: 1000 },
+    }).plugin(pluginRateLimit)
+
+    await fx.get('/a')
+    const controller = new AbortController()
+    const second = fx.get('/b', { abortController: controller })
+    setTimeout(() => controller.abort(), 20)
+    await expect(second).rejects.toBeTruthy()
+    const bucket = fx.rateLimitBuckets!.get(new URL(MOCK_FETCH_BASE_URL).host)!
+    // only the first request is still counted
+    expect(bucket.take()).toBeLessThan(1000)
+    expect(bucket.take()).toBeGreaterThan(1000)
+  })
+})
@@ -0,0 +1,226 @@
+import type {
+  FexiosHookHandler,
+  FexiosLifecycleEventMap,
+  FexiosPlugin,
+} from '@/types.js'
+import { resolveOptions } from '@/utils/resolve-options.js'
+import { sleep } from '@/utils/sleep.js'
+import { parseRetryAfter } from '../retry/index.js'
+import { FexiosTokenBucket } from './FexiosTokenBucket.js'
+
+export * from './FexiosTokenBucket.js'
+
+const RATE_LIMIT_PLUGIN_UNINSTALLER = Symbol(
+  'fexios-plugin-rate-limit-uninstaller'
+)
+
+export type FexiosRateLimitOptions = {
+  /**
+   * Max requests per `interval`
+   * @default 10
+   */
+  limit: number
+  /**
+   * Window size (ms)
+   * @default 1000
+   */
+  interval: number
+  /**
+   * Bucket key, requests with the same key share one bucket
+   * @default (ctx) => new URL(ctx.request.rawRequest.url).host
+   */
+  key?: (ctx: FexiosLifecycleEventMap['beforeActualFetch']) => string
+  /**
+   * Tune buckets from `RateLimit-*` / `X-RateLimit-*` / `Retry-After` response headers
+   * @default true
+   */
+  respectHeaders: boolean
+}
+
+export type FexiosRateLimitState = {
+  key: string
+  /** Time (ms) the request was delayed */
+  delay: number
+}
+
+export type FexiosRateLimitInfo = {
+  limit?: number
+  remaining?: number
+  /** Time (ms) until the window resets */
+  reset?: number
+}
+
+declare module 'fexios' {
+  interface Fexios {
+    /**
+     * Token buckets of `pluginRateLimit`, by key
+     */
+    rateLimitBuckets?: Map<string, FexiosTokenBucket>
+  }
+}
+
+declare module 'fexios/types' {
+  interface FexiosConfigs {
+    /**
+     * Client-side rate limiting, requires `pluginRateLimit`.
+     * Set to `false` to disable it.
+     */
+    rateLimit?: Partial<FexiosRateLimitOptions> | false
+  }
+  interface FexiosRuntimeContext {
+    /**
+     * Rate limit state, only available when `pluginRateLimit` is installed
+     */
+    rateLimit?: FexiosRateLimitState
+  }
+}
+
+const DEFAULT_RATE_LIMIT_OPTIONS: FexiosRateLimitOptions = {
+  limit: 10,
+  interval: 1000,
+  respectHeaders: true,
+}
+
+const RETRY_AFTER_STATUS_CODES = [429, 503]
+
+const toNumber = (value?: string | null) => {
+  if (value === null || value === undefined || !value.trim()) return undefined
+  const n = Number(value.trim())
+  return Number.isFinite(n) && n >= 0 ? n : undefined
+}
+
+/**
+ * `X-RateLimit-Reset` is delta seconds, or epoch seconds/milliseconds on some APIs
+ */
+const toResetDelay = (value: number | undefined, now: number) => {
+  if (value === undefined) return undefined
+  if (value > 1e12) return Math.max(0, value - now)
+  if (value > 1e9) return Math.max(0, value * 1000 - now)
+  return value * 1000
+}
+
+/**
+ * Parse rate limit quota from response headers:
+ * - `RateLimit: limit=100, remaining=50, reset=30` / `RateLimit: "default";r=50;t=30`
+ * - `RateLimit-Limit` / `RateLimit-Remaining` / `RateLimit-Reset`
+ * - `X-RateLimit-Limit` / `X-RateLimit-Remaining` / `X-RateLimit-Reset`
+ */
+export function parseRateLimitHeaders(
+  headers: Headers,
+  now = Date.now()
+): FexiosRateLimitInfo {
+  const params: Record<string, string> = {}
+  for (const part of (headers.get('ratelimit') ?? '').split(/[;,]/)) {
+    const [name, value] = part.split('=')
+    if (value !== undefined) params[name.trim().toLowerCase()] = value.trim()
+  }
+
+  const pick = (...values: (string | null | undefined)[]) => {
+    for (const value of values) {
+      const n = toNumber(value)
+      if (n !== undefined) return n
+    }
+    return undefined
+  }
+
+  return {
+    limit: pick(
+      params.limit,
+      headers.get('ratelimit-limit'),
+      headers.get('x-ratelimit-limit')
+    ),
+    remaining: pick(
+      params.remaining,
+      params.r,
+      headers.get('ratelimit-remaining'),
+      headers.get('x-ratelimit-remaining')
+    ),
+    reset:
+      toResetDelay(
+        pick(params.reset, params.t, headers.get('ratelimit-reset')),
+        now
+      ) ?? toResetDelay(pick(headers.get('x-ratelimit-reset')), now),
+  }
+}
+
+export const pluginRateLimit: FexiosPlugin = {
+  name: 'fexios-plugin-rate-limit',
+  install(fx) {
+    const buckets = new Map<string, FexiosTokenBucket>()
+    fx.rateLimitBuckets = buckets
+
+    const onBeforeActualFetch: FexiosHookHandler<'beforeActualFetch'> = async (
+      ctx
+    ) => {
+      const options = resolveOptions(
+        DEFAULT_RATE_LIMIT_OPTIONS,
+        fx.baseConfigs.rateLimit,
+        ctx.request.rateLimit
+      )
+      const rawRequest = ctx.request.rawRequest
+      if (!options || !rawRequest) return ctx
+
+      const key = options.key ? options.key(ctx) : new URL(rawRequest.url).host
+      // limits are read once, `limit` is then tuned by response headers
+      let bucket = buckets.get(key)
+      if (!bucket) {
+        bucket = new FexiosTokenBucket(options.limit, options.interval)
+        buckets.set(key, bucket)
+      }
+
+      const delay = bucket.take()
+      ctx.runtime.rateLimit = { key, delay }
+      if (delay > 0) {
+        try {
+          await sleep(delay, rawRequest.signal)
+        } catch (err) {
+          // the token is not used
+          bucket.giveBack()
+          throw err
+        }
+      }
+      return ctx
+    }
+
+    // afterRawResponse instead of afterResponse: error responses (e.g. 429) never reach afterResponse
+    const onAfterRawResponse: FexiosHookHandler<'afterRawResponse'> = (ctx) => {
+      const state = ctx.runtime.rateLimit
+      const bucket = state && buckets.get(state.key)
+      if (!bucket) return ctx
+      const options = resolveOptions(
+        DEFAULT_RATE_LIMIT_OPTIONS,
+        fx.baseConfigs.rateLimit,
+        ctx.request.rateLimit
+      )
+      if (!options || !options.respectHeaders) return ctx
+
+      const headers = ctx.rawResponse.headers
+      const info = parseRateLimitHeaders(headers)
+      bucket.sync(info.remaining, info.reset, Date.now(), info.limit)
+      if (RETRY_AFTER_STATUS_CODES.includes(ctx.rawResponse.status)) {
+        const retryAfter = parseRetryAfter(headers.get('retry-after'))
+        if (retryAfter !== undefined) bucket.block(retryAfter)
+      }
+      return ctx
+    }
+
+    fx.on('beforeActualFetch', onBeforeActualFetch)
+    fx.on('afterRawResponse', onAfterRawResponse)
+    ;(fx as any)[RATE_LIMIT_PLUGIN_UNINSTALLER] = () => {
+      fx.off('beforeActualFetch', onBeforeActualFetch)
+      fx.off('afterRawResponse', onAfterRawResponse)
+      fx.rateLimitBuckets = undefined
+    }
+
+    return fx
+  },
+  uninstall(fx) {
+    const uninstaller = (fx as any)[RATE_LIMIT_PLUGIN_UNINSTALLER] as
+      | (() => void)
+      | undefined
+    if (typeof uninstaller === 'function') {
+      uninstaller()
+      delete (fx as any)[RATE_LIMIT_PLUGIN_UNINSTALLER]
+    }
+  },
+}
@@ -0,0 +1,243 @@
+import { describe, expect, it } from 'vitest'
+import { Fexios, FexiosErrorCodes, FexiosResponseError } from '@/index.js'
+import { MOCK_FETCH_BASE_URL } from '@/../test/mockFetch.js'
+import { computeBackoff, parseRetryAfter, pluginRetry } from './index.js'
+
+const createFlakyFetch = (failures: Array<number | Error>) => {
+  const calls: Request[] = []
+  const fetch = async (req: Request | string | URL) => {
+    calls.push(req as Request)
+    const failure = failures[calls.length - 1]
+    if (failure instanceof Error) throw failure
+    if (typeof failure === 'number') {
+      return new Response('fail', {
+        status: failure,
+        headers: failure === 429 ? { 'retry-after': '0' } : undefined,
+      })
+    }
+    return Response.json({ ok: true, attempt: calls.length })
+  }
+  return { fetch, calls }
+}
+
+describe('Retry Plugin', () => {
+  it('should retry on retryable status codes', async () => {
+    const { fetch, calls } = createFlakyFetch([503, 502])
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch,
+      retry: { baseDelay: 1 },
+    }).plugin(pluginRetry)
+
+    const attempts: number[] = []
+    fx.on('retry:beforeAttempt', (ctx) => {
+      attempts.push(ctx.runtime.retry!.attempt)
+      expect(ctx.runtime.retry!.response?.status).toBeGreaterThan(500)
+      return ctx
+    })
+
+    const res = await fx.get('/flaky')
+    expect(res.data).toEqual({ ok: true, attempt: 3 })
+    expect(calls.length).toBe(3)
+    expect(attempts).toEqual([2, 3])
+    expect(res.runtime.retry?.attempt).toBe(3)
+  })
+
+  it('should retry on network errors and replay request body', async () => {
+    const bodies: string[] = []
+    let count = 0
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async (req) => {
+        bodies.push(await (req as Request).text())
+        if (++count < 2) throw new TypeError('fetch failed')
+        return Response.json({ ok: true })
+      },
+      retry: { baseDelay: 1 },
+    }).plugin(pluginRetry)
+
+    await fx.put('/put', { foo: 'bar' })
+    expect(bodies).toEqual(['{"foo":"bar"}', '{"foo":"bar"}'])
+  })
+
+  it('should report upload progress of each attempt', async () => {
+    const bodies: string[] = []
+    let count = 0
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async (req) => {
+        bodies.push(await (req as Request).text())
+        if (++count < 2) return new Response('fail', { status: 503 })
+        return Response.json({ ok: true })
+      },
+      retry: { baseDelay: 1 },
+    }).plugin(pluginRetry)
+
+    const loaded: number[] = []
+    await fx.put('/put', 'hello', {
+      onUploadProgress: (e) => loaded.push(e.loaded),
+    })
+    expect(bodies).toEqual(['hello', 'hello'])
+    expect(loaded).toEqual([5, 5])
+  })
+
+  it('should not retry non-idempotent methods by default', async () => {
+    const { fetch, calls } = createFlakyFetch([503])
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch,
+      retry: { baseDelay: 1 },
+    }).plugin(pluginRetry)
+
+    await expect(fx.post('/post', { a: 1 })).rejects.toBeInstanceOf(
+      FexiosResponseError
+    )
+    expect(calls.length).toBe(1)
+  })
+
+  it('should give up after max attempts', async () => {
+    const { fetch, calls } = createFlakyFetch([500, 500, 500, 500])
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch,
+      retry: { baseDelay: 1, maxAttempts: 2 },
+    }).plugin(pluginRetry)
+
+    let exhausted = false
+    fx.on('retry:exhausted', (ctx) => {
+      exhausted = true
+      return ctx
+    })
+
+    const error = await fx.get('/flaky').catch((e) => e)
+    expect(error).toBeInstanceOf(FexiosResponseError)
+    expect(error.response.status).toBe(500)
+    expect(calls.length).toBe(2)
+    expect(exhausted).toBe(true)
+  })
+
+  it('should apply timeout to each attempt', async () => {
+    let count = 0
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      timeout: 20,
+      fetch: async (req) => {
+        if (++count === 1) {
+          // hang until aborted
+          return new Promise<Response>((_, reject) => {
+            ;(req as Request).signal.addEventListener('abort', () =>
+              reject(new Error('aborted'))
+            )
+          })
+        }
+        return Response.json({ ok: true })
+      },
+      retry: { baseDelay: 1 },
+    }).plugin(pluginRetry)
+
+    const res = await fx.get('/slow')
+    expect(res.data).toEqual({ ok: true })
+    expect(count).toBe(2)
+  })
+
+  it('should throw the last FexiosError when all attempts time out', async () => {
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      timeout: 10,
+      fetch: (req) =>
+        new Promise<Response>((_, reject) => {
+          ;(req as Request).signal.addEventListener('abort', () =>
+            reject(new Error('aborted'))
+          )
+        }),
+      retry: { baseDelay: 1, maxAttempts: 2 },
+    }).plugin(pluginRetry)
+
+    await expect(fx.get('/slow')).rejects.toMatchObject({
+      code: FexiosErrorCodes.TIMEOUT,
+    })
+  })
+
+  it('should stop retrying when aborted by user', async () => {
+    const { fetch, calls } = createFlakyFetch([503, 503, 503])
+    const abortController = new AbortController()
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch,
+      retry: { baseDelay: 1000 },
+    }).plugin(pluginRetry)
+    fx.on('retry:beforeAttempt', (ctx) => {
+      abortController.abort()
+      return ctx
+    })
+
+    await expect(fx.get('/flaky', { abortController })).rejects.toThrow()
+    expect(calls.length).toBe(1)
+  })
+
+  it('should allow disabling retry per request', async () => {
+    const { fetch, calls } = createFlakyFetch([503])
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch,
+      retry: { baseDelay: 1 },
+    }).plugin(pluginRetry)
+
+    await expect(fx.get('/flaky', { retry: false })).rejects.toBeInstanceOf(
+      FexiosResponseError
+    )
+    expect(calls.length).toBe(1)
+  })
+
+  it('should honor Retry-After header', async () => {
+    expect(parseRetryAfter('3')).toBe(3000)
+    expect(parseRetryAfter('invalid')).toBeUndefined()
+    const date = new Date(Date.now() + 60_000).toUTCString()
+    expect(parseRetryAfter(date)).toBeGreaterThan(50_000)
+
+    const { fetch, calls } = createFlakyFetch([429])
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch,
+      // would be way too slow without Retry-After: 0
+      retry: { baseDelay: 60_000 },
+    }).plugin(pluginRetry)
+    const delays: number[] = []
+    fx.on('retry:beforeAttempt', (ctx) => {
+      delays.push(ctx.runtime.retry!.delay)
+      return ctx
+    })
+
+    await fx.get('/rate-limited')
+    expect(calls.length).toBe(2)
+    expect(delays).toEqual([0])
+  })
+
+  it('should give up when Retry-After exceeds maxDelay', async () => {
+    const calls: Request[] = []
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async (req) => {
+        calls.push(req as Request)
+        return new Response('slow down', {
+          status: 429,
+          headers: { 'retry-after': '60' },
+        })
+      },
+      retry: { maxDelay: 1000 },
+    }).plugin(pluginRetry)
+
+    const error = await fx.get('/rate-limited').catch((e) => e)
+    expect(error).toBeInstanceOf(FexiosResponseError)
+    expect(error.response.status).toBe(429)
+    expect(calls.length).toBe(1)
+  })
+
+  it('computeBackoff should stay within the exponential cap', () => {
+    for (let i = 1; i <= 10; i++) {
+      const delay = computeBackoff(i, 100, 1000)
+      expect(delay).toBeGreaterThanOrEqual(0)
+      expect(delay).toBeLessThan(Math.min(1000, 100 * 2 ** (i - 1)))
+    }
+  })
+})
@@ -0,0 +1,308 @@
+import type {
+  FexiosHookHandler,
+  FexiosLifecycleEventMap,
+  FexiosMethods,
+  FexiosPlugin,
+  FetchLike,
+} from '@/types.js'
+import {
+  FexiosError,
+  FexiosErrorCodes,
+  FexiosTimeoutError,
+} from '@/models/errors.js'
+import { fetchWithUploadProgress } from '@/utils/progress.js'
+import { resolveOptions } from '@/utils/resolve-options.js'
+import { sleep } from '@/utils/sleep.js'
+import { resolveTimeoutOptions } from '@/utils/timeout.js'
+
+const RETRY_PLUGIN_HOOK = Symbol('fexios-plugin-retry-hook')
+
+export type FexiosRetryOptions = {
+  /**
+   * Max attempts in total, including the first one
+   * @default 3
+   */
+  maxAttempts: number
+  /**
+   * Methods that are allowed to be retried
+   * @default ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE', 'TRACE'] (idempotent only)
+   */
+  methods: FexiosMethods[]
+  /**
+   * Response status codes that should be retried
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  statusCodes: number[]
+  /**
+   * FexiosError codes that should be retried
+   * @default [FexiosErrorCodes.TIMEOUT, FexiosErrorCodes.NETWORK_ERROR]
+   */
+  errorCodes: (FexiosErrorCodes | string)[]
+  /**
+   * Base delay (ms) of the exponential backoff
+   * @default 300
+   */
+  baseDelay: number
+  /**
+   * Max delay (ms) between two attempts.
+   * A `Retry-After` longer than this gives up retrying and returns the response.
+   * @default 30000
+   */
+  maxDelay: number
+  /**
+   * Whether to honor `Retry-After` header on 429/503 responses
+   * @default true
+   */
+  respectRetryAfter: boolean
+  /**
+   * Custom predicate, return a boolean to override the default decision
+   */
+  shouldRetry?: (
+    state: FexiosRetryState,
+    ctx: FexiosLifecycleEventMap['beforeActualFetch']
+  ) => boolean | void
+}
+
+export type FexiosRetryState = {
+  /** Current attempt number, starts from 1 */
+  attempt: number
+  maxAttempts: number
+  /** Delay (ms) before the current attempt, hooks may adjust it */
+  delay: number
+  /** The error that caused the previous attempt to fail */
+  error?: FexiosError
+  /** The response that caused the previous attempt to fail */
+  response?: Response
+}
+
+declare module 'fexios/types' {
+  interface FexiosConfigs {
+    /**
+     * Retry policy, requires `pluginRetry`.
+     * Set to `false` to disable retrying.
+     */
+    retry?: Partial<FexiosRetryOptions> | false
+  }
+  interface FexiosRuntimeContext {
+    /**
+     * Retry state, only available when `pluginRetry` is installed
+     */
+    retry?: FexiosRetryState
+  }
+  interface FexiosLifecycleEventMap {
+    'retry:beforeAttempt': FexiosLifecycleEventMap['beforeActualFetch']
+    'retry:exhausted': FexiosLifecycleEventMap['beforeActualFetch']
+  }
+}
+
+const DEFAULT_RETRY_OPTIONS: FexiosRetryOptions = {
+  maxAttempts: 3,
+  methods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE', 'TRACE'],
+  statusCodes: [408, 429, 500, 502, 503, 504],
+  errorCodes: [FexiosErrorCodes.TIMEOUT, FexiosErrorCodes.NETWORK_ERROR],
+  baseDelay: 300,
+  maxDelay: 30_000,
+  respectRetryAfter: true,
+}
+
+const RETRY_AFTER_STATUS_CODES = [429, 503]
+
+/**
+ * Parse `Retry-After` header (delay-seconds or HTTP-date) into milliseconds
+ */
+export function parseRetryAfter(value?: string | null): number | undefined {
+  if (!value) return undefined
+  const trimmed = value.trim()
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000
+  }
+  const date = Date.parse(trimmed)
+  if (Number.isNaN(date)) return undefined
+  return Math.max(0, date - Date.now())
+}
+
+/**
+ * Exponential backoff with full jitter
+ * @param retry the n-th retry, starts from 1
+ */
+export function computeBackoff(
+  retry: number,
+  baseDelay: number,
+  maxDelay: number
+): number {
+  const cap = Math.min(maxDelay, baseDelay * 2 ** (retry - 1))
+  return Math.floor(Math.random() * cap)
+}
+
+/**
+ * Wrap the fetch function with retry logic.
+ * The first attempt sends the given request (e.g. with upload progress),
+ * later attempts use a fresh clone of `ctx.request.rawRequest`, so the body can be replayed.
+ */
+function createRetryFetch(
+  fx: Parameters<FexiosPlugin['install']>[0],
+  ctx: FexiosLifecycleEventMap['beforeActualFetch'],
+  fetch: FetchLike,
+  options: FexiosRetryOptions,
+  timeout: number
+): FetchLike {
+  return async (input) => {
+    const template = input as Request
+    const parentSignal = template.signal
+    const state = ctx.runtime.retry!
+
+    while (true) {
+      const rawRequest = ctx.request.rawRequest ?? template
+      // a copy made by core, rawRequest is kept unread for later attempts
+      const first = state.attempt === 1 && template !== rawRequest
+      const source = first ? template : rawRequest.clone()
+      const attemptController = new AbortController()
+      const onParentAbort = () => attemptController.abort(parentSignal.reason)
+      parentSignal?.addEventListener('abort', onParentAbort, { once: true })
+
+      let timedOut = false
+      const timer =
+        timeout > 0
+          ? setTimeout(() => {
+              timedOut = true
+              attemptController.abort()
+            }, timeout)
+          : undefined
+
+      let response: Response | undefined
+      let error: FexiosError | undefined
+      try {
+        const attempt = new Request(source, {
+          signal: attemptController.signal,
+        })
+        response =
+          !first && ctx.runtime.onUploadProgress
+            ? await fetchWithUploadProgress(
+                fetch,
+                attempt,
+                ctx.request.body,
+                ctx.runtime.onUploadProgress
+              )
+            : await fetch(attempt)
+      } catch (err: any) {
+        // aborted by user, do not retry
+        if (parentSignal?.aborted) throw err
+        error = timedOut
+          ? new FexiosTimeoutError('response', timeout, ctx, { cause: err })
+          : err instanceof FexiosError
+          ? err
+          : new FexiosError(FexiosErrorCodes.NETWORK_ERROR, err?.message, ctx, {
+              cause: err,
+            })
+      } finally {
+        if (timer) clearTimeout(timer)
+        parentSignal?.removeEventListener('abort', onParentAbort)
+      }
+
+      const retryable = error
+        ? options.errorCodes.includes(error.code)
+        : options.statusCodes.includes(response!.status)
+      const decision = options.shouldRetry?.({ ...state, error, response }, ctx)
+      const shouldRetry = typeof decision === 'boolean' ? decision : retryable
+
+      if (!shouldRetry) {
+        if (error) throw error
+        return response!
+      }
+      if (state.attempt >= state.maxAttempts) {
+        state.error = error
+        state.response = response
+        await fx.emit('retry:exhausted', ctx)
+        if (error) throw error
+        return response!
+      }
+
+      let delay = computeBackoff(
+        state.attempt,
+        options.baseDelay,
+        options.maxDelay
+      )
+      if (
+        response &&
+        options.respectRetryAfter &&
+        RETRY_AFTER_STATUS_CODES.includes(response.status)
+      ) {
+        const retryAfter = parseRetryAfter(response.headers.get('retry-after'))
+        if (typeof retryAfter === 'number') {
+          // the server asks for more than we are willing to wait, surface it
+          if (retryAfter > options.maxDelay) return response
+          delay = retryAfter
+        }
+      }
+      // drop the failed response body, we won't read it anymore
+      response?.body?.cancel().catch(() => {})
+
+      state.attempt++
+      state.delay = delay
+      state.error = error
+      state.response = response
+      await fx.emit('retry:beforeAttempt', ctx)
+      await sleep(state.delay, parentSignal)
+    }
+  }
+}
+
+export const pluginRetry: FexiosPlugin = {
+  name: 'fexios-plugin-retry',
+  install(fx) {
+    const onBeforeActualFetch: FexiosHookHandler<'beforeActualFetch'> = (
+      ctx
+    ) => {
+      const options = resolveOptions(
+        DEFAULT_RETRY_OPTIONS,
+        fx.baseConfigs.retry,
+        ctx.request.retry
+      )
+      if (!options || options.maxAttempts <= 1) return ctx
+
+      const method = (
+        ctx.request.rawRequest?.method ||
+        ctx.request.method ||
+        'GET'
+      ).toUpperCase()
+      if (!options.methods.some((m) => m.toUpperCase() === method)) {
+        return ctx
+      }
+
+      const fetch =
+        ctx.request.fetch || fx.baseConfigs.fetch || globalThis.fetch
+      // The response timeout is applied to each attempt instead of the whole request,
+      // so take it over from core. Body and total timeouts are still handled by core.
+      const timeout = resolveTimeoutOptions(
+        fx.baseConfigs.timeout,
+        ctx.request.timeout
+      )
+      ctx.request.timeout = { ...timeout, response: 0 }
+
+      ctx.runtime.retry = {
+        attempt: 1,
+        maxAttempts: options.maxAttempts,
+        delay: 0,
+      }
+      ctx.request.fetch = createRetryFetch(
+        fx,
+        ctx,
+        fetch,
+        options,
+        timeout.response
+      )
+      return ctx
+    }
+    fx.on('beforeActualFetch', onBeforeActualFetch)
+    ;(fx as any)[RETRY_PLUGIN_HOOK] = onBeforeActualFetch
+
+    return fx
+  },
+  uninstall(fx) {
+    const hook = (fx as any)[RETRY_PLUGIN_HOOK]
+    if (hook) {
+      fx.off('beforeActualFetch', hook)
+      delete (fx as any)[RETRY_PLUGIN_HOOK]
+    }
+  },
+}
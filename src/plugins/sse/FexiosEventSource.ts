@@ -0,0 +1,256 @@
+import type { Fexios } from '@/fexios.js'
+import type { FexiosRequestOptions } from '@/types.js'
+import {
+  FexiosError,
+  FexiosErrorCodes,
+  FexiosResponseError,
+} from '@/models/errors.js'
+import { FexiosStreamReader } from '@/models/stream-reader.js'
+
+export type FexiosEventSourceInit = {
+  method?: FexiosRequestOptions['method']
+  headers?: FexiosRequestOptions['headers']
+  body?: FexiosRequestOptions['body']
+  /**
+   * Connect timeout (ms), until response headers are received
+   */
+  timeout?: number
+  /**
+   * Idle timeout (ms) between chunks of the stream, `0` to disable.
+   * `timeout.body` of base configs is not applied, events may be sparse.
+   * @default 0
+   */
+  bodyTimeout?: number
+  /**
+   * Reconnect automatically when the connection is lost
+   * @default true
+   */
+  reconnect?: boolean
+  /**
+   * Reconnection delay (ms), may be overridden by the server `retry:` field
+   * @default 3000
+   */
+  retryInterval?: number
+  /**
+   * Resume from this event id (sent as `Last-Event-ID` header)
+   */
+  lastEventId?: string
+}
+
+type EventStreamListener = (event: Event | MessageEvent) => void
+
+/**
+ * EventSource-compatible client built on top of `Fexios.request`.
+ *
+ * Unlike the native `EventSource`, every (re)connection is a real request
+ * that goes through lifecycle hooks, so custom method/headers/body are supported.
+ *
+ * @see https://html.spec.whatwg.org/multipage/server-sent-events.html
+ */
+export class FexiosEventSource extends EventTarget {
+  static readonly CONNECTING = 0
+  static readonly OPEN = 1
+  static readonly CLOSED = 2
+  readonly CONNECTING = 0
+  readonly OPEN = 1
+  readonly CLOSED = 2
+
+  readonly withCredentials = false
+  readyState: number = FexiosEventSource.CONNECTING
+  lastEventId: string
+  retryInterval: number
+
+  onopen: EventStreamListener | null = null
+  onmessage: EventStreamListener | null = null
+  onerror: EventStreamListener | null = null
+
+  private abortController?: AbortController
+  private reconnectTimer?: ReturnType<typeof setTimeout>
+  // event stream parser buffers
+  private eventType = ''
+  private dataBuffer: string[] = []
+  private eventIdBuffer: string
+
+  constructor(
+    private readonly app: Fexios,
+    readonly url: string,
+    private readonly init: FexiosEventSourceInit = {}
+  ) {
+    super()
+    this.lastEventId = init.lastEventId ?? ''
+    this.eventIdBuffer = this.lastEventId
+    this.retryInterval = init.retryInterval ?? 3000
+  }
+
+  /**
+   * Perform one connection attempt.
+   * Resolves once the response headers are received, the body is consumed in background.
+   */
+  async connect(): Promise<void> {
+    const abortController = new AbortController()
+    this.abortController = abortController
+    this.readyState = FexiosEventSource.CONNECTING
+
+    const headers: Record<string, any> = {
+      Accept: 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    }
+    if (this.lastEventId) headers['Last-Event-ID'] = this.lastEventId
+
+    const ctx = await this.app.request<ReadableStream<Uint8Array>>(this.url, {
+      method: this.init.method,
+      headers: this.app.mergeHeaders(this.init.headers as any, headers),
+      body: this.init.body,
+      timeout: {
+        response: this.init.timeout,
+        body: this.init.bodyTimeout ?? 0,
+      },
+      responseType: 'stream',
+      abortController,
+    })
+
+    if (this.readyState === FexiosEventSource.CLOSED) {
+      ctx.data.cancel().catch(() => {})
+      return
+    }
+
+    const contentType = ctx.rawResponse.headers.get('content-type') ?? ''
+    if (!contentType.toLowerCase().includes('text/event-stream')) {
+      ctx.data.cancel().catch(() => {})
+      throw new FexiosError(
+        FexiosErrorCodes.UNSUPPORTED_RESPONSE_TYPE,
+        `Expected "text/event-stream" response, but got "${contentType}"`,
+        ctx
+      )
+    }
+
+    this.readyState = FexiosEventSource.OPEN
+    this.fire(new Event('open'))
+    this.consume(ctx.data, abortController)
+  }
+
+  close(): void {
+    if (this.readyState === FexiosEventSource.CLOSED) return
+    this.readyState = FexiosEventSource.CLOSED
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    // the request stays linked until the stream settles, aborting cancels the stream
+    this.abortController?.abort()
+    this.dispatchEvent(new Event('close'))
+  }
+
+  private async consume(
+    stream: ReadableStream<Uint8Array>,
+    abortController: AbortController
+  ) {
+    this.resetBuffers()
+    let first = true
+    try {
+      for await (let line of FexiosStreamReader.lines(stream)) {
+        if (abortController.signal.aborted) return
+        if (first) {
+          // strip UTF-8 BOM
+          if (line.charCodeAt(0) === 0xfeff) line = line.slice(1)
+          first = false
+        }
+        this.handleLine(line)
+      }
+    } catch {
+      // connection lost, handled below
+    }
+    if (abortController.signal.aborted) return
+    this.scheduleReconnect()
+  }
+
+  private scheduleReconnect(error?: unknown) {
+    if (this.readyState === FexiosEventSource.CLOSED) return
+
+    const fatal =
+      this.init.reconnect === false ||
+      error instanceof FexiosResponseError ||
+      (error instanceof FexiosError &&
+        error.code === FexiosErrorCodes.UNSUPPORTED_RESPONSE_TYPE)
+    if (fatal) {
+      this.readyState = FexiosEventSource.CLOSED
+      this.fire(new Event('error'))
+      return
+    }
+
+    this.readyState = FexiosEventSource.CONNECTING
+    this.fire(new Event('error'))
+    // listeners may close the connection in "error" event
+    if (this.readyState === FexiosEventSource.CLOSED) return
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined
+      this.connect().catch((err) => this.scheduleReconnect(err))
+    }, this.retryInterval)
+  }
+
+  private handleLine(line: string) {
+    // empty line: dispatch the event
+    if (line === '') {
+      this.dispatchMessage()
+      return
+    }
+    // comment
+    if (line.startsWith(':')) return
+
+    const colon = line.indexOf(':')
+    const field = colon >= 0 ? line.slice(0, colon) : line
+    let value = colon >= 0 ? line.slice(colon + 1) : ''
+    if (value.startsWith(' ')) value = value.slice(1)
+
+    switch (field) {
+      case 'event':
+        this.eventType = value
+        break
+      case 'data':
+        this.dataBuffer.push(value)
+        break
+      case 'id':
+        if (!value.includes('\0')) this.eventIdBuffer = value
+        break
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retryInterval = parseInt(value, 10)
+        break
+      default:
+        // unknown field, ignore
+        break
+    }
+  }
+
+  private dispatchMessage() {
+    this.lastEventId = this.eventIdBuffer
+    if (this.dataBuffer.length === 0) {
+      this.eventType = ''
+      return
+    }
+    const event = new MessageEvent(this.eventType || 'message', {
+      data: this.dataBuffer.join('\n'),
+      lastEventId: this.lastEventId,
+      origin: new URL(this.url).origin,
+    })
+    this.eventType = ''
+    this.dataBuffer = []
+    this.fire(event)
+  }
+
+  private resetBuffers() {
+    this.eventType = ''
+    this.dataBuffer = []
+    this.eventIdBuffer = this.lastEventId
+  }
+
+  private fire(event: Event) {
+    this.dispatchEvent(event)
+    const handler =
+      event.type === 'open'
+        ? this.onopen
+        : event.type === 'message'
+        ? this.onmessage
+        : event.type === 'error'
+        ? this.onerror
+        : null
+    handler?.call(this, event)
+  }
+}
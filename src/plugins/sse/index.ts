@@ -1,6 +1,13 @@
 import type { FexiosPlugin } from '@/types.js'
 import { FexiosError, FexiosErrorCodes } from '@/models/errors.js'
 import { FexiosQueryBuilder } from '@/models/query-builder.js'
+import { resolveTimeoutOptions } from '@/utils/timeout.js'
+import {
+  FexiosEventSource,
+  type FexiosEventSourceInit,
+} from './FexiosEventSource.js'
+
+export * from './FexiosEventSource.js'
 
 export type FexiosSSEOptions = {
   /**
@@ -12,12 +19,19 @@ export type FexiosSSEOptions = {
    * @default app.baseConfigs.timeout ?? 60000
    */
   timeout?: number
-}
+  /**
+   * Transport to use:
+   * - `eventsource`: native `EventSource` (default)
+   * - `fetch`: perform real requests via `Fexios.request` and parse the event stream by itself,
+   *   supports custom method/headers/body, lifecycle hooks, and auto-reconnect with `Last-Event-ID`
+   */
+  transport?: 'eventsource' | 'fetch'
+} & Omit<FexiosEventSourceInit, 'timeout'>
 
 export type FexiosSSEContext = {
   url: string
   timeout: number
-  eventSource?: EventSource
+  eventSource?: EventSource | FexiosEventSource
 }
 
 declare module 'fexios' {
@@ -26,7 +40,13 @@ declare module 'fexios' {
      * Connect SSE (EventSource) (moved out of core).
      * Resolves after the connection is opened.
      */
-    sse: (url: string | URL, options?: FexiosSSEOptions) => Promise<EventSource>
+    sse: {
+      (
+        url: string | URL,
+        options: FexiosSSEOptions & { transport: 'fetch' }
+      ): Promise<FexiosEventSource>
+      (url: string | URL, options?: FexiosSSEOptions): Promise<EventSource>
+    }
   }
 }
 
@@ -133,11 +153,53 @@ async function waitForSseOpen(es: EventSource, delay: number) {
   })
 }
 
+async function connectViaFetch(
+  fx: Parameters<FexiosPlugin['install']>[0],
+  ctx: FexiosSSEContext,
+  options: FexiosSSEOptions
+) {
+  const { transport, query, ...init } = options
+  const es = new FexiosEventSource(fx, ctx.url, {
+    ...init,
+    timeout: ctx.timeout,
+  })
+  ctx.eventSource = es
+
+  es.addEventListener('open', (event) => {
+    ;(fx as any).emit('sse:open', { ...ctx, event })
+  })
+  es.addEventListener('message', (event) => {
+    ;(fx as any).emit('sse:message', { ...ctx, event: event as any })
+  })
+  es.addEventListener('error', (event) => {
+    ;(fx as any).emit('sse:error', { ...ctx, event })
+  })
+  es.addEventListener('close', () => {
+    ;(fx as any).emit('sse:close', { ...ctx })
+  })
+
+  try {
+    await es.connect()
+  } catch (err: any) {
+    es.close()
+    if (err instanceof FexiosError) throw err
+    throw new FexiosError(
+      FexiosErrorCodes.NETWORK_ERROR,
+      err?.message ?? 'SSE connection failed to open',
+      undefined,
+      { cause: err }
+    )
+  }
+  return es
+}
+
 export const pluginSSE: FexiosPlugin = {
   name: 'fexios-plugin-sse',
   install(fx) {
-    fx.sse = async (url, options) => {
-      const delay = options?.timeout ?? fx.baseConfigs.timeout ?? 60_000
+    fx.sse = (async (url: string | URL, options?: FexiosSSEOptions) => {
+      const delay =
+        options?.timeout ??
+        resolveTimeoutOptions(fx.baseConfigs.timeout).response
       const sseUrl = normalizeSseURL(
         url,
         fx.baseConfigs.baseURL || 'http://localhost',
@@ -154,6 +216,10 @@ export const pluginSSE: FexiosPlugin = {
         baseCtx
       )) as FexiosSSEContext
 
+      if (options?.transport === 'fetch') {
+        return connectViaFetch(fx, ctx, options)
+      }
+
       const es = new EventSource(ctx.url)
       ctx.eventSource = es
 
@@ -187,7 +253,7 @@ export const pluginSSE: FexiosPlugin = {
         )
       }
       return es
-    }
+    }) as typeof fx.sse
 
     return fx
   },
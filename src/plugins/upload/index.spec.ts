@@ -0,0 +1,276 @@
+import { describe, expect, it } from 'vitest'
+import { Fexios, FexiosErrorCodes } from '@/index.js'
+import { MOCK_FETCH_BASE_URL } from '@/../test/mockFetch.js'
+import {
+  encodeTusMetadata,
+  FexiosMemoryUploadStore,
+  pluginUpload,
+} from './index.js'
+import { pluginRetry } from '../retry/index.js'
+
+const CONTENT = 'hello chunked upload!'
+const file = new File([CONTENT], 'hello.txt', { lastModified: 1 })
+
+// stores chunks by Content-Range, `fail(index)` may return an error response
+const createRangeServer = (fail?: (start: number) => Response | void) => {
+  const received = new Map<number, string>()
+  const requests: Request[] = []
+  const fetch = async (req: Request | string | URL) => {
+    const request = req as Request
+    requests.push(request)
+    const [, start] = /bytes (\d+)-(\d+)\/(\d+)/.exec(
+      request.headers.get('content-range')!
+    )!
+    const failed = fail?.(Number(start))
+    if (failed) return failed
+    received.set(Number(start), await request.text())
+    return Response.json({ received: received.size })
+  }
+  const content = () =>
+    [...received.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, text]) => text)
+      .join('')
+  return { fetch, requests, received, content }
+}
+
+// minimal tus server, PATCH with `fail` returns that response
+const createTusServer = (fail?: (offset: number) => Response | void) => {
+  const uploads = new Map<string, string>()
+  const requests: Request[] = []
+  const fetch = async (req: Request | string | URL) => {
+    const request = req as Request
+    requests.push(request)
+    expect(request.headers.get('tus-resumable')).toBe('1.0.0')
+    const { pathname } = new URL(request.url)
+    if (request.method === 'POST') {
+      const id = `/files/${uploads.size + 1}`
+      uploads.set(id, '')
+      return new Response(null, { status: 201, headers: { location: id } })
+    }
+    const data = uploads.get(pathname)
+    if (data === undefined) return new Response(null, { status: 404 })
+    if (request.method === 'HEAD') {
+      return new Response(null, {
+        headers: { 'upload-offset': String(data.length) },
+      })
+    }
+    const offset = Number(request.headers.get('upload-offset'))
+    if (offset !== data.length) return new Response(null, { status: 409 })
+    const failed = fail?.(offset)
+    if (failed) return failed
+    const next = data + (await request.text())
+    uploads.set(pathname, next)
+    return new Response(null, {
+      status: 204,
+      headers: { 'upload-offset': String(next.length) },
+    })
+  }
+  return { fetch, requests, uploads }
+}
+
+describe('Upload Plugin', () => {
+  it('should upload chunks with Content-Range and retry failed ones', async () => {
+    let failures = 0
+    const server = createRangeServer((start) => {
+      if (start === 8 && failures++ === 0) {
+        return new Response('busy', { status: 503 })
+      }
+    })
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch: server.fetch })
+    fx.plugin(pluginUpload)
+    let hooked = 0
+    fx.on('beforeRequest', (ctx) => {
+      hooked++
+      return ctx
+    })
+
+    const progress: number[] = []
+    const result = await fx.upload('/upload/hello.txt', file, {
+      chunkSize: 4,
+      concurrency: 2,
+      retryDelay: 1,
+      request: { headers: { authorization: 'Bearer x' } },
+      onProgress: (e) => progress.push(e.loaded),
+    })
+
+    expect(server.content()).toBe(CONTENT)
+    expect(server.requests).toHaveLength(7)
+    expect(hooked).toBe(7)
+    expect(server.requests[0].method).toBe('PUT')
+    expect(server.requests[0].headers.get('content-range')).toBe(
+      `bytes 0-3/${CONTENT.length}`
+    )
+    expect(server.requests[0].headers.get('authorization')).toBe('Bearer x')
+    expect(progress.at(-1)).toBe(CONTENT.length)
+    expect(result.size).toBe(CONTENT.length)
+    expect(result.resumedBytes).toBe(0)
+    expect(result.ctx.data).toEqual({ received: 6 })
+  })
+
+  it('should not stack pluginRetry on the chunk retries', async () => {
+    const server = createRangeServer(
+      () => new Response('busy', { status: 503 })
+    )
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: server.fetch,
+      retry: { baseDelay: 1 },
+    })
+    fx.plugin(pluginRetry).plugin(pluginUpload)
+
+    await expect(
+      fx.upload('/upload/hello.txt', file, {
+        chunkSize: CONTENT.length,
+        retries: 1,
+        retryDelay: 1,
+      })
+    ).rejects.toThrow()
+    // 1 attempt + 1 retry of the task, none by pluginRetry
+    expect(server.requests).toHaveLength(2)
+  })
+
+  it('should resume uploaded chunks from the store', async () => {
+    const store = new FexiosMemoryUploadStore()
+    let broken = true
+    const server = createRangeServer((start) => {
+      if (start === 12 && broken) return new Response(null, { status: 400 })
+    })
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: server.fetch,
+      upload: { chunkSize: 4, concurrency: 1 },
+    })
+    fx.plugin(pluginUpload)
+    fx.uploadStore = store
+
+    const error = await fx.upload('/upload', file).catch((e) => e)
+    expect(error.response.status).toBe(400)
+    expect(store.size).toBe(1)
+
+    broken = false
+    server.requests.length = 0
+    const result = await fx.upload('/upload', file)
+    expect(result.resumedBytes).toBe(12)
+    expect(server.requests).toHaveLength(3)
+    expect(server.content()).toBe(CONTENT)
+    expect(store.size).toBe(0)
+  })
+
+  it('should upload with the tus protocol', async () => {
+    let failures = 0
+    const server = createTusServer((offset) => {
+      if (offset === 8 && failures++ === 0) {
+        return new Response(null, { status: 500 })
+      }
+    })
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch: server.fetch })
+    fx.plugin(pluginUpload)
+
+    const result = await fx.upload('/files', file, {
+      protocol: 'tus',
+      chunkSize: 8,
+      retryDelay: 1,
+      metadata: { type: 'text/plain' },
+    })
+
+    expect(result.url).toBe(`${MOCK_FETCH_BASE_URL}/files/1`)
+    expect(server.uploads.get('/files/1')).toBe(CONTENT)
+    expect(server.requests.map((r) => r.method)).toEqual([
+      'POST',
+      'PATCH',
+      'PATCH',
+      'HEAD',
+      'PATCH',
+      'PATCH',
+    ])
+    expect(server.requests[0].headers.get('upload-length')).toBe(
+      String(CONTENT.length)
+    )
+    expect(server.requests[0].headers.get('upload-metadata')).toBe(
+      encodeTusMetadata({ filename: 'hello.txt', type: 'text/plain' })
+    )
+    expect(server.requests[1].headers.get('content-type')).toBe(
+      'application/offset+octet-stream'
+    )
+  })
+
+  it('should abort and resume a tus upload', async () => {
+    const store = new FexiosMemoryUploadStore()
+    const controller = new AbortController()
+    const server = createTusServer()
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch: server.fetch })
+    fx.plugin(pluginUpload)
+    const options = { protocol: 'tus', chunkSize: 8, store } as const
+
+    const error = await fx
+      .upload('/files', file, {
+        ...options,
+        signal: controller.signal,
+        // pause after the first chunk
+        onProgress: () => controller.abort('pause'),
+      })
+      .catch((e) => e)
+    expect(error.code).toBe(FexiosErrorCodes.ABORTED)
+    expect(error.cause).toBe('pause')
+
+    server.requests.length = 0
+    const result = await fx.upload('/files', file, options)
+    expect(result.resumedBytes).toBe(8)
+    expect(server.requests.map((r) => r.method)).toEqual([
+      'HEAD',
+      'PATCH',
+      'PATCH',
+    ])
+    expect(server.uploads.get('/files/1')).toBe(CONTENT)
+    expect(store.size).toBe(0)
+  })
+
+  it('should resume a tus upload that is already complete', async () => {
+    const store = new FexiosMemoryUploadStore()
+    const server = createTusServer()
+    server.uploads.set('/files/1', CONTENT)
+    await store.set('done', {
+      protocol: 'tus',
+      size: file.size,
+      chunkSize: 8,
+      uploadURL: `${MOCK_FETCH_BASE_URL}/files/1`,
+    })
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch: server.fetch })
+    fx.plugin(pluginUpload)
+
+    const result = await fx.upload('/files', file, {
+      protocol: 'tus',
+      chunkSize: 8,
+      key: 'done',
+      store,
+    })
+    expect(result.resumedBytes).toBe(file.size)
+    expect(result.ctx.response.status).toBe(200)
+    expect(server.requests.map((r) => r.method)).toEqual(['HEAD'])
+    expect(store.size).toBe(0)
+  })
+
+  it('should stop listening to the signal once settled', async () => {
+    const server = createRangeServer()
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch: server.fetch })
+    fx.plugin(pluginUpload)
+
+    const { signal } = new AbortController()
+    const listeners = new Set<unknown>()
+    const add = signal.addEventListener.bind(signal)
+    const remove = signal.removeEventListener.bind(signal)
+    signal.addEventListener = (type: string, listener: any, options?: any) => {
+      listeners.add(listener)
+      add(type, listener, options)
+    }
+    signal.removeEventListener = (type: string, listener: any) => {
+      listeners.delete(listener)
+      remove(type, listener)
+    }
+
+    await fx.upload('/upload/hello.txt', file, { chunkSize: 8, signal })
+    expect(server.content()).toBe(CONTENT)
+    expect(listeners.size).toBe(0)
+  })
+})
@@ -0,0 +1,491 @@
+import type { Fexios } from '@/fexios.js'
+import type {
+  FexiosFinalContext,
+  FexiosPlugin,
+  FexiosProgressEvent,
+  FexiosRequestOptions,
+} from '@/types.js'
+import {
+  FexiosError,
+  FexiosErrorCodes,
+  FexiosResponseError,
+} from '@/models/errors.js'
+import { resolveOptions } from '@/utils/resolve-options.js'
+import { linkSignal } from '@/utils/signal.js'
+import { sleep } from '@/utils/sleep.js'
+import { computeBackoff, parseRetryAfter } from '../retry/index.js'
+import { FexiosMemoryUploadStore, type FexiosUploadStore } from './storage.js'
+
+export * from './storage.js'
+
+const TUS_VERSION = '1.0.0'
+
+export type FexiosUploadOptions = {
+  /**
+   * Upload protocol:
+   * - `content-range` - `PUT` each chunk to the URL with a `Content-Range` header
+   * - `tus` - the tus.io resumable upload protocol (core protocol + creation), chunks are sent in order
+   * @default 'content-range'
+   */
+  protocol: 'content-range' | 'tus'
+  /**
+   * Chunk size in bytes
+   * @default 5 * 1024 * 1024
+   */
+  chunkSize: number
+  /**
+   * Max chunks uploaded at the same time, `content-range` protocol only
+   * @default 3
+   */
+  concurrency: number
+  /**
+   * Max retries of each request, on network errors, timeouts and 408/429/5xx responses
+   * @default 3
+   */
+  retries: number
+  /**
+   * Base delay (ms) of the exponential backoff between retries, `Retry-After` is honored
+   * @default 1000
+   */
+  retryDelay: number
+  /**
+   * Store of resume states, states are deleted once the upload completes.
+   * Pass it per call, base configs are cloned when merged.
+   * @default fx.uploadStore
+   */
+  store?: FexiosUploadStore
+  /**
+   * Key of the resume state
+   * @default protocol, URL, file name, size and last modified time
+   */
+  key?: string
+  /** `Upload-Metadata` of the tus protocol, the file name is sent as `filename` by default */
+  metadata?: Record<string, string>
+  /** Called after each chunk is uploaded */
+  onProgress?: (event: FexiosProgressEvent) => void
+  /** Abort the upload, it rejects with `FexiosErrorCodes.ABORTED` and keeps the resume state */
+  signal?: AbortSignal
+  /** Extra options of every request, e.g. `headers`, `query` or `tags` */
+  request?: Partial<FexiosRequestOptions>
+}
+
+export type FexiosUploadResult = {
+  /** Where the file is uploaded, the upload URL for `tus` */
+  url: string
+  size: number
+  /** Bytes skipped because they were uploaded before */
+  resumedBytes: number
+  /** Context of the last request, the `HEAD` one if a resumed tus upload was already complete */
+  ctx: FexiosFinalContext
+}
+
+declare module 'fexios' {
+  interface Fexios {
+    /**
+     * Default resume state store of `pluginUpload`, replace it to use a custom adapter
+     */
+    uploadStore?: FexiosUploadStore
+    /**
+     * Upload a file in chunks with retries and resume support, requires `pluginUpload`.
+     * Every chunk is sent with `fx.request()`, so hooks apply to each of them.
+     */
+    upload: (
+      url: string | URL,
+      file: Blob,
+      options?: Partial<FexiosUploadOptions>
+    ) => Promise<FexiosUploadResult>
+  }
+}
+
+declare module 'fexios/types' {
+  interface FexiosConfigs {
+    /**
+     * Default options of `fx.upload()`, requires `pluginUpload`
+     */
+    upload?: Partial<FexiosUploadOptions>
+  }
+}
+
+const DEFAULT_UPLOAD_OPTIONS: FexiosUploadOptions = {
+  protocol: 'content-range',
+  chunkSize: 5 * 1024 * 1024,
+  concurrency: 3,
+  retries: 3,
+  retryDelay: 1000,
+}
+
+const RETRY_STATUS_CODES = [408, 429, 500, 502, 503, 504]
+const RETRY_ERROR_CODES: string[] = [
+  FexiosErrorCodes.TIMEOUT,
+  FexiosErrorCodes.NETWORK_ERROR,
+]
+
+const encodeBase64 = (value: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(value)))
+
+/**
+ * Encode `Upload-Metadata` header of the tus protocol
+ */
+export function encodeTusMetadata(metadata: Record<string, string>) {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${encodeBase64(value)}`)
+    .join(',')
+}
+
+/**
+ * Run one upload, shared by both protocols
+ */
+class FexiosUploadTask {
+  readonly controller = new AbortController()
+  readonly size: number
+  /** Stop listening to the signal of the user */
+  readonly dispose: () => void
+  private startedAt = Date.now()
+  private uploaded = 0
+  private resumed = 0
+
+  constructor(
+    readonly fx: Fexios,
+    readonly url: string,
+    readonly file: Blob,
+    readonly options: FexiosUploadOptions,
+    readonly store: FexiosUploadStore,
+    readonly key: string
+  ) {
+    this.size = file.size
+    this.dispose = linkSignal(this.controller, options.signal)
+  }
+
+  get signal() {
+    return this.controller.signal
+  }
+
+  request(
+    url: string,
+    options: Partial<FexiosRequestOptions>
+  ): Promise<FexiosFinalContext> {
+    const extra = this.options.request || {}
+    return this.fx.request(url, {
+      // retried by the task itself, keep `pluginRetry` out of it
+      retry: false,
+      ...extra,
+      ...options,
+      headers: this.fx.mergeHeaders(
+        extra.headers as Record<string, unknown>,
+        options.headers as Record<string, unknown>
+      ),
+      signal: this.signal,
+    })
+  }
+
+  /**
+   * Run a request with retries
+   * @param retryStatusCodes extra status codes to retry
+   */
+  async retry<T>(
+    task: (attempt: number) => Promise<T>,
+    retryStatusCodes: number[] = []
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await task(attempt)
+      } catch (error) {
+        const status =
+          error instanceof FexiosResponseError
+            ? error.response.status
+            : undefined
+        const retryable =
+          status !== undefined
+            ? [...RETRY_STATUS_CODES, ...retryStatusCodes].includes(status)
+            : error instanceof FexiosError &&
+              RETRY_ERROR_CODES.includes(error.code)
+        if (attempt > this.options.retries || !retryable || this.signal.aborted)
+          throw error
+        const retryAfter =
+          error instanceof FexiosResponseError
+            ? parseRetryAfter(error.response.headers.get('retry-after'))
+            : undefined
+        await sleep(
+          retryAfter ??
+            computeBackoff(attempt, this.options.retryDelay, 30_000),
+          this.signal
+        )
+      }
+    }
+  }
+
+  resume(bytes: number) {
+    this.resumed += bytes
+    this.uploaded += bytes
+  }
+
+  report(bytes: number) {
+    this.uploaded += bytes
+    const elapsed = (Date.now() - this.startedAt) / 1000
+    const rate =
+      elapsed > 0 ? (this.uploaded - this.resumed) / elapsed : undefined
+    try {
+      this.options.onProgress?.({
+        loaded: this.uploaded,
+        total: this.size,
+        bytes,
+        progress: this.size ? Math.min(1, this.uploaded / this.size) : 1,
+        rate,
+        estimated: rate
+          ? Math.max(0, (this.size - this.uploaded) / rate)
+          : undefined,
+      })
+    } catch {
+      // progress callback should never break the upload
+    }
+  }
+
+  result(url: string, ctx: FexiosFinalContext): FexiosUploadResult {
+    return { url, size: this.size, resumedBytes: this.resumed, ctx }
+  }
+}
+
+async function uploadContentRange(
+  task: FexiosUploadTask
+): Promise<FexiosUploadResult> {
+  const { file, size, store, key } = task
+  const { chunkSize, concurrency } = task.options
+  const count = Math.max(1, Math.ceil(size / chunkSize))
+
+  const saved = await store.get(key)
+  const uploaded = new Set(
+    saved?.protocol === 'content-range' &&
+      saved.size === size &&
+      saved.chunkSize === chunkSize
+      ? saved.uploadedChunks
+      : []
+  )
+  const pending: number[] = []
+  for (let index = 0; index < count; index++) {
+    if (!uploaded.has(index)) pending.push(index)
+  }
+  task.resume(
+    [...uploaded].reduce(
+      (bytes, index) => bytes + Math.min(chunkSize, size - index * chunkSize),
+      0
+    )
+  )
+  // an interrupted upload may have sent every chunk, send the last one again to get the final response
+  if (pending.length === 0) pending.push(count - 1)
+
+  let last: FexiosFinalContext | undefined
+  let next = 0
+  const worker = async () => {
+    while (next < pending.length) {
+      const index = pending[next++]
+      const start = index * chunkSize
+      const end = Math.min(size, start + chunkSize)
+      last = await task.retry(() =>
+        task.request(task.url, {
+          method: 'PUT',
+          body: file.slice(start, end),
+          headers: {
+            'Content-Range':
+              size === 0 ? 'bytes */0' : `bytes ${start}-${end - 1}/${size}`,
+          },
+        })
+      )
+      if (!uploaded.has(index)) {
+        uploaded.add(index)
+        task.report(end - start)
+      }
+      await store.set(key, {
+        protocol: 'content-range',
+        size,
+        chunkSize,
+        uploadedChunks: [...uploaded],
+      })
+    }
+  }
+
+  try {
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, pending.length) }, worker)
+    )
+  } catch (error) {
+    // stop the other workers
+    task.controller.abort(error)
+    throw error
+  }
+  await store.delete(key)
+  return task.result(task.url, last!)
+}
+
+async function uploadTus(task: FexiosUploadTask): Promise<FexiosUploadResult> {
+  const { file, size, store, key } = task
+  const { chunkSize } = task.options
+  const tusHeaders = { 'Tus-Resumable': TUS_VERSION }
+  // context of the last request, the HEAD one if the resumed upload is already complete
+  let last: FexiosFinalContext | undefined
+
+  // current offset of the upload, `undefined` if it is gone on the server
+  const headOffset = (uploadURL: string) =>
+    task.retry(async () => {
+      try {
+        const ctx = await task.request(uploadURL, {
+          method: 'HEAD',
+          headers: tusHeaders,
+        })
+        last = ctx
+        return parseOffset(ctx)
+      } catch (error) {
+        if (
+          error instanceof FexiosResponseError &&
+          [403, 404, 410].includes(error.response.status)
+        ) {
+          return undefined
+        }
+        throw error
+      }
+    })
+
+  const saved = await store.get(key)
+  const savedURL =
+    saved?.protocol === 'tus' && saved.size === size
+      ? saved.uploadURL
+      : undefined
+  const savedOffset = savedURL ? await headOffset(savedURL) : undefined
+  let uploadURL: string
+  let offset: number
+
+  if (savedURL && savedOffset !== undefined) {
+    uploadURL = savedURL
+    offset = savedOffset
+    task.resume(offset)
+  } else {
+    const metadata = {
+      ...(typeof (file as File).name === 'string'
+        ? { filename: (file as File).name }
+        : {}),
+      ...task.options.metadata,
+    }
+    last = await task.retry(() =>
+      task.request(task.url, {
+        method: 'POST',
+        headers: {
+          ...tusHeaders,
+          'Upload-Length': String(size),
+          'Upload-Metadata': encodeTusMetadata(metadata) || undefined,
+        },
+      })
+    )
+    const location = last.headers.get('location')
+    if (!location) {
+      throw new FexiosError(
+        FexiosErrorCodes.UPLOAD_PROTOCOL_ERROR,
+        'tus upload creation response has no Location header',
+        last
+      )
+    }
+    uploadURL = new URL(location, last.request.url).toString()
+    offset = 0
+    await store.set(key, { protocol: 'tus', size, chunkSize, uploadURL })
+  }
+
+  while (offset < size) {
+    const patch = async (attempt: number) => {
+      // the server may have received part of the failed chunk
+      if (attempt > 1) {
+        const current = await headOffset(uploadURL)
+        if (current === undefined) {
+          throw new FexiosError(
+            FexiosErrorCodes.UPLOAD_PROTOCOL_ERROR,
+            'tus upload is gone on the server'
+          )
+        }
+        if (current > offset) task.report(current - offset)
+        offset = current
+      }
+      return task.request(uploadURL, {
+        method: 'PATCH',
+        body: file.slice(offset, offset + chunkSize),
+        headers: {
+          ...tusHeaders,
+          'Upload-Offset': String(offset),
+          'Content-Type': 'application/offset+octet-stream',
+        },
+      })
+    }
+    last = await task.retry(patch, [409])
+    const next = parseOffset(last)
+    if (next > offset) task.report(next - offset)
+    offset = next
+  }
+
+  await store.delete(key)
+  return task.result(uploadURL, last!)
+}
+
+function parseOffset(ctx: FexiosFinalContext) {
+  const offset = parseInt(ctx.headers.get('upload-offset') ?? '', 10)
+  if (!Number.isFinite(offset) || offset < 0) {
+    throw new FexiosError(
+      FexiosErrorCodes.UPLOAD_PROTOCOL_ERROR,
+      'tus response has no valid Upload-Offset header',
+      ctx
+    )
+  }
+  return offset
+}
+
+export const pluginUpload: FexiosPlugin = {
+  name: 'fexios-plugin-upload',
+  install(fx) {
+    fx.uploadStore = new FexiosMemoryUploadStore()
+
+    fx.upload = async (url, file, options) => {
+      const resolved = resolveOptions(
+        DEFAULT_UPLOAD_OPTIONS,
+        fx.baseConfigs.upload,
+        options
+      )
+      const href = url.toString()
+      const key =
+        resolved.key ??
+        [
+          resolved.protocol,
+          href,
+          (file as File).name ?? '',
+          file.size,
+          (file as File).lastModified ?? '',
+        ].join(':')
+      const task = new FexiosUploadTask(
+        fx,
+        href,
+        file,
+        resolved,
+        resolved.store ?? fx.uploadStore ?? new FexiosMemoryUploadStore(),
+        key
+      )
+      try {
+        return resolved.protocol === 'tus'
+          ? await uploadTus(task)
+          : await uploadContentRange(task)
+      } catch (error) {
+        // e.g. aborted while waiting for a retry
+        if (!(error instanceof FexiosError) && task.signal.aborted) {
+          throw new FexiosError(
+            FexiosErrorCodes.ABORTED,
+            'Upload aborted',
+            undefined,
+            { cause: error }
+          )
+        }
+        throw error
+      } finally {
+        task.dispose()
+      }
+    }
+
+    return fx
+  },
+  uninstall(fx) {
+    fx.upload = undefined as any
+    fx.uploadStore = undefined
+  },
+}
@@ -0,0 +1,49 @@
+/**
+ * Serializable resume state of an upload
+ */
+export type FexiosUploadState = {
+  protocol: 'content-range' | 'tus'
+  /** File size, the state is discarded if the file changes */
+  size: number
+  chunkSize: number
+  /** Indexes of uploaded chunks, `content-range` protocol only */
+  uploadedChunks?: number[]
+  /** Upload URL created by the server, `tus` protocol only */
+  uploadURL?: string
+}
+
+type MaybePromise<T> = T | Promise<T>
+
+/**
+ * Resume state store of `pluginUpload`.
+ * Implement this interface to persist states in localStorage, IndexedDB, files, etc.
+ */
+export interface FexiosUploadStore {
+  get(key: string): MaybePromise<FexiosUploadState | undefined>
+  set(key: string, state: FexiosUploadState): MaybePromise<void>
+  delete(key: string): MaybePromise<void>
+}
+
+/**
+ * In-memory store, the default store of `pluginUpload`.
+ * States are lost on reload, so uploads can only be resumed in the same session.
+ */
+export class FexiosMemoryUploadStore implements FexiosUploadStore {
+  private states = new Map<string, FexiosUploadState>()
+
+  get size() {
+    return this.states.size
+  }
+
+  get(key: string) {
+    return this.states.get(key)
+  }
+
+  set(key: string, state: FexiosUploadState) {
+    this.states.set(key, state)
+  }
+
+  delete(key: string) {
+    this.states.delete(key)
+  }
+}
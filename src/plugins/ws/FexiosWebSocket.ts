@@ -0,0 +1,225 @@
+import type { Fexios } from '@/fexios.js'
+import { FexiosError, FexiosErrorCodes } from '@/models/errors.js'
+import type { FexiosWebSocketContext } from './index.js'
+
+export type FexiosWebSocketReconnectOptions = {
+  /**
+   * Max reconnect attempts for each disconnection
+   * @default Infinity
+   */
+  maxAttempts?: number
+  /**
+   * Base delay (ms) of the exponential backoff
+   * @default 1000
+   */
+  baseDelay?: number
+  /**
+   * Max delay (ms) between two attempts
+   * @default 30000
+   */
+  maxDelay?: number
+  /**
+   * Max count of messages buffered while disconnected, the oldest ones are dropped
+   * @default Infinity
+   */
+  maxQueueSize?: number
+  /**
+   * Decide whether to reconnect after the socket is closed unexpectedly
+   * @default () => true
+   */
+  shouldReconnect?: (event: CloseEvent) => boolean
+}
+
+export type FexiosWebSocketState =
+  | 'connecting'
+  | 'open'
+  | 'reconnecting'
+  | 'closed'
+
+type WebSocketSendData = Parameters<WebSocket['send']>[0]
+type WebSocketListener = (event: Event) => void
+
+/**
+ * Managed WebSocket connection, returned by `fx.ws(url, { reconnect })`.
+ *
+ * - Reconnects with exponential backoff when the socket drops.
+ * - Buffers `send()` calls while disconnected, flushes them after reconnected.
+ * - Listeners are attached to this object, so they survive reconnections.
+ */
+export class FexiosWebSocket extends EventTarget {
+  state: FexiosWebSocketState = 'connecting'
+  /** The underlying socket of the current connection */
+  socket?: WebSocket
+  /** The lifecycle context of the current connection */
+  context?: FexiosWebSocketContext
+
+  onopen: WebSocketListener | null = null
+  onmessage: WebSocketListener | null = null
+  onerror: WebSocketListener | null = null
+  onclose: WebSocketListener | null = null
+
+  private queue: WebSocketSendData[] = []
+  private reconnectTimer?: ReturnType<typeof setTimeout>
+  private readonly options: Required<FexiosWebSocketReconnectOptions>
+
+  constructor(
+    private readonly app: Fexios,
+    private readonly connector: () => Promise<FexiosWebSocketContext>,
+    options: FexiosWebSocketReconnectOptions = {}
+  ) {
+    super()
+    this.options = {
+      maxAttempts: Infinity,
+      baseDelay: 1000,
+      maxDelay: 30_000,
+      maxQueueSize: Infinity,
+      shouldReconnect: () => true,
+      ...options,
+    }
+  }
+
+  get url() {
+    return this.context?.url
+  }
+
+  /**
+   * Connect for the first time.
+   * Rejects if the first connection fails, no reconnection is scheduled in that case.
+   */
+  async connect(): Promise<this> {
+    this.attach(await this.connector())
+    this.state = 'open'
+    this.flush()
+    return this
+  }
+
+  send(data: WebSocketSendData): void {
+    if (this.state === 'closed') {
+      throw new FexiosError(
+        FexiosErrorCodes.NETWORK_ERROR,
+        'WebSocket connection is closed'
+      )
+    }
+    if (this.state === 'open' && this.socket?.readyState === 1) {
+      this.socket.send(data)
+      return
+    }
+    this.queue.push(data)
+    if (this.queue.length > this.options.maxQueueSize) {
+      this.queue.shift()
+    }
+  }
+
+  close(code?: number, reason?: string): void {
+    if (this.state === 'closed') return
+    const wasConnected = this.state === 'open'
+    this.state = 'closed'
+    this.queue = []
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    if (wasConnected) {
+      // "close" will be dispatched by the socket close listener
+      this.socket?.close(code, reason)
+    } else {
+      this.fire(Object.assign(new Event('close'), { code, reason }))
+    }
+  }
+
+  private attach(ctx: FexiosWebSocketContext) {
+    const socket = ctx.socket!
+    this.context = ctx
+    this.socket = socket
+
+    socket.addEventListener('message', (event) => {
+      if (this.socket !== socket) return
+      this.fire(new MessageEvent('message', { data: event.data }))
+    })
+    socket.addEventListener('error', () => {
+      if (this.socket !== socket) return
+      this.fire(new Event('error'))
+    })
+    socket.addEventListener('close', (event) => {
+      if (this.socket !== socket) return
+      this.handleClose(event)
+    })
+    this.fire(new Event('open'))
+  }
+
+  private handleClose(event: CloseEvent) {
+    const closeEvent = Object.assign(new Event('close'), {
+      code: event.code,
+      reason: event.reason,
+      wasClean: event.wasClean,
+    })
+    if (this.state === 'closed' || !this.options.shouldReconnect(event)) {
+      this.state = 'closed'
+      this.fire(closeEvent)
+      return
+    }
+    this.reconnect(1)
+  }
+
+  private reconnect(attempt: number) {
+    if (attempt > this.options.maxAttempts) {
+      this.state = 'closed'
+      this.queue = []
+      this.fire(Object.assign(new Event('close'), { code: 1006 }))
+      return
+    }
+
+    const delay = Math.min(
+      this.options.maxDelay,
+      this.options.baseDelay * 2 ** (attempt - 1)
+    )
+    this.state = 'reconnecting'
+    // hooks can not change the reconnection, and should never break it
+    this.app
+      .emit('websocket:reconnecting', { ...this.context!, attempt, delay })
+      .catch(() => {})
+    this.fire(new Event('reconnecting'))
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = undefined
+      try {
+        const ctx = await this.connector()
+        // closed by user while connecting
+        if (this.state === 'closed') {
+          ctx.socket?.close()
+          return
+        }
+        this.attach(ctx)
+        this.state = 'open'
+        this.app
+          .emit('websocket:reconnected', { ...ctx, attempt })
+          .catch(() => {})
+        this.fire(new Event('reconnected'))
+        this.flush()
+      } catch {
+        if (this.state === 'closed') return
+        this.reconnect(attempt + 1)
+      }
+    }, delay)
+  }
+
+  private flush() {
+    const queue = this.queue
+    this.queue = []
+    for (const data of queue) {
+      this.socket!.send(data)
+    }
+  }
+
+  private fire(event: Event) {
+    this.dispatchEvent(event)
+    const handler =
+      event.type === 'open'
+        ? this.onopen
+        : event.type === 'message'
+        ? this.onmessage
+        : event.type === 'error'
+        ? this.onerror
+        : event.type === 'close'
+        ? this.onclose
+        : null
+    handler?.call(this, event)
+  }
+}
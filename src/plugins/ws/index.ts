@@ -1,6 +1,13 @@
 import type { FexiosPlugin } from '@/types.js'
 import { FexiosError, FexiosErrorCodes } from '@/models/errors.js'
 import { FexiosQueryBuilder } from '@/models/query-builder.js'
+import { resolveTimeoutOptions } from '@/utils/timeout.js'
+import {
+  FexiosWebSocket,
+  type FexiosWebSocketReconnectOptions,
+} from './FexiosWebSocket.js'
+
+export * from './FexiosWebSocket.js'
 
 export type FexiosWebSocketOptions = {
   /**
@@ -17,6 +24,11 @@ export type FexiosWebSocketOptions = {
    * @default app.baseConfigs.timeout ?? 60000
    */
   timeout?: number
+  /**
+   * Opt-in managed connection that reconnects automatically.
+   * When set, `fx.ws()` resolves with a `FexiosWebSocket` instead of a raw `WebSocket`.
+   */
+  reconnect?: boolean | FexiosWebSocketReconnectOptions
 }
 
 export type FexiosWebSocketContext = {
@@ -32,10 +44,15 @@ declare module 'fexios' {
      * Connect a WebSocket (moved out of core).
      * Resolves after the socket is opened.
      */
-    ws: (
-      url: string | URL,
-      options?: FexiosWebSocketOptions
-    ) => Promise<WebSocket>
+    ws: {
+      (
+        url: string | URL,
+        options: FexiosWebSocketOptions & {
+          reconnect: true | FexiosWebSocketReconnectOptions
+        }
+      ): Promise<FexiosWebSocket>
+      (url: string | URL, options?: FexiosWebSocketOptions): Promise<WebSocket>
+    }
   }
 }
 
@@ -46,6 +63,11 @@ declare module 'fexios/types' {
     'websocket:message': FexiosWebSocketContext & { event: MessageEvent }
     'websocket:error': FexiosWebSocketContext & { event: Event }
     'websocket:close': FexiosWebSocketContext & { event: CloseEvent }
+    'websocket:reconnecting': FexiosWebSocketContext & {
+      attempt: number
+      delay: number
+    }
+    'websocket:reconnected': FexiosWebSocketContext & { attempt: number }
   }
 }
 
@@ -125,48 +147,70 @@ async function waitForWsOpen(ws: WebSocket, delay: number) {
   })
 }
 
+/**
+ * Run `websocket:beforeConnect` hooks, then open a new socket
+ */
+async function openWebSocket(
+  fx: Parameters<FexiosPlugin['install']>[0],
+  url: string | URL,
+  options?: FexiosWebSocketOptions
+): Promise<FexiosWebSocketContext> {
+  const delay =
+    options?.timeout ?? resolveTimeoutOptions(fx.baseConfigs.timeout).response
+  const wsUrl = normalizeWsURL(
+    url,
+    fx.baseConfigs.baseURL || 'http://localhost',
+    options?.query
+  )
+
+  const baseCtx: FexiosWebSocketContext = {
+    url: wsUrl,
+    protocols: options?.protocols,
+    timeout: delay,
+  }
+
+  // allow user-side adjustments
+  const ctx = (await (fx as any).emit(
+    'websocket:beforeConnect',
+    baseCtx
+  )) as FexiosWebSocketContext
+
+  const ws = new WebSocket(ctx.url, ctx.protocols as any)
+  ctx.socket = ws
+
+  ws.addEventListener('open', () => {
+    ;(fx as any).emit('websocket:open', { ...ctx })
+  })
+  ws.addEventListener('message', (event) => {
+    ;(fx as any).emit('websocket:message', { ...ctx, event })
+  })
+  ws.addEventListener('error', (event) => {
+    ;(fx as any).emit('websocket:error', { ...ctx, event })
+  })
+  ws.addEventListener('close', (event) => {
+    ;(fx as any).emit('websocket:close', { ...ctx, event })
+  })
+
+  await waitForWsOpen(ws, ctx.timeout)
+  return ctx
+}
+
 export const pluginWebSocket: FexiosPlugin = {
   name: 'fexios-plugin-websocket',
   install(fx) {
-    fx.ws = async (url, options) => {
-      const delay = options?.timeout ?? fx.baseConfigs.timeout ?? 60_000
-      const wsUrl = normalizeWsURL(
-        url,
-        fx.baseConfigs.baseURL || 'http://localhost',
-        options?.query
-      )
-
-      const baseCtx: FexiosWebSocketContext = {
-        url: wsUrl,
-        protocols: options?.protocols,
-        timeout: delay,
+    fx.ws = (async (url: string | URL, options?: FexiosWebSocketOptions) => {
+      if (options?.reconnect) {
+        const managed = new FexiosWebSocket(
+          fx,
+          // re-run beforeConnect hooks on every attempt (e.g. to refresh tokens)
+          () => openWebSocket(fx, url, options),
+          options.reconnect === true ? {} : options.reconnect
+        )
+        return managed.connect()
       }
-
-      // allow user-side adjustments
-      const ctx = (await (fx as any).emit(
-        'websocket:beforeConnect',
-        baseCtx
-      )) as FexiosWebSocketContext
-
-      const ws = new WebSocket(ctx.url, ctx.protocols as any)
-      ctx.socket = ws
-
-      ws.addEventListener('open', () => {
-        ;(fx as any).emit('websocket:open', { ...ctx })
-      })
-      ws.addEventListener('message', (event) => {
-        ;(fx as any).emit('websocket:message', { ...ctx, event })
-      })
-      ws.addEventListener('error', (event) => {
-        ;(fx as any).emit('websocket:error', { ...ctx, event })
-      })
-      ws.addEventListener('close', (event) => {
-        ;(fx as any).emit('websocket:close', { ...ctx, event })
-      })
-
-      await waitForWsOpen(ws, ctx.timeout)
-      return ws
-    }
+      const ctx = await openWebSocket(fx, url, options)
+      return ctx.socket!
+    }) as typeof fx.ws
 
     return fx
   },
@@ -1,5 +1,7 @@
 import { Fexios } from './fexios.js'
 import { FexiosResponse } from './models/response.js'
+import type { StandardSchemaV1 } from './models/standard-schema.js'
+import type { FexiosPathBuilder } from './models/path-builder.js'
 
 /**
  * Type definitions for Fexios
@@ -14,7 +16,12 @@ export type FetchLike = (
 
 export interface FexiosConfigs {
   baseURL: string | URL
-  timeout: number
+  /**
+   * Timeouts (ms), `0` means no timeout.
+   * A number is the `response` timeout, use an object to set each phase.
+   * Exceeding any of them rejects with `FexiosTimeoutError` (`FexiosErrorCodes.TIMEOUT`).
+   */
+  timeout: number | Partial<FexiosTimeoutOptions>
   /**
    * Query parameters, its value can be:
    * - `null`      - to remove the item
@@ -57,8 +64,15 @@ export interface FexiosConfigs {
    * - If body is Blob or TypedArray, it will be converted to ArrayBuffer.
    * - If body is text-like, it will be converted to ArrayBuffer using UTF-8 encoding.
    *
+   * ### `"stream"`
+   * - Body is NOT buffered, `data` is the `ReadableStream<Uint8Array>` of the response.
+   * - Use `FexiosStreamReader` helpers to iterate text chunks, lines or NDJSON records.
+   * - `data` is the body of `rawResponse` itself (not a clone), so reading it consumes `rawResponse`.
+   * - Never auto-detected, must be set explicitly.
+   *
    * ### `undefined`
    * This means auto-detect based on content-type header.
+   * - Parsers registered in `fx.codecs` are tried first, see `FexiosCodecRegistry`.
    * - `application/json` -> JSON
    * - `text/plain` -> Try to parse as JSON, if fails, Text
    * - `text/*`, `application/text`, `application/xml`, `application/javascript` -> Text
@@ -70,10 +84,47 @@ export interface FexiosConfigs {
    *
    * If transformation fails, ArrayBuffer / stream / FormData will be sent as is.
    */
-  responseType?: 'json' | 'text' | 'form' | 'blob' | 'arrayBuffer'
+  responseType?: 'json' | 'text' | 'form' | 'blob' | 'arrayBuffer' | 'stream'
+  /**
+   * JSON codec options, used to parse JSON responses (including text sniffed as JSON)
+   * and to serialize JSON request bodies.
+   * Options of a request are merged into the ones of the instance.
+   */
+  json?: FexiosJsonOptions
   fetch?: FetchLike
 }
 
+export interface FexiosJsonOptions {
+  /** Called for each parsed value, after unsafe integers and dates are revived */
+  reviver?: (this: any, key: string, value: any) => any
+  /** Called for each serialized value, `bigint` values are written as JSON numbers */
+  replacer?: (this: any, key: string, value: any) => any
+  /**
+   * How to parse integers beyond `Number.MAX_SAFE_INTEGER`, e.g. 64-bit snowflake IDs:
+   * - `'number'` - as is, precision may be lost
+   * - `'bigint'` - as `bigint`
+   * - `'string'` - as the original digits
+   * @default 'number'
+   */
+  unsafeIntegers?: 'number' | 'bigint' | 'string'
+  /** Revive ISO 8601 date-time strings (e.g. `2024-01-01T00:00:00Z`) as `Date` */
+  reviveDates?: boolean
+}
+
+export interface FexiosTimeoutOptions {
+  /** Max time until response headers arrive */
+  response: number
+  /** Max idle time between two chunks while reading the response body */
+  body: number
+  /**
+   * Max time of the whole request, from `fx.request()` until the body is decoded, hooks included.
+   * It is read when the request starts, hooks can not change it.
+   */
+  total: number
+}
+
+export type FexiosTimeoutPhase = keyof FexiosTimeoutOptions
+
 export interface FexiosRequestOptions extends Omit<FexiosConfigs, 'headers'> {
   url?: string | URL
   method?: FexiosMethods
@@ -83,10 +134,32 @@ export interface FexiosRequestOptions extends Omit<FexiosConfigs, 'headers'> {
    * - `undefined` - to keep the header as is
    */
   headers: Record<string, string | string[] | null | undefined> | Headers
+  /**
+   * Path parameters, to fill `{name}` / `:name` placeholders in `url`.
+   * Optional (`{name?}`) and wildcard (`{name*}`, `{name+}`) placeholders are supported,
+   * see `FexiosPathBuilder.makePath`.
+   * Placeholders are filled in the pathname only, and left as is if `params` is not given.
+   * @example
+   * fx.get('/users/{id}', { params: { id: 1 } }) // GET /users/1
+   * fx.get('/users/:id', { params: { id: 1 } }) // GET /users/1
+   */
+  params?: FexiosPathBuilder.PathParams
   /**
    * Request body
    */
   body?: Record<string, any> | string | FormData | URLSearchParams
+  /**
+   * How to serialize a plain object / array body, overrides the Content-Type header:
+   * - `json` - `application/json`
+   * - `urlencoded` - `application/x-www-form-urlencoded`, nested values follow `FexiosQueryBuilder.makeSearchParams`
+   * - `multipart` - `FormData`, top-level Blobs are appended as files
+   * - `text` - `text/plain` with `String(body)`, rejects objects without a meaningful `toString()`
+   *
+   * The Content-Type header is set from `bodyType`, replacing the one given by user.
+   * If not set, the body is serialized by the Content-Type header given by user,
+   * see `FexiosCodecRegistry`, otherwise as JSON.
+   */
+  bodyType?: FexiosBodyType
   /**
    * Custom environment variables, can be any value.
    * Useful for passing data between hooks.
@@ -98,14 +171,77 @@ export interface FexiosRequestOptions extends Omit<FexiosConfigs, 'headers'> {
    * In v6, this will be moved to `ctx.runtime.abortController` in lifecycle hooks.
    */
   abortController?: AbortController
+  /**
+   * Abort the request when this signal is aborted, works together with `timeout`.
+   * The request is rejected with `FexiosErrorCodes.ABORTED`, `error.cause` is the abort reason.
+   */
+  signal?: AbortSignal
+  /**
+   * Tags of the request, to cancel a group of requests with `fx.cancelAll({ tag })`
+   */
+  tags?: string[]
+  /**
+   * Standard Schema (zod, valibot, arktype...) to validate response data,
+   * `ctx.data` is the validated output, and its type is inferred from the schema.
+   * Rejects with `FexiosValidationError` (`RESPONSE_VALIDATION_ERROR`) on failure.
+   */
+  schema?: StandardSchemaV1
+  /**
+   * Standard Schema to validate request body before it is transformed,
+   * the validated output is sent.
+   * Rejects with `FexiosValidationError` (`REQUEST_VALIDATION_ERROR`) on failure.
+   */
+  bodySchema?: StandardSchemaV1
+  /**
+   * Called while the response body is being downloaded.
+   * @note
+   * In lifecycle hooks, this is available at `ctx.runtime.onDownloadProgress`.
+   */
+  onDownloadProgress?: (event: FexiosProgressEvent) => void
+  /**
+   * Called while the request body is being uploaded.
+   * Requires streaming request body support of the runtime (`duplex: 'half'`),
+   * the body is uploaded without progress otherwise.
+   * @note
+   * In lifecycle hooks, this is available at `ctx.runtime.onUploadProgress`.
+   */
+  onUploadProgress?: (event: FexiosProgressEvent) => void
+}
+
+export type FexiosBodyType = 'json' | 'urlencoded' | 'multipart' | 'text'
+
+export interface FexiosProgressEvent {
+  /** Bytes transferred so far */
+  loaded: number
+  /** Total bytes, `undefined` if unknown (e.g. no `Content-Length`) */
+  total?: number
+  /** Bytes transferred in this chunk */
+  bytes: number
+  /** `loaded / total` in range 0~1, `undefined` if total is unknown */
+  progress?: number
+  /** Average transfer rate (bytes/s) */
+  rate?: number
+  /** Estimated remaining time (s), `undefined` if total is unknown */
+  estimated?: number
 }
 
 export type FexiosRequestContext = Omit<
   FexiosRequestOptions,
-  'url' | 'abortController' | 'customEnv'
+  | 'url'
+  | 'abortController'
+  | 'signal'
+  | 'customEnv'
+  | 'onDownloadProgress'
+  | 'onUploadProgress'
 > & {
   /** Request URL, may be relative before normalization */
   url: string
+  /**
+   * Request URL before path params are filled, e.g. `/users/{id}`.
+   * Useful for logging and grouping metrics.
+   * Available from `beforeRequest`.
+   */
+  urlTemplate?: string
   /**
    * Built Request instance that will be sent (after hooks & normalization).
    * Available from `beforeActualFetch` and later.
@@ -113,13 +249,15 @@ export type FexiosRequestContext = Omit<
   rawRequest?: Request
 }
 
-export type FexiosRuntimeContext = {
+export interface FexiosRuntimeContext {
   abortController?: AbortController
   /**
    * Custom environment variables, can be any value.
    * Useful for passing data between hooks and plugins.
    */
   customEnv?: any
+  onDownloadProgress?: FexiosRequestOptions['onDownloadProgress']
+  onUploadProgress?: FexiosRequestOptions['onUploadProgress']
 }
 
 // Alias for response, make all context names more unified
@@ -200,6 +338,19 @@ export type FexiosFinalContext<T = any> = Omit<
   readonly url: string
 }
 
+/**
+ * Returned by `fx.request()` and method shortcuts
+ */
+export interface FexiosRequestPromise<T = any> extends Promise<
+  FexiosFinalContext<T>
+> {
+  /**
+   * Abort the request, it will be rejected with `FexiosErrorCodes.ABORTED`
+   * @param reason available as `error.cause`
+   */
+  abort(reason?: unknown): void
+}
+
 export type FexiosHook<C = unknown> = (
   context: C
 ) => AwaitAble<
@@ -264,16 +415,35 @@ type MethodsWithoutBody = LowerAndUppercase<
 export type FexiosRequestShortcut<M extends FexiosMethods> =
   M extends MethodsWithoutBody ? ShortcutWithoutBody : ShortcutWithBody
 
-type ShortcutWithoutBody = <T = any>(
-  url: string | URL,
-  options?: Partial<FexiosRequestOptions>
-) => Promise<FexiosFinalContext<T>>
+/**
+ * Request options with a response `schema`, to infer `ctx.data` from it
+ */
+export type FexiosRequestOptionsWithSchema<S extends StandardSchemaV1> =
+  Partial<FexiosRequestOptions> & { schema: S }
+
+type ShortcutWithoutBody = {
+  <S extends StandardSchemaV1>(
+    url: string | URL,
+    options: FexiosRequestOptionsWithSchema<S>
+  ): FexiosRequestPromise<StandardSchemaV1.InferOutput<S>>
+  <T = any>(
+    url: string | URL,
+    options?: Partial<FexiosRequestOptions>
+  ): FexiosRequestPromise<T>
+}
 
-type ShortcutWithBody = <T = any>(
-  url: string | URL,
-  body?: Record<string, any> | string | URLSearchParams | FormData | null,
-  options?: Partial<FexiosRequestOptions>
-) => Promise<FexiosFinalContext<T>>
+type ShortcutWithBody = {
+  <S extends StandardSchemaV1>(
+    url: string | URL,
+    body: Record<string, any> | string | URLSearchParams | FormData | null,
+    options: FexiosRequestOptionsWithSchema<S>
+  ): FexiosRequestPromise<StandardSchemaV1.InferOutput<S>>
+  <T = any>(
+    url: string | URL,
+    body?: Record<string, any> | string | URLSearchParams | FormData | null,
+    options?: Partial<FexiosRequestOptions>
+  ): FexiosRequestPromise<T>
+}
 
 // Forward declaration for circular dependency
 export interface IFexiosResponse<T = any> extends Pick<
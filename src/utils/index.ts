@@ -2,3 +2,8 @@ export * from './callable-instance.js'
 export * from './clone.js'
 export * from './deep-merge.js'
 export * from './isPlainObject.js'
+export * from './progress.js'
+export * from './resolve-options.js'
+export * from './signal.js'
+export * from './sleep.js'
+export * from './timeout.js'
@@ -0,0 +1,202 @@
+import type { FetchLike, FexiosProgressEvent } from '../types.js'
+
+/**
+ * Wrap a ReadableStream to report progress while it is being consumed.
+ *
+ * @param total Total bytes if known (e.g. from `Content-Length`), used to compute `progress` and `estimated`
+ */
+export function createProgressStream(
+  source: ReadableStream<Uint8Array>,
+  total: number | undefined,
+  onProgress: (event: FexiosProgressEvent) => void
+): ReadableStream<Uint8Array> {
+  const reader = source.getReader()
+  const startTime = Date.now()
+  let loaded = 0
+
+  const report = (bytes: number) => {
+    const elapsed = (Date.now() - startTime) / 1000
+    const rate = elapsed > 0 ? loaded / elapsed : undefined
+    const event: FexiosProgressEvent = {
+      loaded,
+      total,
+      bytes,
+      progress: total ? Math.min(1, loaded / total) : undefined,
+      rate,
+      estimated:
+        total && rate ? Math.max(0, (total - loaded) / rate) : undefined,
+    }
+    try {
+      onProgress(event)
+    } catch {
+      // progress callback should never break the stream
+    }
+  }
+
+  return new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        const { done, value } = await reader.read()
+        if (done) {
+          controller.close()
+          return
+        }
+        loaded += value.byteLength
+        report(value.byteLength)
+        controller.enqueue(value)
+      },
+      cancel(reason) {
+        return reader.cancel(reason)
+      },
+    },
+    // only pull when read, so progress is reported as the body is consumed
+    { highWaterMark: 0 }
+  )
+}
+
+/**
+ * Resolve total body size from headers.
+ * Returns `undefined` for encoded (e.g. gzip) bodies, since `Content-Length` is the encoded size.
+ */
+export function getContentLength(headers: Headers): number | undefined {
+  const encoding = headers.get('content-encoding')
+  if (encoding && encoding.toLowerCase() !== 'identity') return undefined
+  const length = parseInt(headers.get('content-length') ?? '', 10)
+  return Number.isFinite(length) && length >= 0 ? length : undefined
+}
+
+const CHUNK_SIZE = 64 * 1024
+
+/**
+ * Stream bytes in chunks, without copying them
+ */
+function createBytesStream(bytes: Uint8Array): ReadableStream<Uint8Array> {
+  let offset = 0
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.byteLength) return controller.close()
+      controller.enqueue(bytes.subarray(offset, (offset += CHUNK_SIZE)))
+    },
+  })
+}
+
+let requestStreamsSupported: boolean | undefined
+
+/**
+ * Whether the runtime can send a `ReadableStream` request body (`duplex: 'half'`),
+ * e.g. not Firefox and Safari
+ */
+export function supportsRequestStreams(): boolean {
+  if (requestStreamsSupported === undefined) {
+    try {
+      let duplexAccessed = false
+      const hasContentType = new Request('http://localhost', {
+        method: 'POST',
+        body: new ReadableStream(),
+        get duplex() {
+          duplexAccessed = true
+          return 'half'
+        },
+      } as RequestInit).headers.has('content-type')
+      requestStreamsSupported = duplexAccessed && !hasContentType
+    } catch {
+      requestStreamsSupported = false
+    }
+  }
+  return requestStreamsSupported
+}
+
+/**
+ * A fresh stream and the size of a request body, without buffering it.
+ * `FormData` is encoded twice, once to measure it, the boundary changes.
+ */
+async function getUploadSource(
+  request: Request,
+  body: unknown
+): Promise<{
+  stream: ReadableStream<Uint8Array>
+  total?: number
+  contentType?: string | null
+}> {
+  if (body instanceof Blob) {
+    return { stream: body.stream(), total: body.size }
+  }
+  if (typeof body === 'string' || body instanceof URLSearchParams) {
+    const bytes = new TextEncoder().encode(body.toString())
+    return { stream: createBytesStream(bytes), total: bytes.byteLength }
+  }
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    const bytes = ArrayBuffer.isView(body)
+      ? new Uint8Array(body.buffer, body.byteOffset, body.byteLength)
+      : new Uint8Array(body)
+    return { stream: createBytesStream(bytes), total: bytes.byteLength }
+  }
+  if (body instanceof FormData) {
+    const encode = () =>
+      new Request(request.url, { method: request.method, body })
+    const reader = encode().body!.getReader()
+    let total = 0
+    for (let r = await reader.read(); !r.done; r = await reader.read()) {
+      total += r.value.byteLength
+    }
+    const encoded = encode()
+    return {
+      stream: encoded.body!,
+      total,
+      contentType: encoded.headers.get('content-type'),
+    }
+  }
+  // e.g. a ReadableStream, it is read from the request itself
+  return { stream: request.body!, total: getContentLength(request.headers) }
+}
+
+/**
+ * Re-create the request with a body stream that reports upload progress.
+ * `body` is the body the request was created with, it is streamed again instead of buffering the request.
+ */
+export async function withUploadProgress(
+  request: Request,
+  body: unknown,
+  onProgress: (event: FexiosProgressEvent) => void
+): Promise<Request> {
+  if (!request.body) return request
+  const { stream, total, contentType } = await getUploadSource(request, body)
+  const headers = new Headers(request.headers)
+  if (contentType) headers.set('content-type', contentType)
+  return new Request(request, {
+    headers,
+    body: createProgressStream(stream, total, onProgress),
+    // required by spec when sending a ReadableStream body
+    duplex: 'half',
+  } as RequestInit)
+}
+
+/**
+ * Send the request with upload progress, see `withUploadProgress`.
+ * Falls back to a plain upload without progress where streaming request bodies are unsupported,
+ * network errors are thrown as is, the request is never sent twice.
+ */
+export async function fetchWithUploadProgress(
+  fetch: FetchLike,
+  request: Request,
+  body: unknown,
+  onProgress: (event: FexiosProgressEvent) => void
+): Promise<Response> {
+  if (!request.body || !supportsRequestStreams()) return fetch(request)
+
+  let tracked: Request
+  try {
+    tracked = await withUploadProgress(request, body, onProgress)
+  } catch (err) {
+    // the Request constructor refuses stream bodies
+    if (
+      !(err instanceof TypeError) ||
+      request.bodyUsed ||
+      request.body.locked
+    ) {
+      throw err
+    }
+    return fetch(request)
+  }
+  return fetch(tracked)
+}
@@ -0,0 +1,19 @@
+import { resolveOptions } from './resolve-options.js'
+import { describe, expect, it } from 'vitest'
+
+describe('resolveOptions', () => {
+  const defaults = { retries: 3, delay: 1000 }
+
+  it('should merge options over defaults in order', () => {
+    const result = resolveOptions(defaults, { retries: 1 }, undefined, {
+      delay: 10,
+    })
+    expect(result).toEqual({ retries: 1, delay: 10 })
+    expect(defaults).toEqual({ retries: 3, delay: 1000 })
+  })
+
+  it('should return false once disabled', () => {
+    expect(resolveOptions(defaults, { retries: 1 }, false)).toBe(false)
+    expect(resolveOptions(defaults, false, { retries: 1 })).toBe(false)
+  })
+})
@@ -0,0 +1,26 @@
+/**
+ * Merge plugin options over `defaults`, later values override earlier ones.
+ * `undefined` is skipped, `false` disables the plugin and wins over everything.
+ *
+ * @example
+ * resolveOptions(DEFAULT_RETRY_OPTIONS, fx.baseConfigs.retry, ctx.request.retry)
+ */
+export function resolveOptions<T extends object>(
+  defaults: T,
+  ...incomes: (Partial<T> | undefined)[]
+): T
+export function resolveOptions<T extends object>(
+  defaults: T,
+  ...incomes: (Partial<T> | false | undefined)[]
+): T | false
+export function resolveOptions<T extends object>(
+  defaults: T,
+  ...incomes: (Partial<T> | false | undefined)[]
+): T | false {
+  let options: T = { ...defaults }
+  for (const inc of incomes) {
+    if (inc === false) return false
+    if (inc) options = { ...options, ...inc }
+  }
+  return options
+}
@@ -0,0 +1,13 @@
+/**
+ * Abort `controller` once `signal` aborts, with the same reason
+ * @returns a function to stop listening, call it once the work settles
+ */
+export function linkSignal(
+  controller: AbortController,
+  signal?: AbortSignal
+): () => void {
+  const onAbort = () => controller.abort(signal!.reason)
+  if (signal?.aborted) onAbort()
+  signal?.addEventListener('abort', onAbort, { once: true })
+  return () => signal?.removeEventListener('abort', onAbort)
+}
@@ -0,0 +1,103 @@
+import type { FexiosTimeoutOptions } from '../types.js'
+
+/**
+ * Normalize `timeout` configs into per-phase timeouts, a number is the `response` timeout.
+ * Later values override earlier ones, `0` means no timeout.
+ */
+export function resolveTimeoutOptions(
+  ...incomes: (number | Partial<FexiosTimeoutOptions> | undefined)[]
+): FexiosTimeoutOptions {
+  const options: FexiosTimeoutOptions = { response: 0, body: 0, total: 0 }
+  for (const inc of incomes) {
+    if (typeof inc === 'number') {
+      options.response = inc
+    } else if (inc) {
+      for (const phase of ['response', 'body', 'total'] as const) {
+        if (typeof inc[phase] === 'number') options[phase] = inc[phase]!
+      }
+    }
+  }
+  return options
+}
+
+/**
+ * Wrap a ReadableStream to error when it is read but no chunk arrives within `idle` ms,
+ * or when `signal` is aborted.
+ *
+ * @param onIdle creates the error for an idle timeout
+ * @param onSettled called once the stream is done, errored or cancelled
+ */
+export function createTimeoutStream(
+  source: ReadableStream<Uint8Array>,
+  options: {
+    idle?: number
+    signal?: AbortSignal
+    onIdle: () => unknown
+    onSettled?: () => void
+  }
+): ReadableStream<Uint8Array> {
+  const { idle = 0, signal, onIdle, onSettled } = options
+  const reader = source.getReader()
+  let controller!: ReadableStreamDefaultController<Uint8Array>
+  let settled = false
+
+  const onAbort = () => fail(signal!.reason)
+  const settle = () => {
+    if (settled) return
+    settled = true
+    signal?.removeEventListener('abort', onAbort)
+    onSettled?.()
+  }
+  const fail = (reason: unknown) => {
+    if (settled) return
+    settle()
+    controller.error(reason)
+    reader.cancel(reason).catch(() => {})
+  }
+
+  return new ReadableStream<Uint8Array>(
+    {
+      start(c) {
+        controller = c
+        if (signal?.aborted) return onAbort()
+        signal?.addEventListener('abort', onAbort, { once: true })
+      },
+      pull() {
+        return new Promise<void>((resolve) => {
+          const timer =
+            idle > 0
+              ? setTimeout(() => {
+                  fail(onIdle())
+                  resolve()
+                }, idle)
+              : undefined
+          reader.read().then(
+            ({ done, value }) => {
+              clearTimeout(timer)
+              if (!settled) {
+                if (done) {
+                  settle()
+                  controller.close()
+                } else {
+                  controller.enqueue(value)
+                }
+              }
+              resolve()
+            },
+            (err) => {
+              clearTimeout(timer)
+              fail(err)
+              resolve()
+            }
+          )
+        })
+      },
+      cancel(reason) {
+        settle()
+        return reader.cancel(reason)
+      },
+    },
+    // only pull when read, so the idle timer runs while the consumer is waiting
+    { highWaterMark: 0 }
+  )
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import { Fexios, FexiosErrorCodes } from '../src/index'
+import { MOCK_FETCH_BASE_URL } from './mockFetch.js'
+
+const createEcho = () => {
+  const requests: Request[] = []
+  const fx = new Fexios({
+    baseURL: MOCK_FETCH_BASE_URL,
+    fetch: async (req) => {
+      requests.push(req as Request)
+      return Response.json({ ok: true })
+    },
+  })
+  return { fx, requests }
+}
+
+describe('bodyType', () => {
+  it('should encode plain objects as urlencoded', async () => {
+    const { fx, requests } = createEcho()
+    const body = { a: 1, list: ['x', 'y'], nested: { b: { c: true } } }
+
+    await fx.post('/form', body, { bodyType: 'urlencoded' })
+    // inferred from the Content-Type header
+    await fx.post('/form', body, {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    })
+
+    for (const request of requests) {
+      expect(request.headers.get('content-type')).to.contain(
+        'application/x-www-form-urlencoded'
+      )
+      expect(decodeURIComponent(await request.text())).to.equal(
+        'a=1&list=x&list=y&nested[b][c]=true'
+      )
+    }
+  })
+
+  it('should encode plain objects as multipart', async () => {
+    const { fx, requests } = createEcho()
+    const file = new File(['hello'], 'hello.txt', { type: 'text/plain' })
+
+    await fx.post(
+      '/upload',
+      { name: 'doc', meta: { tags: ['a', 'b'] }, file },
+      { bodyType: 'multipart' }
+    )
+    // header without boundary is replaced by the one of fetch
+    await fx.post(
+      '/upload',
+      { name: 'doc', file },
+      { headers: { 'Content-Type': 'multipart/form-data' } }
+    )
+
+    expect(requests[0].headers.get('content-type')).to.match(
+      /^multipart\/form-data; boundary=/
+    )
+    const form = await requests[0].formData()
+    expect(form.get('name')).to.equal('doc')
+    expect(form.getAll('meta[tags]')).to.deep.equal(['a', 'b'])
+    expect((form.get('file') as File).name).to.equal('hello.txt')
+    expect(await (form.get('file') as File).text()).to.equal('hello')
+
+    expect(requests[1].headers.get('content-type')).to.match(/boundary=/)
+    expect((await requests[1].formData()).get('name')).to.equal('doc')
+  })
+
+  it('should prefer bodyType over the Content-Type header', async () => {
+    const { fx, requests } = createEcho()
+
+    await fx.post(
+      '/json',
+      { a: 1 },
+      {
+        bodyType: 'json',
+        headers: { 'Content-Type': 'application/vnd.api+json' },
+      }
+    )
+    await fx.post('/text', ['a', 'b'], { bodyType: 'text' })
+    await fx.post(
+      '/json',
+      { a: 1 },
+      { bodyType: 'json', headers: { 'Content-Type': 'text/plain' } }
+    )
+
+    expect(requests[0].headers.get('content-type')).to.equal(
+      'application/vnd.api+json'
+    )
+    expect(await requests[0].text()).to.equal('{"a":1}')
+    expect(requests[1].headers.get('content-type')).to.equal('text/plain')
+    expect(await requests[1].text()).to.equal('a,b')
+    // a Content-Type of another type is replaced
+    expect(requests[2].headers.get('content-type')).to.equal('application/json')
+  })
+
+  it('should reject objects sent as text', async () => {
+    const { fx, requests } = createEcho()
+
+    await expect(
+      fx.post('/text', { a: 1 }, { bodyType: 'text' })
+    ).rejects.toMatchObject({ code: FexiosErrorCodes.BODY_TRANSFORM_ERROR })
+    expect(requests).toHaveLength(0)
+  })
+})
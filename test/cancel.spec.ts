@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'vitest'
+import { Fexios, FexiosError, FexiosErrorCodes } from '../src/index'
+import { MOCK_FETCH_BASE_URL } from './mockFetch.js'
+
+// responds after `delay` ms, rejects with the abort reason like real fetch
+const createHangingFetch = (delay = 1000) => {
+  const requests: Request[] = []
+  const fetch = (req: Request | string | URL) =>
+    new Promise<Response>((resolve, reject) => {
+      const request = req as Request
+      requests.push(request)
+      const timer = setTimeout(() => resolve(Response.json({ ok: 1 })), delay)
+      request.signal.addEventListener('abort', () => {
+        clearTimeout(timer)
+        reject(request.signal.reason)
+      })
+    })
+  return { fetch, requests }
+}
+
+describe('Cancellation', () => {
+  it('should abort a request via its promise', async () => {
+    const { fetch, requests } = createHangingFetch()
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch })
+
+    const promise = fx.get('/slow')
+    setTimeout(() => promise.abort('navigated away'), 5)
+
+    const error = await promise.catch((e) => e)
+    expect(FexiosError.is(error, FexiosErrorCodes.ABORTED)).to.equal(true)
+    expect(error.cause).to.equal('navigated away')
+    expect(requests[0].signal.aborted).to.equal(true)
+  })
+
+  it('should distinguish timeouts from aborts', async () => {
+    const { fetch } = createHangingFetch()
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch, timeout: 10 })
+
+    await expect(fx.get('/slow')).rejects.toMatchObject({
+      code: FexiosErrorCodes.TIMEOUT,
+    })
+
+    const abortController = new AbortController()
+    const legacy = fx.get('/slow', { abortController })
+    setTimeout(() => abortController.abort(), 2)
+    await expect(legacy).rejects.toMatchObject({
+      code: FexiosErrorCodes.ABORTED,
+    })
+  })
+
+  it('should combine the signal option with the timeout', async () => {
+    const { fetch } = createHangingFetch(20)
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch, timeout: 100 })
+
+    const reason = new Error('stale')
+    const controller = new AbortController()
+    const aborted = fx.get('/slow', { signal: controller.signal })
+    controller.abort(reason)
+    await expect(aborted).rejects.toMatchObject({
+      code: FexiosErrorCodes.ABORTED,
+      cause: reason,
+    })
+
+    // already aborted, nothing is sent
+    await expect(
+      fx.get('/slow', { signal: AbortSignal.abort() })
+    ).rejects.toMatchObject({ code: FexiosErrorCodes.ABORTED })
+
+    const ok = await fx.get('/fast', { signal: new AbortController().signal })
+    expect(ok.data).to.deep.equal({ ok: 1 })
+
+    await expect(
+      fx.get('/slow', { signal: new AbortController().signal, timeout: 5 })
+    ).rejects.toMatchObject({ code: FexiosErrorCodes.TIMEOUT })
+  })
+
+  it('should cancel all in-flight requests or a tagged group', async () => {
+    const { fetch } = createHangingFetch(30)
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch })
+
+    const users = fx.get('/users', { tags: ['route:users'] })
+    const posts = fx.get('/posts', { tags: ['route:posts'] })
+    const other = fx.get('/other')
+
+    expect(
+      fx.cancelAll({ tag: 'route:users', reason: 'route changed' })
+    ).to.equal(1)
+    await expect(users).rejects.toMatchObject({
+      code: FexiosErrorCodes.ABORTED,
+      cause: 'route changed',
+    })
+
+    expect(fx.cancelAll()).to.equal(2)
+    await expect(posts).rejects.toMatchObject({
+      code: FexiosErrorCodes.ABORTED,
+    })
+    await expect(other).rejects.toMatchObject({
+      code: FexiosErrorCodes.ABORTED,
+    })
+
+    // settled requests are no longer tracked
+    expect(fx.cancelAll()).to.equal(0)
+  })
+
+  it('should not abort a shared abortController', async () => {
+    const { fetch } = createHangingFetch(20)
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL, fetch, timeout: 50 })
+    const abortController = new AbortController()
+    const signal = abortController.signal
+    let listeners = 0
+    const { addEventListener, removeEventListener } = signal
+    signal.addEventListener = function (this: AbortSignal, ...args: any[]) {
+      listeners++
+      return (addEventListener as any).apply(this, args)
+    } as any
+    signal.removeEventListener = function (this: AbortSignal, ...args: any[]) {
+      listeners--
+      return (removeEventListener as any).apply(this, args)
+    } as any
+
+    const users = fx.get('/users', { abortController, tags: ['users'] })
+    const posts = fx.get('/posts', { abortController })
+    const slow = fx.get('/slow', { abortController, timeout: 5 })
+    fx.cancelAll({ tag: 'users' })
+
+    await expect(users).rejects.toMatchObject({
+      code: FexiosErrorCodes.ABORTED,
+    })
+    await expect(slow).rejects.toMatchObject({
+      code: FexiosErrorCodes.TIMEOUT,
+    })
+    expect((await posts).data).to.deep.equal({ ok: 1 })
+    expect(signal.aborted).to.equal(false)
+    // listeners are removed once requests settle
+    expect(listeners).to.equal(0)
+
+    const pending = fx.get('/posts', { abortController })
+    abortController.abort('leave')
+    await expect(pending).rejects.toMatchObject({ cause: 'leave' })
+  })
+
+  it('should abort requests waiting in hooks', async () => {
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async () => Response.json({ ok: 1 }),
+    })
+    fx.on('beforeRequest', async (ctx) => {
+      await new Promise((r) => setTimeout(r, 10))
+      return ctx
+    })
+
+    const promise = fx.get('/a')
+    promise.abort()
+    await expect(promise).rejects.toMatchObject({
+      code: FexiosErrorCodes.ABORTED,
+    })
+  })
+
+  it('should keep stream bodies linked to signals until they settle', async () => {
+    let cancelled = 0
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async () =>
+        new Response(
+          new ReadableStream<Uint8Array>({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode('first'))
+            },
+            cancel() {
+              cancelled++
+            },
+          })
+        ),
+    })
+
+    const controller = new AbortController()
+    const { data } = await fx.get<ReadableStream<Uint8Array>>('/stream', {
+      responseType: 'stream',
+      signal: controller.signal,
+    })
+    const reader = data.getReader()
+    await reader.read()
+    controller.abort('leave')
+    await expect(reader.read()).rejects.toBe('leave')
+    expect(cancelled).to.equal(1)
+
+    const open = await fx.get('/stream', { responseType: 'stream' })
+    expect(fx.cancelAll()).to.equal(1)
+    expect(cancelled).to.equal(2)
+    await expect(open.data.getReader().read()).rejects.toThrow()
+    // released once the body settles
+    expect(fx.cancelAll()).to.equal(0)
+  })
+})
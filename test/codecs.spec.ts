@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+import { Fexios, FexiosCodecRegistry } from '../src/index'
+import { MOCK_FETCH_BASE_URL } from './mockFetch.js'
+
+// a toy binary format: `[length, ...utf8 bytes of JSON]`
+const encode = (value: unknown) => {
+  const bytes = new TextEncoder().encode(JSON.stringify(value))
+  return new Uint8Array([bytes.length, ...bytes])
+}
+const decode = (bytes: Uint8Array) =>
+  JSON.parse(new TextDecoder().decode(bytes.subarray(1, bytes[0] + 1)))
+
+describe('Codec registry', () => {
+  it('should match content type patterns', () => {
+    const codecs = new FexiosCodecRegistry()
+    const text = () => 'text'
+    const csv = () => 'csv'
+    codecs.registerSerializer('text/*', text)
+    codecs.registerSerializer('Text/CSV', csv)
+
+    expect(codecs.findSerializer('text/csv; charset=utf-8')).to.equal(csv)
+    expect(codecs.findSerializer('text/markdown')).to.equal(text)
+    expect(codecs.findSerializer('application/vnd.api+json')).to.be.a(
+      'function'
+    )
+    expect(codecs.findSerializer('application/xml')).to.be.undefined
+
+    codecs.unregisterSerializer('text/csv')
+    expect(codecs.findSerializer('text/csv')).to.equal(text)
+    // copies are independent
+    const copy = new FexiosCodecRegistry(codecs)
+    copy.unregisterSerializer('text/*')
+    expect(codecs.findSerializer('text/markdown')).to.equal(text)
+  })
+
+  it('should serialize body and parse response by content type', async () => {
+    const received: Uint8Array[] = []
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async (req) => {
+        const request = req as Request
+        received.push(new Uint8Array(await request.arrayBuffer()))
+        expect(request.headers.get('content-type')).to.equal(
+          'application/x-toy'
+        )
+        return new Response(encode({ ok: true }), {
+          headers: { 'content-type': 'application/x-toy' },
+        })
+      },
+    })
+    fx.codecs
+      .registerSerializer('application/x-toy', (body) => encode(body))
+      .registerParser('application/x-toy', async (response) =>
+        decode(new Uint8Array(await response.arrayBuffer()))
+      )
+
+    const ctx = await fx.post(
+      '/toy',
+      { id: 1 },
+      { headers: { 'content-type': 'application/x-toy' } }
+    )
+    expect(decode(received[0])).to.deep.equal({ id: 1 })
+    expect(ctx.data).to.deep.equal({ ok: true })
+    expect(ctx.responseType).to.equal('json')
+
+    // explicit other responseType skips the parser
+    const raw = await fx.post(
+      '/toy',
+      { id: 2 },
+      {
+        headers: { 'content-type': 'application/x-toy' },
+        responseType: 'arrayBuffer',
+      }
+    )
+    expect(raw.data).to.be.instanceOf(ArrayBuffer)
+  })
+
+  it('should fallback to JSON for unknown content types', async () => {
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async (req) => {
+        const request = req as Request
+        return Response.json({
+          contentType: request.headers.get('content-type'),
+          body: await request.text(),
+        })
+      },
+    })
+    fx.codecs.registerParser('application/json', {
+      responseType: 'json',
+      parse: async (response) => ({ wrapped: await response.json() }),
+    })
+
+    const ctx = await fx.post('/echo', { id: 1 })
+    expect(ctx.data).to.deep.equal({
+      wrapped: { contentType: 'application/json', body: '{"id":1}' },
+    })
+
+    // registered on the extended instance only
+    const child = fx.extends({})
+    child.codecs.unregisterParser('application/json')
+    expect((await child.post('/echo', { id: 1 })).data).not.to.have.property(
+      'wrapped'
+    )
+    expect((await fx.post('/echo', { id: 1 })).data).to.have.property(
+      'wrapped'
+    )
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { Fexios } from '../src/index'
+import { MOCK_FETCH_BASE_URL } from './mockFetch.js'
+
+const SNOWFLAKE = '1234567890123456789'
+
+describe('JSON codec', () => {
+  it('should parse JSON responses with the codec options', async () => {
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      json: { unsafeIntegers: 'bigint' },
+      fetch: async (req) => {
+        const { pathname } = new URL((req as Request).url)
+        const body = `{"id":${SNOWFLAKE},"at":"2024-01-02T03:04:05Z"}`
+        return new Response(body, {
+          headers: {
+            'content-type':
+              pathname === '/json' ? 'application/json' : 'text/plain',
+          },
+        })
+      },
+    })
+
+    const json = await fx.get('/json')
+    expect(json.data.id).to.equal(BigInt(SNOWFLAKE))
+    expect(json.data.at).to.be.a('string')
+
+    // sniffed as JSON, request options are merged into the instance ones
+    const sniffed = await fx.get('/text', { json: { reviveDates: true } })
+    expect(sniffed.responseType).to.equal('json')
+    expect(sniffed.data.id).to.equal(BigInt(SNOWFLAKE))
+    expect(sniffed.data.at).to.be.instanceOf(Date)
+
+    const explicit = await fx.get('/text', {
+      responseType: 'json',
+      json: { unsafeIntegers: 'string' },
+    })
+    expect(explicit.data.id).to.equal(SNOWFLAKE)
+  })
+
+  it('should serialize bigint request bodies', async () => {
+    const bodies: string[] = []
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      json: {
+        replacer: (key, value) => (key === 'password' ? undefined : value),
+      },
+      fetch: async (req) => {
+        bodies.push(await (req as Request).text())
+        return Response.json({ ok: true })
+      },
+    })
+
+    await fx.post('/users', { id: BigInt(SNOWFLAKE), password: 'x' })
+    await fx.post(
+      '/users',
+      { id: BigInt(SNOWFLAKE) },
+      { headers: { 'content-type': 'application/vnd.api+json' } }
+    )
+    expect(bodies).to.deep.equal([`{"id":${SNOWFLAKE}}`, `{"id":${SNOWFLAKE}}`])
+  })
+})
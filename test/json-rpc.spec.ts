@@ -0,0 +1,219 @@
+import { describe, expect, it, beforeAll, afterAll } from 'vitest'
+import { Fexios, FexiosError, FexiosErrorCodes } from '../src/index'
+import {
+  FexiosJsonRpcClient,
+  FexiosJsonRpcError,
+  pluginJsonRpc,
+  pluginWebSocket,
+} from '../src/plugins/index.js'
+import { MockWebSocket, MOCK_FETCH_BASE_URL } from './mockFetch'
+
+const WS_URL = `${MOCK_FETCH_BASE_URL.replace(/^http/, 'ws')}/_rpc`
+
+/**
+ * Fake JSON-RPC server:
+ * - `add` → sum of params
+ * - `fail` → error response
+ * - `slow` → never responds
+ * - `subscribe` → responds, then pushes a `tick` notification
+ */
+class MockRpcWebSocket extends MockWebSocket {
+  received: any[] = []
+
+  send(data: any) {
+    if (this.readyState !== 1) {
+      throw new Error('WebSocket is not open')
+    }
+    const payload = JSON.parse(data)
+    this.received.push(payload)
+    const requests: any[] = Array.isArray(payload) ? payload : [payload]
+    const responses = requests
+      .filter((req) => req.id !== undefined && req.method !== 'slow')
+      .map((req) => {
+        if (req.method === 'add') {
+          return {
+            jsonrpc: '2.0',
+            id: req.id,
+            result: req.params.reduce((a: number, b: number) => a + b, 0),
+          }
+        }
+        if (req.method === 'subscribe') {
+          this.push({ jsonrpc: '2.0', method: 'tick', params: { n: 1 } })
+          return { jsonrpc: '2.0', id: req.id, result: true }
+        }
+        return {
+          jsonrpc: '2.0',
+          id: req.id,
+          error: {
+            code: -32000,
+            message: 'Boom',
+            data: { method: req.method },
+          },
+        }
+      })
+    if (!responses.length) return
+    this.push(Array.isArray(payload) ? responses : responses[0])
+  }
+
+  push(message: any) {
+    setTimeout(() => {
+      ;(this as any).triggerEventListeners('message', {
+        type: 'message',
+        data: JSON.stringify(message),
+      })
+    }, 5)
+  }
+}
+
+describe('JSON-RPC plugin', () => {
+  let originalWebSocket: any
+
+  beforeAll(() => {
+    originalWebSocket = (globalThis as any).WebSocket
+    ;(globalThis as any).WebSocket = MockRpcWebSocket
+  })
+
+  afterAll(() => {
+    ;(globalThis as any).WebSocket = originalWebSocket
+  })
+
+  const createFexios = () =>
+    new Fexios({ baseURL: MOCK_FETCH_BASE_URL })
+      .plugin(pluginWebSocket)
+      .plugin(pluginJsonRpc)
+
+  it('should require pluginWebSocket', async () => {
+    const fx = new Fexios().plugin(pluginJsonRpc)
+    await expect(fx.rpc(WS_URL)).rejects.toMatchObject({
+      code: FexiosErrorCodes.PLUGIN_REQUIRED,
+    })
+  })
+
+  it('should correlate calls by id', async () => {
+    const rpc = await createFexios().rpc(WS_URL)
+    expect(rpc).to.be.instanceOf(FexiosJsonRpcClient)
+
+    const [a, b] = await Promise.all([
+      rpc.call<number>('add', [1, 2]),
+      rpc.call<number>('add', [3, 4, 5]),
+    ])
+    expect(a).to.equal(3)
+    expect(b).to.equal(12)
+    expect(rpc.pendingCount).to.equal(0)
+
+    const sent = (rpc.socket as MockRpcWebSocket).received
+    expect(sent[0]).to.deep.equal({
+      jsonrpc: '2.0',
+      method: 'add',
+      params: [1, 2],
+      id: 1,
+    })
+    ;(rpc.socket as any).close()
+  })
+
+  it('should reject with FexiosJsonRpcError on error response', async () => {
+    const rpc = await createFexios().rpc(WS_URL)
+    const error = (await rpc.call('fail').catch((e) => e)) as FexiosJsonRpcError
+    expect(error).to.be.instanceOf(FexiosJsonRpcError)
+    expect(error.code).to.equal(FexiosErrorCodes.RPC_ERROR)
+    expect(error.rpcCode).to.equal(-32000)
+    expect(error.message).to.equal('Boom')
+    expect(error.data).to.deep.equal({ method: 'fail' })
+    ;(rpc.socket as any).close()
+  })
+
+  it('should reject with TIMEOUT', async () => {
+    const rpc = await createFexios().rpc(WS_URL, { callTimeout: 20 })
+    await expect(rpc.call('slow')).rejects.toMatchObject({
+      code: FexiosErrorCodes.TIMEOUT,
+    })
+    await expect(rpc.call('slow', [], { timeout: 10 })).rejects.toMatchObject({
+      code: FexiosErrorCodes.TIMEOUT,
+    })
+    expect(rpc.pendingCount).to.equal(0)
+    ;(rpc.socket as any).close()
+  })
+
+  it('should send batch calls in one message', async () => {
+    const rpc = await createFexios().rpc(WS_URL)
+    const results = await rpc.batch([
+      { method: 'add', params: [1, 1] },
+      { method: 'log', params: ['hi'], notification: true },
+      { method: 'fail' },
+    ])
+
+    expect(results.length).to.equal(2)
+    expect(results[0]).to.deep.equal({ status: 'fulfilled', value: 2 })
+    expect(results[1].status).to.equal('rejected')
+    expect((results[1] as PromiseRejectedResult).reason).to.be.instanceOf(
+      FexiosJsonRpcError
+    )
+
+    const sent = (rpc.socket as MockRpcWebSocket).received
+    expect(sent.length).to.equal(1)
+    expect(sent[0].length).to.equal(3)
+    expect(sent[0][1]).to.deep.equal({
+      jsonrpc: '2.0',
+      method: 'log',
+      params: ['hi'],
+    })
+    ;(rpc.socket as any).close()
+  })
+
+  it('should dispatch notifications to subscribers', async () => {
+    const rpc = await createFexios().rpc(WS_URL)
+    const ticks: any[] = []
+    const unsubscribe = rpc.subscribe('tick', (params) => ticks.push(params))
+
+    const received = new Promise<void>((resolve) => {
+      rpc.subscribe('tick', () => resolve())
+    })
+    await rpc.call('subscribe')
+    await received
+    expect(ticks).to.deep.equal([{ n: 1 }])
+
+    unsubscribe()
+    await rpc.call('subscribe')
+    await new Promise((r) => setTimeout(r, 20))
+    expect(ticks.length).to.equal(1)
+    ;(rpc.socket as any).close()
+  })
+
+  it('should reject in-flight calls when the socket closes', async () => {
+    const rpc = await createFexios().rpc(WS_URL, { callTimeout: 0 })
+    const pending = rpc.call('slow')
+    ;(rpc.socket as any).close()
+
+    const error = await pending.catch((e) => e)
+    expect(FexiosError.is(error, FexiosErrorCodes.RPC_CONNECTION_CLOSED)).to.be
+      .true
+    expect(() => rpc.notify('ping')).to.throw(FexiosError)
+    await expect(rpc.call('add', [1])).rejects.toMatchObject({
+      code: FexiosErrorCodes.RPC_CONNECTION_CLOSED,
+    })
+  })
+
+  it('should reply to server calls only while the socket is open', () => {
+    const sent: string[] = []
+    let onMessage!: (event: any) => void
+    const socket = {
+      readyState: 1,
+      send: (data: string) => {
+        if (socket.readyState !== 1) throw new Error('WebSocket is not open')
+        sent.push(data)
+      },
+      addEventListener: (type: string, listener: (event: any) => void) => {
+        if (type === 'message') onMessage = listener
+      },
+      removeEventListener: () => {},
+    }
+    new FexiosJsonRpcClient(socket)
+    const call = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' })
+
+    onMessage({ data: call })
+    expect(JSON.parse(sent[0])).to.deep.include({ id: 1 })
+    socket.readyState = 2
+    expect(() => onMessage({ data: call })).not.to.throw()
+    expect(sent.length).to.equal(1)
+  })
+})
@@ -0,0 +1,169 @@
+import { describe, expect, expectTypeOf, it } from 'vitest'
+import { Fexios, createTypedFexios } from '../src/index'
+import { MOCK_FETCH_BASE_URL } from './mockFetch.js'
+
+type User = { id: number; name: string }
+
+// shaped like the output of `openapi-typescript`
+interface paths {
+  '/users': {
+    parameters: { query?: never; header?: never; path?: never; cookie?: never }
+    get: {
+      parameters: {
+        query?: { q?: string; limit?: number }
+        header?: never
+        path?: never
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        200: {
+          headers: { [name: string]: unknown }
+          content: { 'application/json': User[] }
+        }
+      }
+    }
+    post: {
+      parameters: {
+        query?: never
+        header?: never
+        path?: never
+        cookie?: never
+      }
+      requestBody: { content: { 'application/json': Omit<User, 'id'> } }
+      responses: {
+        201: {
+          headers: { [name: string]: unknown }
+          content: { 'application/json': User }
+        }
+        400: {
+          headers: { [name: string]: unknown }
+          content: { 'application/json': { message: string } }
+        }
+      }
+    }
+    put?: never
+    delete?: never
+  }
+  '/users/{id}': {
+    parameters: { query?: never; header?: never; path?: never; cookie?: never }
+    get: {
+      parameters: {
+        query?: never
+        header?: never
+        path: { id: number }
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        200: {
+          headers: { [name: string]: unknown }
+          content: { 'application/json': User }
+        }
+        404: {
+          headers: { [name: string]: unknown }
+          content?: never
+        }
+      }
+    }
+    delete: {
+      parameters: {
+        query?: never
+        header?: never
+        path: { id: number }
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        204: { headers: { [name: string]: unknown }; content?: never }
+      }
+    }
+    post?: never
+  }
+}
+
+const createServer = () => {
+  const requests: Request[] = []
+  const fetch = async (req: Request | string | URL) => {
+    const request = req as Request
+    requests.push(request)
+    const { pathname } = new URL(request.url)
+    if (request.method === 'POST') {
+      const body = await request.json()
+      return Response.json({ id: 3, ...body }, { status: 201 })
+    }
+    if (request.method === 'DELETE') return new Response(null, { status: 204 })
+    if (pathname === '/users') return Response.json([{ id: 1, name: 'Alice' }])
+    return Response.json({ id: Number(pathname.split('/').pop()), name: 'Bob' })
+  }
+  return { fetch, requests }
+}
+
+describe('OpenAPI typed client', () => {
+  it('should send typed requests through the normal pipeline', async () => {
+    const { fetch, requests } = createServer()
+    const api = createTypedFexios<paths>({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch,
+    })
+    const seen: string[] = []
+    api.on('beforeRequest', (ctx) => {
+      seen.push(ctx.request.url)
+    })
+
+    const user = await api.get('/users/{id}', { params: { id: 42 } })
+    expectTypeOf(user.data).toEqualTypeOf<User>()
+    expect(user.data).to.deep.equal({ id: 42, name: 'Bob' })
+
+    const list = await api.get('/users', { query: { q: 'a' } })
+    expectTypeOf(list.data).toEqualTypeOf<User[]>()
+    expect(new URL(requests[1].url).search).to.equal('?q=a')
+
+    const created = await api.post('/users', { name: 'Carol' })
+    expectTypeOf(created.data).toEqualTypeOf<User>()
+    expect(created.response.status).to.equal(201)
+    if (created.response.status === 201) {
+      expectTypeOf(created.response.data).toEqualTypeOf<User>()
+    }
+
+    await api.delete('/users/{id}', undefined, { params: { id: 42 } })
+    expect(requests[3].method).to.equal('DELETE')
+    expect(seen).to.deep.equal([
+      `${MOCK_FETCH_BASE_URL}/users/42`,
+      `${MOCK_FETCH_BASE_URL}/users`,
+      `${MOCK_FETCH_BASE_URL}/users`,
+      `${MOCK_FETCH_BASE_URL}/users/42`,
+    ])
+
+    const viaRequest = await api.request('/users/{id}', {
+      method: 'get',
+      params: { id: 7 },
+    })
+    expectTypeOf(viaRequest.data).toEqualTypeOf<User>()
+    expect(viaRequest.data.id).to.equal(7)
+  })
+
+  it('should reject invalid calls at compile time', () => {
+    const api = createTypedFexios<paths>(
+      new Fexios({ fetch: createServer().fetch })
+    )
+    // only checked by tsc, never sent
+    const typeOnly = () => {
+      // @ts-expect-error unknown path
+      api.get('/posts')
+      // @ts-expect-error method not defined for the path
+      api.put('/users', {})
+      // @ts-expect-error missing path params
+      api.get('/users/{id}')
+      // @ts-expect-error wrong path param type
+      api.get('/users/{id}', { params: { id: '1' } })
+      // @ts-expect-error unknown query
+      api.get('/users', { query: { page: 1 } })
+      // @ts-expect-error missing required body
+      api.post('/users')
+      // @ts-expect-error wrong body
+      api.post('/users', { id: 1 })
+    }
+    expect(typeof typeOnly).to.equal('function')
+  })
+})
@@ -0,0 +1,200 @@
+import { describe, expect, it, vi } from 'vitest'
+import { Fexios, FexiosErrorCodes, FexiosProgressEvent } from '../src/index'
+import { mockFetch, EchoResponse, MOCK_FETCH_BASE_URL } from './mockFetch.js'
+
+const createChunkedResponse = (chunks: string[], contentLength?: number) => {
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+      controller.close()
+    },
+  })
+  return new Response(stream, {
+    headers: {
+      'content-type': 'text/plain',
+      ...(contentLength !== undefined
+        ? { 'content-length': String(contentLength) }
+        : {}),
+    },
+  })
+}
+
+describe('Progress events', () => {
+  it('should report download progress', async () => {
+    const events: FexiosProgressEvent[] = []
+    const fx = new Fexios({
+      fetch: async () => createChunkedResponse(['hello', ' ', 'world'], 11),
+    })
+
+    const ctx = await fx.get<string>('https://example.com', {
+      onDownloadProgress: (e) => events.push(e),
+    })
+
+    expect(ctx.data).to.equal('hello world')
+    expect(events.map((e) => e.loaded)).to.deep.equal([5, 6, 11])
+    expect(events.every((e) => e.total === 11)).to.equal(true)
+    expect(events.at(-1)!.progress).to.equal(1)
+    expect(events.at(-1)!.estimated).to.satisfy(
+      (v: number | undefined) => v === undefined || v === 0
+    )
+    // rawResponse should still be unread
+    expect(ctx.rawResponse.bodyUsed).to.equal(false)
+  })
+
+  it('should report download progress without total', async () => {
+    const events: FexiosProgressEvent[] = []
+    const fx = new Fexios({
+      fetch: async () => createChunkedResponse(['{"a":', '1}']),
+    })
+
+    const ctx = await fx.get('https://example.com', {
+      onDownloadProgress: (e) => events.push(e),
+    })
+
+    expect(ctx.data).to.deep.equal({ a: 1 })
+    expect(events.at(-1)!.loaded).to.equal(7)
+    expect(events.at(-1)!.total).to.equal(undefined)
+    expect(events.at(-1)!.progress).to.equal(undefined)
+  })
+
+  it('should report upload progress', async () => {
+    const events: FexiosProgressEvent[] = []
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: mockFetch,
+    })
+
+    const body = { text: 'x'.repeat(1024) }
+    const ctx = await fx.post<EchoResponse>('/post', body, {
+      onUploadProgress: (e) => events.push(e),
+    })
+
+    const size = JSON.stringify(body).length
+    expect(ctx.data.body).to.deep.equal(body)
+    expect(events.length).to.be.greaterThan(0)
+    expect(events.at(-1)!.loaded).to.equal(size)
+    expect(events.at(-1)!.total).to.equal(size)
+    expect(events.at(-1)!.progress).to.equal(1)
+    // rawRequest exposed to user should remain unread
+    expect(ctx.rawRequest.bodyUsed).to.equal(false)
+  })
+
+  it('should keep FormData boundary when tracking upload progress', async () => {
+    const events: FexiosProgressEvent[] = []
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: mockFetch,
+    })
+
+    const form = new FormData()
+    form.set('a', '1')
+    form.set('file', new Blob(['hello'], { type: 'text/plain' }), 'a.txt')
+    const ctx = await fx.post<EchoResponse>('/post', form, {
+      onUploadProgress: (e) => events.push(e),
+    })
+
+    expect(ctx.data.formData?.a).to.equal('1')
+    expect(ctx.data.binaryFiles.length).to.equal(1)
+    expect(events.at(-1)!.progress).to.equal(1)
+  })
+
+  it('should stream upload bodies without buffering them', async () => {
+    const received: number[] = []
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async (req) => {
+        const request = req as Request
+        received.push((await request.arrayBuffer()).byteLength)
+        return Response.json({ ok: 1 })
+      },
+    })
+
+    const text = 'x'.repeat(200 * 1024)
+    const textEvents: FexiosProgressEvent[] = []
+    await fx.post('/upload', text, {
+      onUploadProgress: (e) => textEvents.push(e),
+    })
+    // 64 KiB chunks
+    expect(textEvents.map((e) => e.bytes)).to.deep.equal([
+      65536, 65536, 65536, 8192,
+    ])
+    expect(textEvents.every((e) => e.total === text.length)).to.equal(true)
+
+    const form = new FormData()
+    form.set('file', new Blob(['x'.repeat(1000)]), 'a.txt')
+    const formEvents: FexiosProgressEvent[] = []
+    await fx.post('/upload', form, {
+      onUploadProgress: (e) => formEvents.push(e),
+    })
+    expect(formEvents.at(-1)!.loaded).to.equal(received[1])
+    expect(formEvents.at(-1)!.total).to.equal(received[1])
+  })
+
+  it('should fall back to a plain upload when stream bodies are refused', async () => {
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async (req) =>
+        Response.json({ body: await (req as Request).text() }),
+    })
+    // e.g. a runtime passing the feature detection but refusing the body
+    vi.stubGlobal(
+      'Request',
+      class extends Request {
+        constructor(input: RequestInfo | URL, init?: RequestInit) {
+          if (init?.body instanceof ReadableStream) {
+            throw new TypeError('streaming bodies are not supported')
+          }
+          super(input, init)
+        }
+      }
+    )
+    try {
+      const events: FexiosProgressEvent[] = []
+      const ctx = await fx.post('/upload', 'hello', {
+        onUploadProgress: (e) => events.push(e),
+      })
+      expect(ctx.data.body).to.equal('hello')
+      expect(events).to.deep.equal([])
+    } finally {
+      vi.unstubAllGlobals()
+    }
+  })
+
+  it('should not send the upload again on network errors', async () => {
+    let calls = 0
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async (req) => {
+        if (++calls === 1) throw new TypeError('Failed to fetch')
+        return Response.json({ body: await (req as Request).text() })
+      },
+    })
+
+    const error = await fx
+      .post('/upload', 'hello', { onUploadProgress: () => {} })
+      .catch((e) => e)
+    expect(error.code).to.equal(FexiosErrorCodes.NETWORK_ERROR)
+    expect(calls).to.equal(1)
+
+    // upload progress is still reported for the origin
+    const events: FexiosProgressEvent[] = []
+    await fx.post('/upload', 'again', {
+      onUploadProgress: (e) => events.push(e),
+    })
+    expect(events.at(-1)!.loaded).to.equal(5)
+  })
+
+  it('should expose progress callbacks on runtime context', async () => {
+    const onDownloadProgress = () => {}
+    const fx = new Fexios({
+      fetch: async () => createChunkedResponse(['ok']),
+    })
+    fx.on('beforeRequest', (ctx) => {
+      expect(ctx.runtime.onDownloadProgress).to.equal(onDownloadProgress)
+      expect((ctx.request as any).onDownloadProgress).to.equal(undefined)
+      return ctx
+    })
+    await fx.get('https://example.com', { onDownloadProgress })
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, expect, expectTypeOf, it } from 'vitest'
+import {
+  Fexios,
+  FexiosErrorCodes,
+  FexiosValidationError,
+  StandardSchemaV1,
+} from '../src/index'
+import { MOCK_FETCH_BASE_URL } from './mockFetch.js'
+
+type User = { id: number; name: string }
+
+// minimal Standard Schema implementation, like zod / valibot provide
+const userSchema: StandardSchemaV1<unknown, User> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate(value: any) {
+      const issues: StandardSchemaV1.Issue[] = []
+      if (typeof value?.id !== 'number') {
+        issues.push({ message: 'Expected number', path: ['id'] })
+      }
+      if (typeof value?.name !== 'string') {
+        issues.push({ message: 'Expected string', path: [{ key: 'name' }] })
+      }
+      return issues.length
+        ? { issues }
+        : { value: { id: value.id, name: value.name.trim() } }
+    },
+  },
+}
+
+describe('Schema validation', () => {
+  it('should validate and infer response data', async () => {
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async () => Response.json({ id: 1, name: ' Alice ', extra: true }),
+    })
+
+    const ctx = await fx.get('/user', { schema: userSchema })
+    expectTypeOf(ctx.data).toEqualTypeOf<User>()
+    // the validated output replaces the data
+    expect(ctx.data).to.deep.equal({ id: 1, name: 'Alice' })
+    expect(ctx.response.data).to.deep.equal({ id: 1, name: 'Alice' })
+
+    const untyped = await fx.get<{ foo: string }>('/user')
+    expectTypeOf(untyped.data).toEqualTypeOf<{ foo: string }>()
+  })
+
+  it('should reject with RESPONSE_VALIDATION_ERROR', async () => {
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async () => Response.json({ id: '1' }),
+    })
+
+    const error = await fx.get('/user', { schema: userSchema }).catch((e) => e)
+    expect(error).to.be.instanceOf(FexiosValidationError)
+    expect(error.code).to.equal(FexiosErrorCodes.RESPONSE_VALIDATION_ERROR)
+    expect(error.issues).to.have.length(2)
+    expect(error.message).to.contain('id: Expected number')
+    expect(error.message).to.contain('name: Expected string')
+    expect(error.response.status).to.equal(200)
+    expect(error.response.data).to.deep.equal({ id: '1' })
+  })
+
+  it('should validate short-circuit responses', async () => {
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL })
+    fx.on('beforeRequest', () => Response.json({ id: 2, name: 'Bob' }))
+
+    const ctx = await fx.request({ url: '/user', schema: userSchema })
+    expectTypeOf(ctx.data).toEqualTypeOf<User>()
+    expect(ctx.data).to.deep.equal({ id: 2, name: 'Bob' })
+  })
+
+  it('should validate request body', async () => {
+    const bodies: any[] = []
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: async (req) => {
+        bodies.push(await (req as Request).json())
+        return Response.json({ ok: true })
+      },
+    })
+
+    await fx.post(
+      '/users',
+      { id: 3, name: ' Carol ' },
+      { bodySchema: userSchema }
+    )
+    expect(bodies).to.deep.equal([{ id: 3, name: 'Carol' }])
+
+    await expect(
+      fx.post('/users', { name: 'Dave' }, { bodySchema: userSchema })
+    ).rejects.toMatchObject({
+      code: FexiosErrorCodes.REQUEST_VALIDATION_ERROR,
+    })
+    expect(bodies).to.have.length(1)
+  })
+})
@@ -1,6 +1,6 @@
 import { describe, expect, it, beforeAll, afterAll } from 'vitest'
 import { Fexios, FexiosError, FexiosErrorCodes } from '../src/index'
-import { pluginSSE } from '../src/plugins/index.js'
+import { FexiosEventSource, pluginSSE } from '../src/plugins/index.js'
 import { MockEventSource, MOCK_FETCH_BASE_URL } from './mockFetch'
 
 const SSE_URL = `${MOCK_FETCH_BASE_URL}/_sse`
@@ -89,4 +89,182 @@ describe('SSE', () => {
       ;(globalThis as any).EventSource = originalEventSource2
     }
   })
+
+  describe('fetch transport', () => {
+    const eventStream = (text: string) =>
+      new Response(text, {
+        headers: { 'content-type': 'text/event-stream' },
+      })
+
+    it('Should send headers/body through Fexios.request and parse event stream', async () => {
+      const requests: Request[] = []
+      const fx = new Fexios({
+        baseURL: MOCK_FETCH_BASE_URL,
+        headers: { authorization: 'Bearer token' },
+        fetch: async (req) => {
+          requests.push(req as Request)
+          return eventStream(
+            [
+              ': this is a comment',
+              'data: first',
+              '',
+              'event: custom',
+              'id: 42',
+              'data: line1',
+              'data:line2',
+              '',
+              '',
+            ].join('\n')
+          )
+        },
+      }).plugin(pluginSSE)
+
+      let hookCalled = false
+      fx.on('beforeRequest', (ctx) => {
+        hookCalled = true
+        return ctx
+      })
+
+      const received: string[] = []
+      fx.on('sse:message', (ctx) => {
+        received.push(ctx.event.data)
+        return ctx
+      })
+
+      const es = await fx.sse('/events', {
+        transport: 'fetch',
+        method: 'POST',
+        body: { room: 'lobby' },
+        reconnect: false,
+      })
+      expect(es).to.be.instanceOf(FexiosEventSource)
+
+      const custom = await new Promise<MessageEvent>((resolve) => {
+        es.addEventListener('custom', (event) => resolve(event as MessageEvent))
+      })
+      es.close()
+
+      expect(hookCalled).to.equal(true)
+      expect(requests[0].method).to.equal('POST')
+      expect(requests[0].headers.get('authorization')).to.equal('Bearer token')
+      expect(requests[0].headers.get('accept')).to.equal('text/event-stream')
+      expect(await requests[0].json()).to.deep.equal({ room: 'lobby' })
+      expect(received).to.deep.equal(['first'])
+      expect(custom.data).to.equal('line1\nline2')
+      expect(custom.lastEventId).to.equal('42')
+      expect(es.lastEventId).to.equal('42')
+    })
+
+    it('Should reconnect with Last-Event-ID using server retry value', async () => {
+      const lastEventIds: (string | null)[] = []
+      const fx = new Fexios({
+        baseURL: MOCK_FETCH_BASE_URL,
+        fetch: async (req) => {
+          lastEventIds.push((req as Request).headers.get('last-event-id'))
+          return lastEventIds.length === 1
+            ? eventStream('retry: 10\nid: 1\ndata: a\n\n')
+            : eventStream('id: 2\ndata: b\n\n')
+        },
+      }).plugin(pluginSSE)
+
+      let errors = 0
+      fx.on('sse:error', (ctx) => {
+        errors++
+        return ctx
+      })
+
+      const es = await fx.sse('/events', { transport: 'fetch' })
+      const messages: string[] = []
+      await new Promise<void>((resolve) => {
+        es.onmessage = (event) => {
+          messages.push((event as MessageEvent).data)
+          if (messages.length === 2) resolve()
+        }
+      })
+      es.close()
+
+      expect(messages).to.deep.equal(['a', 'b'])
+      expect(lastEventIds).to.deep.equal([null, '1'])
+      expect(es.retryInterval).to.equal(10)
+      expect(errors).to.be.greaterThan(0)
+      expect(es.readyState).to.equal(FexiosEventSource.CLOSED)
+    })
+
+    it('Should not apply timeout.body of base configs to the stream', async () => {
+      const encoder = new TextEncoder()
+      let requests = 0
+      const fx = new Fexios({
+        baseURL: MOCK_FETCH_BASE_URL,
+        timeout: { body: 20 },
+        fetch: async () => {
+          requests++
+          return new Response(
+            new ReadableStream({
+              start(controller) {
+                controller.enqueue(encoder.encode('data: a\r\r'))
+                // longer than the body timeout
+                setTimeout(() => {
+                  controller.enqueue(encoder.encode('data: b\r\r'))
+                }, 60)
+              },
+            }),
+            { headers: { 'content-type': 'text/event-stream' } }
+          )
+        },
+      }).plugin(pluginSSE)
+
+      const es = await fx.sse('/events', { transport: 'fetch' })
+      const messages: string[] = []
+      await new Promise<void>((resolve) => {
+        es.onmessage = (event) => {
+          messages.push((event as MessageEvent).data)
+          if (messages.length === 2) resolve()
+        }
+      })
+      es.close()
+
+      expect(messages).to.deep.equal(['a', 'b'])
+      expect(requests).to.equal(1)
+    })
+
+    it('Should cancel the response stream on close', async () => {
+      let cancelled = 0
+      const fx = new Fexios({
+        baseURL: MOCK_FETCH_BASE_URL,
+        fetch: async () =>
+          new Response(
+            new ReadableStream({
+              start(controller) {
+                controller.enqueue(new TextEncoder().encode('data: a\n\n'))
+              },
+              cancel() {
+                cancelled++
+              },
+            }),
+            { headers: { 'content-type': 'text/event-stream' } }
+          ),
+      }).plugin(pluginSSE)
+
+      const es = await fx.sse('/events', { transport: 'fetch' })
+      await new Promise((resolve) => (es.onmessage = resolve))
+      es.close()
+      await new Promise((resolve) => setTimeout(resolve))
+
+      expect(cancelled).to.equal(1)
+      expect(fx.cancelAll()).to.equal(0)
+    })
+
+    it('Should reject when response is not an event stream', async () => {
+      const fx = new Fexios({
+        baseURL: MOCK_FETCH_BASE_URL,
+        fetch: async () => Response.json({ ok: true }),
+      }).plugin(pluginSSE)
+
+      await expect(
+        fx.sse('/events', { transport: 'fetch' })
+      ).rejects.toMatchObject({
+        code: FexiosErrorCodes.UNSUPPORTED_RESPONSE_TYPE,
+      })
+    })
+  })
 })
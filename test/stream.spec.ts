@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { Fexios, FexiosResponseError, FexiosStreamReader } from '../src/index'
+
+const createNDJSONResponse = (records: any[], init?: ResponseInit) => {
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const record of records) {
+        controller.enqueue(encoder.encode(JSON.stringify(record) + '\n'))
+      }
+      controller.close()
+    },
+  })
+  return new Response(stream, {
+    headers: { 'content-type': 'application/x-ndjson' },
+    ...init,
+  })
+}
+
+describe('Stream response', () => {
+  it('should return unbuffered ReadableStream as ctx.data', async () => {
+    const fx = new Fexios({
+      fetch: async () => createNDJSONResponse([{ id: 1 }, { id: 2 }]),
+    })
+
+    const ctx = await fx.get<ReadableStream<Uint8Array>>(
+      'https://example.com',
+      { responseType: 'stream' }
+    )
+
+    expect(ctx.responseType).to.equal('stream')
+    expect(ctx.data).to.be.instanceOf(ReadableStream)
+    expect(ctx.rawResponse.bodyUsed).to.equal(false)
+
+    const records: any[] = []
+    for await (const record of FexiosStreamReader.ndjson(ctx.data)) {
+      records.push(record)
+    }
+    expect(records).to.deep.equal([{ id: 1 }, { id: 2 }])
+    // data is the body of rawResponse itself
+    expect(ctx.rawResponse.bodyUsed).to.equal(true)
+  })
+
+  it('should allow text/event-stream in explicit stream mode', async () => {
+    const fx = new Fexios({
+      fetch: async () =>
+        new Response('data: hello\n\n', {
+          headers: { 'content-type': 'text/event-stream' },
+        }),
+    })
+
+    const ctx = await fx.get('https://example.com', { responseType: 'stream' })
+    const lines: string[] = []
+    for await (const line of FexiosStreamReader.lines(ctx.data)) {
+      lines.push(line)
+    }
+    expect(lines).to.deep.equal(['data: hello', ''])
+  })
+
+  it('should report download progress in stream mode', async () => {
+    const loaded: number[] = []
+    const fx = new Fexios({
+      fetch: async () => createNDJSONResponse([{ id: 1 }, { id: 2 }]),
+    })
+
+    const ctx = await fx.get('https://example.com', {
+      responseType: 'stream',
+      onDownloadProgress: (e) => loaded.push(e.loaded),
+    })
+    for await (const _ of FexiosStreamReader.bytes(ctx.data));
+    expect(loaded).to.deep.equal([9, 18])
+  })
+
+  it('should still throw for non-ok responses', async () => {
+    const fx = new Fexios({
+      fetch: async () => createNDJSONResponse([], { status: 500 }),
+    })
+    await expect(
+      fx.get('https://example.com', { responseType: 'stream' })
+    ).rejects.toBeInstanceOf(FexiosResponseError)
+  })
+
+  it('should cancel the body of rejected responses', async () => {
+    let cancelled = false
+    const fx = new Fexios({
+      fetch: async () =>
+        new Response(
+          new ReadableStream<Uint8Array>({
+            cancel() {
+              cancelled = true
+            },
+          }),
+          { status: 500 }
+        ),
+    })
+    await expect(
+      fx.get('https://example.com', { responseType: 'stream' })
+    ).rejects.toBeInstanceOf(FexiosResponseError)
+    await new Promise((r) => setTimeout(r))
+    expect(cancelled).to.equal(true)
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import {
+  Fexios,
+  FexiosErrorCodes,
+  FexiosTimeoutError,
+  resolveTimeoutOptions,
+  sleep as abortableSleep,
+} from '../src/index'
+import { MOCK_FETCH_BASE_URL } from './mockFetch.js'
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms))
+
+// sends headers after `headerDelay` ms, then one chunk every `chunkDelay` ms
+const createDripFetch =
+  (headerDelay: number, chunkDelay: number, chunks = 3) =>
+  async (req: Request | string | URL) => {
+    const signal = (req as Request).signal
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, headerDelay)
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer)
+        reject(signal.reason)
+      })
+    })
+    const encoder = new TextEncoder()
+    let sent = 0
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        if (sent >= chunks) return controller.close()
+        await sleep(chunkDelay)
+        controller.enqueue(encoder.encode(`chunk${sent++}`))
+      },
+    })
+    return new Response(body, { headers: { 'content-type': 'text/plain' } })
+  }
+
+describe('Timeouts', () => {
+  it('should resolve timeout options', () => {
+    expect(resolveTimeoutOptions(1000)).to.deep.equal({
+      response: 1000,
+      body: 0,
+      total: 0,
+    })
+    expect(
+      resolveTimeoutOptions({ response: 1000, body: 200 }, 500, { total: 3000 })
+    ).to.deep.equal({ response: 500, body: 200, total: 3000 })
+  })
+
+  it('should time out waiting for response headers', async () => {
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: createDripFetch(100, 0),
+      timeout: 10,
+    })
+    const error = await fx.get('/slow').catch((e) => e)
+    expect(error).to.be.instanceOf(FexiosTimeoutError)
+    expect(error.code).to.equal(FexiosErrorCodes.TIMEOUT)
+    expect(error.phase).to.equal('response')
+  })
+
+  it('should time out when the body stalls between chunks', async () => {
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: createDripFetch(0, 50),
+      timeout: { response: 100, body: 20 },
+    })
+    await expect(fx.get('/drip')).rejects.toMatchObject({
+      code: FexiosErrorCodes.TIMEOUT,
+      phase: 'body',
+    })
+
+    // steady chunks within the idle timeout
+    const ctx = await fx.get('/drip', { timeout: { body: 100 } })
+    expect(ctx.data).to.equal('chunk0chunk1chunk2')
+  })
+
+  it('should time out the whole request', async () => {
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: createDripFetch(0, 15, 10),
+      timeout: { body: 50, total: 60 },
+    })
+    const start = Date.now()
+    await expect(fx.get('/drip')).rejects.toMatchObject({
+      code: FexiosErrorCodes.TIMEOUT,
+      phase: 'total',
+    })
+    expect(Date.now() - start).to.be.lessThan(140)
+  })
+
+  it('should count the total timeout from fx.request()', async () => {
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: createDripFetch(0, 0),
+      timeout: { total: 50 },
+    })
+    // e.g. waiting for a rate limit, before the fetch is sent
+    fx.on('beforeActualFetch', async (ctx) => {
+      await abortableSleep(1000, ctx.request.rawRequest!.signal)
+      return ctx
+    })
+    const start = Date.now()
+    await expect(fx.get('/drip')).rejects.toMatchObject({
+      code: FexiosErrorCodes.TIMEOUT,
+      phase: 'total',
+    })
+    expect(Date.now() - start).to.be.lessThan(500)
+  })
+
+  it('should apply the body timeout in stream mode', async () => {
+    const fx = new Fexios({
+      baseURL: MOCK_FETCH_BASE_URL,
+      fetch: createDripFetch(0, 50),
+      timeout: { body: 20 },
+    })
+    const ctx = await fx.get<ReadableStream<Uint8Array>>('/drip', {
+      responseType: 'stream',
+    })
+    const reader = ctx.data.getReader()
+    await expect(reader.read()).rejects.toMatchObject({ phase: 'body' })
+  })
+})
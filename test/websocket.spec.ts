@@ -1,6 +1,6 @@
 import { describe, expect, it, beforeAll, afterAll } from 'vitest'
 import { Fexios, FexiosError, FexiosErrorCodes } from '../src/index'
-import { pluginWebSocket } from '../src/plugins/index.js'
+import { FexiosWebSocket, pluginWebSocket } from '../src/plugins/index.js'
 import { MockWebSocket, MOCK_FETCH_BASE_URL } from './mockFetch'
 
 const WS_URL = `${MOCK_FETCH_BASE_URL}/_ws`
@@ -89,4 +89,132 @@ describe('WebSocket', () => {
       ;(globalThis as any).WebSocket = prev
     }
   })
+
+  it('Managed connection reconnects and flushes queued messages', async () => {
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL }).plugin(
+      pluginWebSocket
+    )
+
+    let connectCount = 0
+    fx.on('websocket:beforeConnect', (ctx) => {
+      connectCount++
+      ctx.url = ctx.url.replace(/token=\d+/, `token=${connectCount}`)
+      return ctx
+    })
+    const events: string[] = []
+    fx.on('websocket:reconnecting', (ctx) => {
+      events.push(`reconnecting#${ctx.attempt}`)
+      return ctx
+    })
+    fx.on('websocket:reconnected', (ctx) => {
+      events.push(`reconnected#${ctx.attempt}`)
+      return ctx
+    })
+
+    const ws = await fx.ws(WS_URL.replace(/^http/, 'ws'), {
+      query: { token: 0 },
+      reconnect: { baseDelay: 10 },
+    })
+    expect(ws).to.be.instanceOf(FexiosWebSocket)
+    expect(ws.state).to.equal('open')
+    expect(ws.url).to.include('token=1')
+
+    const messages: string[] = []
+    ws.addEventListener('message', (event) => {
+      messages.push((event as MessageEvent).data)
+    })
+
+    // simulate an unexpected disconnection
+    ws.socket!.close(4000)
+    ws.send('queued')
+    expect(ws.state).to.equal('open')
+
+    await new Promise<void>((resolve) => {
+      ws.addEventListener('reconnected', () => resolve())
+    })
+    expect(ws.state).to.equal('open')
+    expect(ws.url).to.include('token=2')
+
+    await new Promise<void>((resolve) => {
+      const timer = setInterval(() => {
+        if (messages.includes('queued')) {
+          clearInterval(timer)
+          resolve()
+        }
+      }, 5)
+    })
+
+    expect(connectCount).to.equal(2)
+    expect(events).to.deep.equal(['reconnecting#1', 'reconnected#1'])
+
+    const closed = new Promise<void>((resolve) => {
+      ws.onclose = () => resolve()
+    })
+    ws.close()
+    await closed
+    expect(ws.state).to.equal('closed')
+    expect(() => ws.send('nope')).to.throw(FexiosError)
+  })
+
+  it('Managed connection gives up after max attempts', async () => {
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL }).plugin(
+      pluginWebSocket
+    )
+    const ws = await fx.ws(WS_URL.replace(/^http/, 'ws'), {
+      reconnect: { baseDelay: 5, maxAttempts: 2 },
+    })
+
+    const prev = (globalThis as any).WebSocket
+    class FailingWebSocket extends MockWebSocket {
+      constructor(url: string) {
+        super(url)
+        this.readyState = 3
+        setTimeout(() => {
+          ;(this as any).triggerEventListeners('error', { type: 'error' })
+        })
+      }
+    }
+    ;(globalThis as any).WebSocket = FailingWebSocket
+
+    let attempts = 0
+    fx.on('websocket:reconnecting', (ctx) => {
+      attempts = ctx.attempt
+      return ctx
+    })
+
+    try {
+      const closed = new Promise<void>((resolve) => {
+        ws.addEventListener('close', () => resolve())
+      })
+      ws.socket!.close(4000)
+      await closed
+      expect(ws.state).to.equal('closed')
+      expect(attempts).to.equal(2)
+    } finally {
+      ;(globalThis as any).WebSocket = prev
+    }
+  })
+
+  it('Managed connection ignores errors of reconnection hooks', async () => {
+    const fx = new Fexios({ baseURL: MOCK_FETCH_BASE_URL }).plugin(
+      pluginWebSocket
+    )
+    fx.on('websocket:reconnecting', () => {
+      throw new Error('reconnecting hook')
+    })
+    fx.on('websocket:reconnected', () => {
+      throw new Error('reconnected hook')
+    })
+    const ws = await fx.ws(WS_URL.replace(/^http/, 'ws'), {
+      reconnect: { baseDelay: 5 },
+    })
+
+    const reconnected = new Promise<void>((resolve) => {
+      ws.addEventListener('reconnected', () => resolve())
+    })
+    ws.socket!.close(4000)
+    await reconnected
+    expect(ws.state).to.equal('open')
+    ws.close()
+  })
 })